@@ -1,15 +1,80 @@
 pragma solidity ^0.8.24;
 
-import { FHE, euint32, externalEuint32 } from "@fhevm/solidity/lib/FHE.sol";
+import { FHE, ebool, euint32, eaddress, externalEuint32 } from "@fhevm/solidity/lib/FHE.sol";
 import { ZamaEthereumConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
+import { IBidderRegistry } from "./interfaces/IBidderRegistry.sol";
+import { IERC20 } from "./interfaces/IERC20.sol";
 
 contract HouseBid_FHE is ZamaEthereumConfig {
+    /// FirstPrice: the highest bidder pays their bid. SecondPrice (Vickrey): the highest bidder
+    /// pays the second-highest bid, or the reserve price if that is higher.
+    enum AuctionType {
+        FirstPrice,
+        SecondPrice
+    }
+
+    /// A bid placed less than `window` seconds before the deadline pushes it out by `extension`
+    /// seconds, up to `maxExtension` seconds past the original deadline. A zero window disables it.
+    struct AntiSniping {
+        uint256 window;
+        uint256 extension;
+        uint256 maxExtension;
+    }
+
+    /// Refundable cleartext deposit each bidder pays with their first bid, in ETH when `token` is the
+    /// zero address and in that ERC-20 otherwise. A zero amount means no deposit is required.
+    struct Deposit {
+        address token;
+        uint256 amount;
+    }
+
+    /// Buyers allowed to bid on a listing. A non-zero `merkleRoot` admits the addresses of a Merkle tree whose
+    /// proofs the seller publishes at `proofsURI`, a non-zero `registry` admits the addresses it approves.
+    /// When both are set a bidder must pass both, when neither is set anyone can bid.
+    struct Allowlist {
+        bytes32 merkleRoot;
+        string proofsURI;
+        address registry;
+    }
+
+    /// A bidder's deposit on a property. Settled once refunded, or paid to the seller for the winner.
+    struct Escrow {
+        uint256 amount;
+        bool settled;
+    }
+
     struct Bid {
         euint32 encryptedAmount;
         address bidder;
         uint256 timestamp;
-        bool isVerified;
-        uint32 decryptedAmount;
+        // False once withdrawn or replaced, inactive bids are skipped when the bids are folded
+        bool isActive;
+    }
+
+    /// Everything a listing view needs about a property in one call, returned by `getPropertiesSummary`
+    struct PropertySummary {
+        string propertyId;
+        string details;
+        address seller;
+        uint256 startTime;
+        uint256 endTime;
+        uint256 maxEndTime;
+        bool isActive;
+        bool isPaused;
+        bool isCancelled;
+        AuctionType auctionType;
+        AntiSniping antiSniping;
+        Deposit deposit;
+        Allowlist allowlist;
+        uint256 bidsCount;
+        uint256 activeBidsCount;
+        euint32 clearingPrice;
+        eaddress highestBidder;
+        ebool encryptedReserveMet;
+        bool winnerRevealRequested;
+        bool reserveMet;
+        address winner;
+        uint32 winningAmount;
     }
 
     struct Property {
@@ -18,18 +83,52 @@ contract HouseBid_FHE is ZamaEthereumConfig {
         uint256 startTime;
         uint256 endTime;
         address seller;
+        // False once concluded or cancelled
         bool isActive;
+        bool isPaused;
+        bool isCancelled;
+        AuctionType auctionType;
+        AntiSniping antiSniping;
+        Deposit deposit;
+        Allowlist allowlist;
+        // Latest deadline anti-sniping extensions can reach
+        uint256 maxEndTime;
         Bid[] bids;
+        uint256 activeBidsCount;
+        // Bids folded into the encrypted maximum so far, `foldBids` advances it once bidding has ended
+        uint256 foldedBidsCount;
+        // Encrypted maximum of the active bids folded so far
+        euint32 highestBid;
+        eaddress highestBidder;
+        // Only tracked in SecondPrice mode
+        euint32 secondHighestBid;
+        // Price the winner pays, computed when the winner reveal is requested (zero if the reserve was not met)
+        euint32 clearingPrice;
+        // Seller's reserve price, only the seller and the contract can decrypt it
+        euint32 reservePrice;
+        ebool encryptedReserveMet;
+        bool winnerRevealRequested;
+        bool reserveMet;
+        address winner;
+        // Clearing price paid by the winner
+        uint32 winningAmount;
     }
 
     mapping(string => Property) public properties;
     string[] public propertyIds;
+    mapping(address => string[]) private sellerPropertyIds;
+    // propertyId => bidder => index + 1 of the bidder's active bid, 0 when there is none
+    mapping(string => mapping(address => uint256)) private activeBidIndex;
+    // propertyId => bidder => deposit held for them
+    mapping(string => mapping(address => Escrow)) private escrows;
+    bool private locked;
 
     event PropertyListed(
         string indexed propertyId,
         address indexed seller,
         uint256 startTime,
-        uint256 endTime
+        uint256 endTime,
+        AuctionType auctionType
     );
 
     event BidSubmitted(
@@ -38,29 +137,102 @@ contract HouseBid_FHE is ZamaEthereumConfig {
         euint32 encryptedAmount
     );
 
-    event BidRevealed(
+    event DeadlineExtended(
+        string indexed propertyId,
+        uint256 newEndTime
+    );
+
+    event ListingCancelled(string indexed propertyId);
+
+    event ListingPaused(string indexed propertyId);
+
+    event ListingResumed(string indexed propertyId);
+
+    event DetailsUpdated(string indexed propertyId, string details);
+
+    event AllowlistUpdated(
+        string indexed propertyId,
+        bytes32 merkleRoot,
+        string proofsURI,
+        address registry
+    );
+
+    event DepositPaid(
         string indexed propertyId,
         address indexed bidder,
-        uint32 decryptedAmount
+        uint256 amount
+    );
+
+    event DepositRefunded(
+        string indexed propertyId,
+        address indexed bidder,
+        uint256 amount
+    );
+
+    event ProceedsWithdrawn(
+        string indexed propertyId,
+        address indexed seller,
+        uint256 amount
+    );
+
+    event BidsFolded(
+        string indexed propertyId,
+        uint256 foldedBidsCount,
+        uint256 bidsCount
+    );
+
+    event BidWithdrawn(
+        string indexed propertyId,
+        address indexed bidder,
+        uint256 bidIndex
+    );
+
+    event WinnerRevealRequested(
+        string indexed propertyId,
+        ebool reserveMet,
+        euint32 clearingPrice,
+        eaddress highestBidder
     );
 
     event AuctionConcluded(
         string indexed propertyId,
         address indexed winner,
-        uint32 winningAmount
+        uint32 winningAmount,
+        bool reserveMet
     );
 
+    modifier nonReentrant() {
+        require(!locked, "Reentrant call");
+        locked = true;
+        _;
+        locked = false;
+    }
+
     constructor() ZamaEthereumConfig() {}
 
     function listProperty(
         string calldata propertyId,
         string calldata details,
-        uint256 duration
+        uint256 duration,
+        AuctionType auctionType,
+        AntiSniping calldata antiSniping,
+        Deposit calldata deposit,
+        Allowlist calldata allowlist,
+        externalEuint32 encryptedReservePrice,
+        bytes calldata inputProof
     ) external {
+        // An empty id would read as "not listed" forever and could be listed over again
+        require(bytes(propertyId).length > 0, "Property id required");
+        require(duration > 0, "Duration required");
         require(bytes(properties[propertyId].propertyId).length == 0, "Property already listed");
         uint256 startTime = block.timestamp;
         uint256 endTime = startTime + duration;
 
+        euint32 reservePrice = FHE.fromExternal(encryptedReservePrice, inputProof);
+        require(FHE.isInitialized(reservePrice), "Invalid encrypted reserve price");
+        FHE.allowThis(reservePrice);
+        FHE.allow(reservePrice, msg.sender);
+
         properties[propertyId] = Property({
             propertyId: propertyId,
             details: details,
@@ -68,83 +240,393 @@ contract HouseBid_FHE is ZamaEthereumConfig {
             endTime: endTime,
             seller: msg.sender,
             isActive: true,
-            bids: new Bid[](0)
+            isPaused: false,
+            isCancelled: false,
+            auctionType: auctionType,
+            antiSniping: antiSniping,
+            deposit: deposit,
+            allowlist: allowlist,
+            maxEndTime: endTime + antiSniping.maxExtension,
+            bids: new Bid[](0),
+            activeBidsCount: 0,
+            foldedBidsCount: 0,
+            highestBid: euint32.wrap(0),
+            highestBidder: eaddress.wrap(0),
+            secondHighestBid: euint32.wrap(0),
+            clearingPrice: euint32.wrap(0),
+            reservePrice: reservePrice,
+            encryptedReserveMet: ebool.wrap(0),
+            winnerRevealRequested: false,
+            reserveMet: false,
+            winner: address(0),
+            winningAmount: 0
         });
 
         propertyIds.push(propertyId);
-        emit PropertyListed(propertyId, msg.sender, startTime, endTime);
+        sellerPropertyIds[msg.sender].push(propertyId);
+        emit PropertyListed(propertyId, msg.sender, startTime, endTime, auctionType);
+    }
+
+    /// @notice Withdraw a listing that has no bids yet, it can no longer be bid on or concluded
+    function cancelListing(string calldata propertyId) external {
+        Property storage property = editableListing(propertyId);
+
+        property.isActive = false;
+        property.isCancelled = true;
+        emit ListingCancelled(propertyId);
     }
 
+    /// @notice Stop accepting bids on a listing that has none yet, the deadline is left unchanged
+    function pauseListing(string calldata propertyId) external {
+        Property storage property = editableListing(propertyId);
+        require(!property.isPaused, "Listing already paused");
+
+        property.isPaused = true;
+        emit ListingPaused(propertyId);
+    }
+
+    function resumeListing(string calldata propertyId) external {
+        Property storage property = editableListing(propertyId);
+        require(property.isPaused, "Listing not paused");
+
+        property.isPaused = false;
+        emit ListingResumed(propertyId);
+    }
+
+    /// @notice Correct the details of a listing that has no bids yet
+    function updateDetails(string calldata propertyId, string calldata details) external {
+        Property storage property = editableListing(propertyId);
+
+        property.details = details;
+        emit DetailsUpdated(propertyId, details);
+    }
+
+    /// @notice Replace the allowlist of a listing, only its seller can
+    function setAllowlist(string calldata propertyId, Allowlist calldata allowlist) external {
+        Property storage property = properties[propertyId];
+        require(property.seller != address(0), "Property not listed");
+        require(msg.sender == property.seller, "Only the seller can update the allowlist");
+        require(property.isActive, "Auction not active");
+
+        property.allowlist = allowlist;
+        emit AllowlistUpdated(propertyId, allowlist.merkleRoot, allowlist.proofsURI, allowlist.registry);
+    }
+
+    /// @notice Submit a sealed bid. The listing's deposit is collected with the bidder's first bid on it
+    /// and held until the auction concludes, ETH deposits are sent as the transaction value.
+    /// `allowlistProof` is the sender's Merkle proof when the listing has a Merkle allowlist, empty otherwise.
     function submitBid(
         string calldata propertyId,
         externalEuint32 encryptedAmount,
-        bytes calldata inputProof
+        bytes calldata inputProof,
+        bytes32[] calldata allowlistProof
+    ) external payable nonReentrant {
+        Property storage property = biddableProperty(propertyId);
+        require(activeBidIndex[propertyId][msg.sender] == 0, "Bid already placed, use replaceBid");
+        requireAllowed(property, allowlistProof);
+        collectDeposit(propertyId, property);
+
+        euint32 amount = FHE.fromExternal(encryptedAmount, inputProof);
+        require(FHE.isInitialized(amount), "Invalid encrypted amount");
+
+        addBid(propertyId, property, amount);
+        extendDeadline(propertyId, property);
+    }
+
+    /// @notice Replace the sender's active bid with a new encrypted amount, higher or lower.
+    /// The allowlist is checked again like in submitBid, a bidder the seller has since removed can only withdraw.
+    function replaceBid(
+        string calldata propertyId,
+        externalEuint32 encryptedAmount,
+        bytes calldata inputProof,
+        bytes32[] calldata allowlistProof
     ) external {
-        Property storage property = properties[propertyId];
+        Property storage property = biddableProperty(propertyId);
+        requireAllowed(property, allowlistProof);
+
+        euint32 amount = FHE.fromExternal(encryptedAmount, inputProof);
+        require(FHE.isInitialized(amount), "Invalid encrypted amount");
+
+        removeActiveBid(propertyId, property);
+        addBid(propertyId, property, amount);
+        extendDeadline(propertyId, property);
+    }
+
+    /// @notice Withdraw the sender's active bid, it can no longer win
+    function withdrawBid(string calldata propertyId) external {
+        Property storage property = biddableProperty(propertyId);
+
+        removeActiveBid(propertyId, property);
+    }
+
+    /// @notice Refund the sender's deposit once the auction has concluded, unless they won it
+    function claimRefund(string calldata propertyId) external nonReentrant {
+        Property storage property = concludedProperty(propertyId);
+        require(msg.sender != property.winner, "Winner deposit goes to the seller");
+
+        uint256 amount = settleDeposit(propertyId, property, msg.sender, msg.sender);
+        emit DepositRefunded(propertyId, msg.sender, amount);
+    }
+
+    /// @notice Pay the winner's deposit out to the seller once the auction has concluded
+    function withdrawProceeds(string calldata propertyId) external nonReentrant {
+        Property storage property = concludedProperty(propertyId);
+        require(msg.sender == property.seller, "Only the seller can withdraw proceeds");
+        require(property.winner != address(0), "No winner");
+
+        uint256 amount = settleDeposit(propertyId, property, property.winner, msg.sender);
+        emit ProceedsWithdrawn(propertyId, msg.sender, amount);
+    }
+
+    /// @notice Fold up to `maxCount` more bids, in submission order, into the encrypted highest bid and bidder
+    /// (and the second-highest bid in SecondPrice mode) once bidding has ended. Withdrawn and replaced bids are
+    /// skipped. Anyone can call it, as often as needed until every bid is folded.
+    function foldBids(string calldata propertyId, uint256 maxCount) external {
+        Property storage property = endedProperty(propertyId);
+        require(property.foldedBidsCount < property.bids.length, "All bids folded");
+        require(maxCount > 0, "Nothing to fold");
+
+        uint256 end = property.foldedBidsCount + pageSize(property.bids.length, property.foldedBidsCount, maxCount);
+        for (uint256 i = property.foldedBidsCount; i < end; i++) {
+            Bid storage bid = property.bids[i];
+            if (bid.isActive) {
+                foldBid(property, bid.encryptedAmount, bid.bidder);
+            }
+        }
+        property.foldedBidsCount = end;
+
+        emit BidsFolded(propertyId, end, property.bids.length);
+    }
+
+    /// @notice Make only the reserve check and, if the reserve was met, the clearing price and the
+    /// highest bidder publicly decryptable once every bid is folded
+    function requestWinnerReveal(string calldata propertyId) external {
+        Property storage property = endedProperty(propertyId);
+        require(property.activeBidsCount > 0, "No bids to reveal");
+        require(property.foldedBidsCount == property.bids.length, "Bids not folded");
+        require(!property.winnerRevealRequested, "Winner reveal already requested");
+
+        property.winnerRevealRequested = true;
+
+        // Only the price and winner are revealed, and both are zero when the reserve was not met
+        ebool reserveMet = FHE.ge(property.highestBid, property.reservePrice);
+        euint32 price = property.auctionType == AuctionType.SecondPrice
+            ? FHE.max(property.secondHighestBid, property.reservePrice)
+            : property.highestBid;
+        property.encryptedReserveMet = reserveMet;
+        property.clearingPrice = FHE.select(reserveMet, price, FHE.asEuint32(0));
+        property.highestBidder = FHE.select(reserveMet, property.highestBidder, FHE.asEaddress(address(0)));
+
+        FHE.allowThis(property.encryptedReserveMet);
+        FHE.allowThis(property.clearingPrice);
+        FHE.allowThis(property.highestBidder);
+        FHE.makePubliclyDecryptable(property.encryptedReserveMet);
+        FHE.makePubliclyDecryptable(property.clearingPrice);
+        FHE.makePubliclyDecryptable(property.highestBidder);
+
+        emit WinnerRevealRequested(propertyId, property.encryptedReserveMet, property.clearingPrice, property.highestBidder);
+    }
+
+    /// @notice Conclude the auction with the publicly decrypted (reserveMet, clearingPrice, highestBidder) values.
+    /// An auction without active bids concludes with no winner and takes empty decryption arguments.
+    function determineWinner(
+        string calldata propertyId,
+        bytes memory abiEncodedClearValues,
+        bytes memory decryptionProof
+    ) external {
+        Property storage property = endedProperty(propertyId);
+
+        if (property.activeBidsCount > 0) {
+            require(property.winnerRevealRequested, "Winner reveal not requested");
+
+            bytes32[] memory cts = new bytes32[](3);
+            cts[0] = FHE.toBytes32(property.encryptedReserveMet);
+            cts[1] = FHE.toBytes32(property.clearingPrice);
+            cts[2] = FHE.toBytes32(property.highestBidder);
+
+            FHE.checkSignatures(cts, abiEncodedClearValues, decryptionProof);
+
+            (bool reserveMet, uint32 winningAmount, address winner) =
+                abi.decode(abiEncodedClearValues, (bool, uint32, address));
+            property.reserveMet = reserveMet;
+            property.winningAmount = winningAmount;
+            property.winner = winner;
+        }
+
+        property.isActive = false;
+        emit AuctionConcluded(propertyId, property.winner, property.winningAmount, property.reserveMet);
+    }
+
+    function biddableProperty(string calldata propertyId) private view returns (Property storage property) {
+        property = properties[propertyId];
         require(block.timestamp >= property.startTime, "Bidding not started");
         require(block.timestamp <= property.endTime, "Bidding period ended");
         require(property.isActive, "Auction not active");
+        require(!property.isPaused, "Auction paused");
+    }
+
+    /// @dev Sellers may only change a listing before anyone has bid on it
+    function editableListing(string calldata propertyId) private view returns (Property storage property) {
+        property = properties[propertyId];
+        require(property.seller != address(0), "Property not listed");
+        require(msg.sender == property.seller, "Only the seller can manage the listing");
+        require(property.isActive, "Auction not active");
+        require(property.bids.length == 0, "Listing already has bids");
+    }
 
-        euint32 amount = FHE.fromExternal(encryptedAmount, inputProof);
-        require(FHE.isInitialized(amount), "Invalid encrypted amount");
+    /// @dev A listing whose bidding has ended and that is not concluded or cancelled
+    function endedProperty(string calldata propertyId) private view returns (Property storage property) {
+        property = properties[propertyId];
+        require(property.seller != address(0), "Property not listed");
+        require(block.timestamp > property.endTime, "Auction still active");
+        require(!property.isCancelled, "Listing cancelled");
+        require(property.isActive, "Auction already concluded");
+    }
+
+    function concludedProperty(string calldata propertyId) private view returns (Property storage property) {
+        property = properties[propertyId];
+        require(property.seller != address(0), "Property not listed");
+        require(!property.isActive, "Auction not concluded");
+    }
+
+    function requireAllowed(Property storage property, bytes32[] calldata allowlistProof) private view {
+        Allowlist storage allowlist = property.allowlist;
+        if (allowlist.merkleRoot != bytes32(0)) {
+            require(isInMerkleTree(allowlist.merkleRoot, allowlistProof, msg.sender), "Not on the allowlist");
+        }
+        if (allowlist.registry != address(0)) {
+            require(IBidderRegistry(allowlist.registry).isApproved(msg.sender), "Not approved by the registry");
+        }
+    }
+
+    /// @dev Leaves are keccak256(keccak256(abi.encode(bidder))) and pairs are hashed in sorted order,
+    /// the layout OpenZeppelin's MerkleProof and StandardMerkleTree use
+    function isInMerkleTree(bytes32 root, bytes32[] calldata proof, address bidder) private pure returns (bool) {
+        bytes32 hash = keccak256(bytes.concat(keccak256(abi.encode(bidder))));
+        for (uint256 i = 0; i < proof.length; i++) {
+            hash = hash < proof[i]
+                ? keccak256(abi.encode(hash, proof[i]))
+                : keccak256(abi.encode(proof[i], hash));
+        }
+        return hash == root;
+    }
+
+    function collectDeposit(string calldata propertyId, Property storage property) private {
+        Deposit storage deposit = property.deposit;
+        Escrow storage escrow = escrows[propertyId][msg.sender];
+        // Bidding again after a withdrawal reuses the deposit already held
+        if (deposit.amount == 0 || escrow.amount > 0) {
+            require(msg.value == 0, "No deposit due");
+            return;
+        }
+
+        escrow.amount = deposit.amount;
+        if (deposit.token == address(0)) {
+            require(msg.value == deposit.amount, "Incorrect deposit");
+        } else {
+            require(msg.value == 0, "Deposit is paid in tokens");
+            (bool success, bytes memory data) = deposit.token.call(
+                abi.encodeCall(IERC20.transferFrom, (msg.sender, address(this), deposit.amount))
+            );
+            require(success && (data.length == 0 || abi.decode(data, (bool))), "Deposit transfer failed");
+        }
 
+        emit DepositPaid(propertyId, msg.sender, deposit.amount);
+    }
+
+    /// @dev Marks the deposit settled before paying it out, so a reentrant call finds nothing to pay
+    function settleDeposit(
+        string calldata propertyId,
+        Property storage property,
+        address bidder,
+        address to
+    ) private returns (uint256 amount) {
+        Escrow storage escrow = escrows[propertyId][bidder];
+        require(escrow.amount > 0, "No deposit held");
+        require(!escrow.settled, "Deposit already settled");
+
+        escrow.settled = true;
+        amount = escrow.amount;
+
+        address token = property.deposit.token;
+        if (token == address(0)) {
+            (bool sent, ) = payable(to).call{value: amount}("");
+            require(sent, "Deposit transfer failed");
+        } else {
+            (bool success, bytes memory data) = token.call(abi.encodeCall(IERC20.transfer, (to, amount)));
+            require(success && (data.length == 0 || abi.decode(data, (bool))), "Deposit transfer failed");
+        }
+    }
+
+    function addBid(string calldata propertyId, Property storage property, euint32 amount) private {
         property.bids.push(Bid({
             encryptedAmount: amount,
             bidder: msg.sender,
             timestamp: block.timestamp,
-            isVerified: false,
-            decryptedAmount: 0
+            isActive: true
         }));
+        property.activeBidsCount++;
+        activeBidIndex[propertyId][msg.sender] = property.bids.length;
 
+        // Only the contract and the bidder can decrypt while bidding is open
         FHE.allowThis(amount);
-        FHE.makePubliclyDecryptable(amount);
+        FHE.allow(amount, msg.sender);
 
         emit BidSubmitted(propertyId, msg.sender, amount);
     }
 
-    function revealBid(
-        string calldata propertyId,
-        uint256 bidIndex,
-        bytes memory abiEncodedClearValue,
-        bytes memory decryptionProof
-    ) external {
-        Property storage property = properties[propertyId];
-        require(bidIndex < property.bids.length, "Invalid bid index");
-        Bid storage bid = property.bids[bidIndex];
-        require(!bid.isVerified, "Bid already revealed");
-
-        bytes32[] memory cts = new bytes32[](1);
-        cts[0] = FHE.toBytes32(bid.encryptedAmount);
-
-        FHE.checkSignatures(cts, abiEncodedClearValue, decryptionProof);
+    function extendDeadline(string calldata propertyId, Property storage property) private {
+        AntiSniping storage antiSniping = property.antiSniping;
+        if (property.endTime - block.timestamp >= antiSniping.window || property.endTime == property.maxEndTime) {
+            return;
+        }
 
-        uint32 decryptedAmount = abi.decode(abiEncodedClearValue, (uint32));
-        bid.decryptedAmount = decryptedAmount;
-        bid.isVerified = true;
+        uint256 newEndTime = property.endTime + antiSniping.extension;
+        property.endTime = newEndTime < property.maxEndTime ? newEndTime : property.maxEndTime;
 
-        emit BidRevealed(propertyId, bid.bidder, decryptedAmount);
+        emit DeadlineExtended(propertyId, property.endTime);
     }
 
-    function determineWinner(string calldata propertyId) external {
-        Property storage property = properties[propertyId];
-        require(block.timestamp > property.endTime, "Auction still active");
-        require(property.isActive, "Auction already concluded");
+    function removeActiveBid(string calldata propertyId, Property storage property) private {
+        uint256 index = activeBidIndex[propertyId][msg.sender];
+        require(index != 0, "No active bid");
 
-        uint32 highestAmount = 0;
-        address winner = address(0);
+        property.bids[index - 1].isActive = false;
+        property.activeBidsCount--;
+        activeBidIndex[propertyId][msg.sender] = 0;
 
-        for (uint256 i = 0; i < property.bids.length; i++) {
-            Bid storage bid = property.bids[i];
-            require(bid.isVerified, "Some bids not revealed");
+        emit BidWithdrawn(propertyId, msg.sender, index - 1);
+    }
 
-            if (bid.decryptedAmount > highestAmount) {
-                highestAmount = bid.decryptedAmount;
-                winner = bid.bidder;
+    function foldBid(Property storage property, euint32 amount, address bidderAddress) private {
+        bool secondPrice = property.auctionType == AuctionType.SecondPrice;
+        eaddress bidder = FHE.asEaddress(bidderAddress);
+        if (!FHE.isInitialized(property.highestBid)) {
+            property.highestBid = amount;
+            property.highestBidder = bidder;
+            if (secondPrice) {
+                property.secondHighestBid = FHE.asEuint32(0);
+            }
+        } else {
+            // Strictly greater, so the earliest of tied bids keeps the lead
+            ebool isHigher = FHE.gt(amount, property.highestBid);
+            if (secondPrice) {
+                // A new leader pushes the old one down, otherwise the bid may still beat the runner-up
+                property.secondHighestBid = FHE.select(
+                    isHigher,
+                    property.highestBid,
+                    FHE.max(property.secondHighestBid, amount)
+                );
             }
+            property.highestBid = FHE.select(isHigher, amount, property.highestBid);
+            property.highestBidder = FHE.select(isHigher, bidder, property.highestBidder);
         }
 
-        property.isActive = false;
-        emit AuctionConcluded(propertyId, winner, highestAmount);
+        FHE.allowThis(property.highestBid);
+        FHE.allowThis(property.highestBidder);
+        if (secondPrice) {
+            FHE.allowThis(property.secondHighestBid);
+        }
     }
 
     function getPropertyDetails(string calldata propertyId)
@@ -155,7 +637,8 @@ contract HouseBid_FHE is ZamaEthereumConfig {
             address,
             uint256,
             uint256,
-            bool
+            bool,
+            AuctionType
         )
     {
         Property storage property = properties[propertyId];
@@ -164,7 +647,8 @@ contract HouseBid_FHE is ZamaEthereumConfig {
             property.seller,
             property.startTime,
             property.endTime,
-            property.isActive
+            property.isActive,
+            property.auctionType
         );
     }
 
@@ -175,8 +659,7 @@ contract HouseBid_FHE is ZamaEthereumConfig {
             euint32,
             address,
             uint256,
-            bool,
-            uint32
+            bool
         )
     {
         Property storage property = properties[propertyId];
@@ -185,19 +668,155 @@ contract HouseBid_FHE is ZamaEthereumConfig {
             bid.encryptedAmount,
             bid.bidder,
             bid.timestamp,
-            bid.isVerified,
-            bid.decryptedAmount
+            bid.isActive
         );
     }
 
+    /// @notice Encrypted reserve price, decryptable by the seller only
+    function getReservePrice(string calldata propertyId) external view returns (euint32) {
+        return properties[propertyId].reservePrice;
+    }
+
+    function getAuctionResult(string calldata propertyId)
+        external
+        view
+        returns (
+            euint32,
+            eaddress,
+            ebool,
+            bool,
+            bool,
+            address,
+            uint32
+        )
+    {
+        Property storage property = properties[propertyId];
+        return (
+            property.clearingPrice,
+            property.highestBidder,
+            property.encryptedReserveMet,
+            property.winnerRevealRequested,
+            property.reserveMet,
+            property.winner,
+            property.winningAmount
+        );
+    }
+
+    function getAntiSniping(string calldata propertyId) external view returns (AntiSniping memory, uint256) {
+        Property storage property = properties[propertyId];
+        return (property.antiSniping, property.maxEndTime);
+    }
+
+    function getListingStatus(string calldata propertyId) external view returns (bool isPaused, bool isCancelled) {
+        Property storage property = properties[propertyId];
+        return (property.isPaused, property.isCancelled);
+    }
+
+    function getAllowlist(string calldata propertyId) external view returns (Allowlist memory) {
+        return properties[propertyId].allowlist;
+    }
+
+    function getDeposit(string calldata propertyId) external view returns (Deposit memory) {
+        return properties[propertyId].deposit;
+    }
+
+    /// @notice Deposit held for a bidder on a property and whether it was refunded or paid to the seller
+    function getEscrow(string calldata propertyId, address bidder) external view returns (Escrow memory) {
+        return escrows[propertyId][bidder];
+    }
+
     function getBidsCount(string calldata propertyId) external view returns (uint256) {
         return properties[propertyId].bids.length;
     }
 
+    function getActiveBidsCount(string calldata propertyId) external view returns (uint256) {
+        return properties[propertyId].activeBidsCount;
+    }
+
+    /// @notice Bids folded so far and the number of bids, the winner reveal needs them equal
+    function getFoldProgress(string calldata propertyId) external view returns (uint256, uint256) {
+        Property storage property = properties[propertyId];
+        return (property.foldedBidsCount, property.bids.length);
+    }
+
+    /// @notice Index of the bidder's active bid on a property
+    function getActiveBidIndex(string calldata propertyId, address bidder) external view returns (bool, uint256) {
+        uint256 index = activeBidIndex[propertyId][bidder];
+        return index == 0 ? (false, 0) : (true, index - 1);
+    }
+
     function getAllPropertyIds() external view returns (string[] memory) {
         return propertyIds;
     }
 
+    /// @notice Up to `limit` property ids in listing order starting at `offset`, and the number of listings
+    function getPropertyIds(uint256 offset, uint256 limit) external view returns (string[] memory, uint256) {
+        return (page(propertyIds, offset, limit), propertyIds.length);
+    }
+
+    /// @notice Like `getPropertyIds`, restricted to the listings of one seller
+    function getSellerPropertyIds(address seller, uint256 offset, uint256 limit)
+        external
+        view
+        returns (string[] memory, uint256)
+    {
+        return (page(sellerPropertyIds[seller], offset, limit), sellerPropertyIds[seller].length);
+    }
+
+    /// @notice Summaries of several properties in one call, unlisted ids come back with a zero seller
+    function getPropertiesSummary(string[] calldata ids) external view returns (PropertySummary[] memory summaries) {
+        summaries = new PropertySummary[](ids.length);
+        for (uint256 i = 0; i < ids.length; i++) {
+            Property storage property = properties[ids[i]];
+            summaries[i] = PropertySummary({
+                propertyId: ids[i],
+                details: property.details,
+                seller: property.seller,
+                startTime: property.startTime,
+                endTime: property.endTime,
+                maxEndTime: property.maxEndTime,
+                isActive: property.isActive,
+                isPaused: property.isPaused,
+                isCancelled: property.isCancelled,
+                auctionType: property.auctionType,
+                antiSniping: property.antiSniping,
+                deposit: property.deposit,
+                allowlist: property.allowlist,
+                bidsCount: property.bids.length,
+                activeBidsCount: property.activeBidsCount,
+                clearingPrice: property.clearingPrice,
+                highestBidder: property.highestBidder,
+                encryptedReserveMet: property.encryptedReserveMet,
+                winnerRevealRequested: property.winnerRevealRequested,
+                reserveMet: property.reserveMet,
+                winner: property.winner,
+                winningAmount: property.winningAmount
+            });
+        }
+    }
+
+    /// @notice Up to `limit` bids of a property in submission order starting at `offset`
+    function getBids(string calldata propertyId, uint256 offset, uint256 limit) external view returns (Bid[] memory bids) {
+        Bid[] storage all = properties[propertyId].bids;
+        bids = new Bid[](pageSize(all.length, offset, limit));
+        for (uint256 i = 0; i < bids.length; i++) {
+            bids[i] = all[offset + i];
+        }
+    }
+
+    function page(string[] storage ids, uint256 offset, uint256 limit) private view returns (string[] memory items) {
+        items = new string[](pageSize(ids.length, offset, limit));
+        for (uint256 i = 0; i < items.length; i++) {
+            items[i] = ids[offset + i];
+        }
+    }
+
+    /// @dev Number of items from `offset` on, capped at `limit`, without overflowing for huge limits
+    function pageSize(uint256 length, uint256 offset, uint256 limit) private pure returns (uint256) {
+        if (offset >= length) return 0;
+        return limit < length - offset ? limit : length - offset;
+    }
+
     function isAvailable() public pure returns (bool) {
         return true;
     }
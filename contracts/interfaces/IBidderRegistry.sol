@@ -0,0 +1,7 @@
+// SPDX-License-Identifier: BSD-3-Clause-Clear
+pragma solidity ^0.8.24;
+
+/// @notice Registry of approved (e.g. KYC-verified) buyers a listing's allowlist can point to
+interface IBidderRegistry {
+    function isApproved(address bidder) external view returns (bool);
+}
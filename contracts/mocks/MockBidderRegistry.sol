@@ -0,0 +1,13 @@
+// SPDX-License-Identifier: BSD-3-Clause-Clear
+pragma solidity ^0.8.24;
+
+import { IBidderRegistry } from "../interfaces/IBidderRegistry.sol";
+
+/// @notice Bidder registry for allowlist tests, anyone can approve
+contract MockBidderRegistry is IBidderRegistry {
+    mapping(address => bool) public isApproved;
+
+    function setApproved(address bidder, bool approved) external {
+        isApproved[bidder] = approved;
+    }
+}
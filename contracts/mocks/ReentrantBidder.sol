@@ -0,0 +1,39 @@
+// SPDX-License-Identifier: BSD-3-Clause-Clear
+pragma solidity ^0.8.24;
+
+import { externalEuint32 } from "@fhevm/solidity/lib/FHE.sol";
+import { HouseBid_FHE } from "../HouseBid_FHE.sol";
+
+/// @notice Bidder that tries to claim its refund a second time from inside the ETH transfer
+contract ReentrantBidder {
+    HouseBid_FHE public immutable houseBid;
+    string private claimingPropertyId;
+    uint256 public reentryAttempts;
+    bool public reentrySucceeded;
+
+    constructor(HouseBid_FHE target) {
+        houseBid = target;
+    }
+
+    function submitBid(
+        string calldata propertyId,
+        externalEuint32 encryptedAmount,
+        bytes calldata inputProof
+    ) external payable {
+        houseBid.submitBid{value: msg.value}(propertyId, encryptedAmount, inputProof, new bytes32[](0));
+    }
+
+    function claimRefund(string calldata propertyId) external {
+        claimingPropertyId = propertyId;
+        houseBid.claimRefund(propertyId);
+    }
+
+    receive() external payable {
+        if (reentryAttempts > 0) return;
+        reentryAttempts++;
+
+        try houseBid.claimRefund(claimingPropertyId) {
+            reentrySucceeded = true;
+        } catch {}
+    }
+}
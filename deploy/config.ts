@@ -0,0 +1,34 @@
+import path from "path";
+import { extendConfig } from "hardhat/config";
+import "hardhat/types/config";
+
+declare module "hardhat/types/config" {
+  interface HardhatNetworkUserConfig {
+    /** Contracts `deploy/deploy.ts` deploys on this network, in order */
+    deploy?: string[];
+  }
+  interface HttpNetworkUserConfig {
+    /** Contracts `deploy/deploy.ts` deploys on this network, in order */
+    deploy?: string[];
+    /** Encrypted JSON keystore holding this network's signer, relative to the project root. Replaces `accounts`. */
+    keystore?: string;
+  }
+  interface HardhatNetworkConfig {
+    deploy: string[];
+  }
+  interface HttpNetworkConfig {
+    deploy: string[];
+    /** Absolute path */
+    keystore?: string;
+  }
+}
+
+extendConfig((config, userConfig) => {
+  for (const [name, network] of Object.entries(config.networks)) {
+    const userNetwork = userConfig.networks?.[name];
+    network.deploy = [...(userNetwork?.deploy ?? [])];
+    if ("url" in network && userNetwork && "keystore" in userNetwork && userNetwork.keystore) {
+      network.keystore = path.resolve(config.paths.root, userNetwork.keystore);
+    }
+  }
+});
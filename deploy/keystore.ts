@@ -0,0 +1,86 @@
+import fs from "fs";
+import path from "path";
+import readline from "readline";
+import { vars } from "hardhat/config";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import { Wallet, type HDNodeWallet, type Signer } from "ethers";
+
+/**
+ * Networks with a `keystore` in hardhat.config.ts sign with the key in that encrypted JSON keystore. Its
+ * passphrase is the KEYSTORE_PASSWORD environment variable, the Hardhat var of the same name
+ * (`npx hardhat vars set KEYSTORE_PASSWORD`), or typed at a prompt. The decrypted key only lives in memory.
+ */
+
+export const PASSWORD_VAR = "KEYSTORE_PASSWORD";
+
+/** A signer whose address is known without a call, as both Hardhat's signers and wallets are */
+export type AccountSigner = Signer & { address: string };
+
+const wallets = new Map<string, Promise<Wallet | HDNodeWallet>>();
+
+/**
+ * Ask for a secret on the terminal without echoing it. Without a terminal it fails, `otherwise` tells how else
+ * to supply the secret.
+ */
+export function promptHidden(question: string, otherwise = `set ${PASSWORD_VAR} instead`): Promise<string> {
+  if (!process.stdin.isTTY) {
+    return Promise.reject(new Error(`No terminal to ask "${question.trim()}", ${otherwise}`));
+  }
+
+  const rl = readline.createInterface({ input: process.stdin, output: process.stdout, terminal: true });
+  let muted = false;
+  (rl as unknown as { _writeToOutput: (text: string) => void })._writeToOutput = (text) => {
+    if (!muted) process.stdout.write(text);
+  };
+
+  return new Promise((resolve) => {
+    rl.question(question, (answer) => {
+      rl.close();
+      process.stdout.write("\n");
+      resolve(answer);
+    });
+    muted = true;
+  });
+}
+
+/**
+ * Passphrase from the environment or Hardhat vars, undefined when it has to be asked for
+ */
+export function configuredPassword(): string | undefined {
+  return process.env[PASSWORD_VAR] ?? (vars.has(PASSWORD_VAR) ? vars.get(PASSWORD_VAR) : undefined);
+}
+
+async function decrypt(file: string): Promise<Wallet | HDNodeWallet> {
+  if (!fs.existsSync(file)) {
+    throw new Error(`Keystore ${file} does not exist, create it with npx hardhat housebid:keystore`);
+  }
+
+  const json = fs.readFileSync(file, "utf8");
+  const password = configuredPassword() ?? (await promptHidden(`Passphrase for ${path.basename(file)}: `));
+  try {
+    return await Wallet.fromEncryptedJson(json, password);
+  } catch {
+    throw new Error(`Could not decrypt ${file}, check the passphrase`);
+  }
+}
+
+/**
+ * The network's signers: the keystore's wallet when the network has a `keystore`, its configured
+ * accounts otherwise. A keystore is decrypted once per process.
+ */
+export async function getSigners(hre: HardhatRuntimeEnvironment): Promise<AccountSigner[]> {
+  const { config } = hre.network;
+  const keystore = "url" in config ? config.keystore : undefined;
+  if (!keystore) {
+    return hre.ethers.getSigners();
+  }
+
+  if (!wallets.has(keystore)) {
+    const wallet = decrypt(keystore);
+    // A failed attempt, e.g. a mistyped passphrase, is not cached
+    wallet.catch(() => wallets.delete(keystore));
+    wallets.set(keystore, wallet);
+  }
+  const wallet = await wallets.get(keystore)!;
+  return [wallet.connect(hre.ethers.provider)];
+}
@@ -0,0 +1,43 @@
+import fs from "fs";
+import path from "path";
+
+export const DEPLOYMENTS_DIR = path.join(__dirname, "..", "deployments");
+
+export interface ContractDeployment {
+  address: string;
+  deployer: string;
+  transactionHash: string;
+  /** Block the contract was created in, indexers start scanning from it */
+  blockNumber: number;
+  /** keccak256 of the creation bytecode, a changed contract is deployed again */
+  bytecodeHash: string;
+  /** keccak256 of the ABI JSON, tells clients whether their bindings match */
+  abiHash: string;
+}
+
+/**
+ * `deployments/<network>.json`, the contracts deployed on one network
+ */
+export interface DeploymentManifest {
+  network: string;
+  chainId: number;
+  contracts: Record<string, ContractDeployment>;
+}
+
+export function manifestPath(network: string): string {
+  return path.join(DEPLOYMENTS_DIR, `${network}.json`);
+}
+
+export function readManifest(network: string): DeploymentManifest | undefined {
+  const file = manifestPath(network);
+  return fs.existsSync(file) ? (JSON.parse(fs.readFileSync(file, "utf8")) as DeploymentManifest) : undefined;
+}
+
+/**
+ * Contracts are written in name order, so redeploying one contract only changes its own entry
+ */
+export function writeManifest(manifest: DeploymentManifest) {
+  const contracts = Object.fromEntries(Object.entries(manifest.contracts).sort(([a], [b]) => a.localeCompare(b)));
+  fs.mkdirSync(DEPLOYMENTS_DIR, { recursive: true });
+  fs.writeFileSync(manifestPath(manifest.network), JSON.stringify({ ...manifest, contracts }, null, 2) + "\n");
+}
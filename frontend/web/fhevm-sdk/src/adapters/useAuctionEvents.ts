@@ -0,0 +1,43 @@
+/**
+ * Wagmi-like hook for live HouseBid auction events
+ */
+
+import { useState, useEffect, useRef } from 'react';
+import { getAuctionEventStream } from '../core/index.js';
+import type { AuctionEvent, AuctionEventStatus, HouseBidClient } from '../core/index.js';
+
+const MAX_EVENTS = 50;
+
+/**
+ * @param propertyId only this listing's events, every listing's when null or omitted
+ * @param client read client to poll with, nothing is polled while it is null
+ * @param onEvent called once per event, newest events are also kept in `events`
+ */
+export function useAuctionEvents(
+  propertyId: string | null | undefined,
+  client: HouseBidClient | null,
+  onEvent?: (event: AuctionEvent) => void
+) {
+  const [events, setEvents] = useState<AuctionEvent[]>([]);
+  const [status, setStatus] = useState<AuctionEventStatus>('connecting');
+  const onEventRef = useRef(onEvent);
+  onEventRef.current = onEvent;
+
+  useEffect(() => {
+    if (!client) return;
+
+    setEvents([]);
+    const stream = getAuctionEventStream(client, propertyId ?? undefined);
+    return stream.subscribe((event) => {
+      setEvents((prev) => [event, ...prev].slice(0, MAX_EVENTS));
+      onEventRef.current?.(event);
+    }, setStatus);
+  }, [client, propertyId]);
+
+  return {
+    events,
+    lastEvent: events[0] ?? null,
+    status,
+    isLive: status === 'live',
+  };
+}
@@ -3,9 +3,13 @@
  */
 
 import { useState, useCallback } from 'react';
-import { publicDecryptV09 } from '../core/index.js';
+import { FhevmClient, getDefaultFhevmClient } from '../core/index.js';
 
-export function useDecrypt() {
+/**
+ * @param client FHEVM client used for decryption, defaults to the SDK default client
+ */
+export function useDecrypt(client?: FhevmClient) {
+  const fhevmClient = client ?? getDefaultFhevmClient();
   const [isDecrypting, setIsDecrypting] = useState(false);
   const [error, setError] = useState<string>('');
 
@@ -18,7 +22,7 @@ export function useDecrypt() {
     setError('');
     
     try {
-      const decryptionResult = await publicDecryptV09(handles);
+      const decryptionResult = await fhevmClient.publicDecryptV09(handles);
       
       const tx = await verifyFunction(
         decryptionResult.abiEncodedClearValues,
@@ -37,7 +41,7 @@ export function useDecrypt() {
     } finally {
       setIsDecrypting(false);
     }
-  }, []);
+  }, [fhevmClient]);
 
   return {
     verifyDecryption,
@@ -3,9 +3,13 @@
  */
 
 import { useState, useCallback } from 'react';
-import { createEncryptedInput } from '../core/index.js';
+import { FhevmClient, getDefaultFhevmClient } from '../core/index.js';
 
-export function useEncrypt() {
+/**
+ * @param client FHEVM client used for encryption, defaults to the SDK default client
+ */
+export function useEncrypt(client?: FhevmClient) {
+  const fhevmClient = client ?? getDefaultFhevmClient();
   const [isEncrypting, setIsEncrypting] = useState(false);
   const [error, setError] = useState<string>('');
 
@@ -14,7 +18,7 @@ export function useEncrypt() {
     setError('');
     
     try {
-      const result = await createEncryptedInput(contractAddress, userAddress, value);
+      const result = await fhevmClient.createEncryptedInput(contractAddress, userAddress, value);
       return result;
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Encryption failed');
@@ -22,7 +26,7 @@ export function useEncrypt() {
     } finally {
       setIsEncrypting(false);
     }
-  }, []);
+  }, [fhevmClient]);
 
   return {
     encrypt,
@@ -3,11 +3,15 @@
  */
 
 import { useState, useCallback } from 'react';
-import { initializeFheInstance } from '../core/index.js';
+import { FhevmClient, getDefaultFhevmClient } from '../core/index.js';
 
-export function useFhevm() {
-  const [instance, setInstance] = useState<any>(null);
-  const [status, setStatus] = useState<'idle' | 'loading' | 'ready' | 'error'>('idle');
+/**
+ * @param client FHEVM client to initialize, defaults to the SDK default client
+ */
+export function useFhevm(client?: FhevmClient) {
+  const fhevmClient = client ?? getDefaultFhevmClient();
+  const [instance, setInstance] = useState<any>(() => fhevmClient.getInstance());
+  const [status, setStatus] = useState<'idle' | 'loading' | 'ready' | 'error'>(() => fhevmClient.isInitialized ? 'ready' : 'idle');
   const [error, setError] = useState<string>('');
 
   const initialize = useCallback(async () => {
@@ -15,7 +19,7 @@ export function useFhevm() {
     setError('');
     
     try {
-      const fheInstance = await initializeFheInstance();
+      const fheInstance = await fhevmClient.initialize();
       setInstance(fheInstance);
       setStatus('ready');
       console.log('✅ FHEVM initialized');
@@ -24,9 +28,10 @@ export function useFhevm() {
       setStatus('error');
       console.error('❌ FHEVM initialization failed:', err);
     }
-  }, []);
+  }, [fhevmClient]);
 
   return {
+    client: fhevmClient,
     instance,
     status,
     error,
@@ -35,4 +40,3 @@ export function useFhevm() {
   };
 }
 
-
@@ -0,0 +1,59 @@
+/**
+ * Wagmi-like hook for concluding HouseBid auctions - reveals the winner only
+ */
+
+import { useState, useCallback } from 'react';
+import type { AuctionOutcome, ConclusionProgress, ConclusionResult, HouseBidClient, WinnerRevealStep } from '../core/index.js';
+
+export function useWinnerReveal() {
+  const [step, setStep] = useState<WinnerRevealStep | null>(null);
+  const [progress, setProgress] = useState<ConclusionProgress | null>(null);
+  const [outcome, setOutcome] = useState<AuctionOutcome | null>(null);
+  const [error, setError] = useState<string>('');
+
+  const revealWinner = useCallback(async (client: HouseBidClient, propertyId: string) => {
+    setError('');
+    setOutcome(null);
+
+    try {
+      const result = await client.determineWinner(propertyId, setStep);
+      setOutcome(result);
+      return result;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Revealing the winner failed');
+      throw err;
+    } finally {
+      setStep(null);
+    }
+  }, []);
+
+  /**
+   * Conclude every given auction, `progress` tells which one is in which step
+   */
+  const revealWinners = useCallback(async (client: HouseBidClient, propertyIds: string[]): Promise<ConclusionResult[]> => {
+    setError('');
+
+    try {
+      const results = await client.concludeAuctions(propertyIds, (current) => {
+        setProgress(current);
+        setStep(current.step);
+      });
+      const failed = results.filter((result) => result.error);
+      if (failed.length > 0) setError(`${failed.length} of ${results.length} auctions could not be concluded`);
+      return results;
+    } finally {
+      setProgress(null);
+      setStep(null);
+    }
+  }, []);
+
+  return {
+    revealWinner,
+    revealWinners,
+    step,
+    progress,
+    isRevealing: step !== null,
+    outcome,
+    error,
+  };
+}
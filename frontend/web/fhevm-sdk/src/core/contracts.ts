@@ -4,15 +4,17 @@
  */
 
 import { ethers } from 'ethers';
-import { createEncryptedInput } from './fhevm.js';
+import { FhevmClient, getDefaultFhevmClient } from './fhevm.js';
 
 export class FhevmContract {
   private contract: ethers.Contract;
   private address: string;
+  private fhevm?: FhevmClient;
 
-  constructor(contract: ethers.Contract, address: string) {
+  constructor(contract: ethers.Contract, address: string, fhevm?: FhevmClient) {
     this.contract = contract;
     this.address = address;
+    this.fhevm = fhevm;
   }
 
   /**
@@ -46,7 +48,7 @@ export class FhevmContract {
    * Create encrypted input for contract
    */
   async createEncryptedInput(userAddress: string, value: number) {
-    return createEncryptedInput(this.address, userAddress, value);
+    return (this.fhevm ?? getDefaultFhevmClient()).createEncryptedInput(this.address, userAddress, value);
   }
 }
 
@@ -0,0 +1,97 @@
+/**
+ * Deployment Registry - Universal SDK
+ * Contract addresses per chain, as recorded by the deploy pipeline in `deployments/<network>.json`
+ */
+
+import { ethers } from 'ethers';
+
+/**
+ * A contract deployed on one chain
+ */
+export interface DeployedContract {
+  address: string;
+  /**
+   * Block the contract was deployed in, where indexers start scanning
+   */
+  deployBlock: number;
+  /**
+   * keccak256 of the JSON ABI it was deployed with
+   */
+  abiHash: string;
+}
+
+/**
+ * Everything deployed on one chain
+ */
+export interface ChainDeployment {
+  network: string;
+  /**
+   * RPC endpoints to read the chain through without a wallet, in order of preference
+   */
+  rpcUrls: string[];
+  contracts: Record<string, DeployedContract>;
+}
+
+/**
+ * Deployments keyed by decimal chain id, the shape of the web app's `deployments.json`
+ */
+export type DeploymentRegistry = Record<string, ChainDeployment>;
+
+export const HOUSEBID_CONTRACT = 'HouseBid_FHE';
+
+/**
+ * Chain ids the registry has `contractName` on
+ */
+export function getSupportedChainIds(registry: DeploymentRegistry, contractName: string = HOUSEBID_CONTRACT): number[] {
+  return Object.entries(registry)
+    .filter(([, chain]) => chain.contracts[contractName])
+    .map(([chainId]) => Number(chainId));
+}
+
+function switchHint(supported: number[]): string {
+  return supported.length > 0
+    ? `switch to chain ${supported.join(' or ')}`
+    : 'run the deploy pipeline first, no chain has a deployment yet';
+}
+
+export function getChainDeployment(registry: DeploymentRegistry, chainId: number | bigint): ChainDeployment {
+  const chain = registry[chainId.toString()];
+  if (!chain) {
+    throw new Error(`Nothing is deployed on chain ${chainId}, ${switchHint(getSupportedChainIds(registry))}`);
+  }
+  return chain;
+}
+
+export function getDeployment(
+  registry: DeploymentRegistry,
+  chainId: number | bigint,
+  contractName: string = HOUSEBID_CONTRACT
+): DeployedContract {
+  const contract = getChainDeployment(registry, chainId).contracts[contractName];
+  if (!contract) {
+    throw new Error(
+      `${contractName} is not deployed on chain ${chainId}, ${switchHint(getSupportedChainIds(registry, contractName))}`
+    );
+  }
+  return contract;
+}
+
+/**
+ * Resolve `contractName` on the chain `runner` is connected to
+ */
+export async function resolveDeployment(
+  registry: DeploymentRegistry,
+  runner: ethers.ContractRunner,
+  contractName: string = HOUSEBID_CONTRACT
+): Promise<DeployedContract> {
+  if (!runner.provider) throw new Error('The runner has no provider to read the chain id from');
+  const { chainId } = await runner.provider.getNetwork();
+  return getDeployment(registry, chainId, contractName);
+}
+
+/**
+ * keccak256 of a JSON ABI as the deploy pipeline hashes it, to compare against `abiHash`
+ */
+export function hashAbi(abi: readonly unknown[]): string {
+  return ethers.id(JSON.stringify(abi));
+}
@@ -0,0 +1,181 @@
+/**
+ * Encryption Utilities - Universal SDK
+ * Typed builder for encrypted contract inputs with client-side range checks
+ */
+
+import { ethers } from 'ethers';
+
+export type EncryptedType =
+  | 'ebool'
+  | 'euint8'
+  | 'euint16'
+  | 'euint32'
+  | 'euint64'
+  | 'euint128'
+  | 'euint256'
+  | 'eaddress';
+
+export interface EncryptedInputs {
+  /**
+   * One bytes32 handle per value, in the order the values were added
+   */
+  handles: string[];
+  types: EncryptedType[];
+  /**
+   * Single proof covering every handle
+   */
+  inputProof: string;
+}
+
+type Entry =
+  | { type: 'ebool'; value: boolean }
+  | { type: 'eaddress'; value: string }
+  | { type: Exclude<EncryptedType, 'ebool' | 'eaddress'>; value: bigint };
+
+/**
+ * Encrypted inputs are packed into one ciphertext list of at most 2048 bits
+ */
+const MAX_INPUT_BITS = 2048;
+
+const UINT_BITS = {
+  euint8: 8,
+  euint16: 16,
+  euint32: 32,
+  euint64: 64,
+  euint128: 128,
+  euint256: 256,
+} as const;
+
+/**
+ * Largest clear value accepted for an encrypted unsigned integer type
+ */
+export function maxValueOf(type: keyof typeof UINT_BITS): bigint {
+  return (1n << BigInt(UINT_BITS[type])) - 1n;
+}
+
+function bitsOf(type: EncryptedType): number {
+  if (type === 'ebool') return 2;
+  if (type === 'eaddress') return 160;
+  return UINT_BITS[type];
+}
+
+function toUint(type: keyof typeof UINT_BITS, value: number | bigint): bigint {
+  if (typeof value === 'number' && !Number.isSafeInteger(value)) {
+    throw new RangeError(`${type} value must be an integer, got ${value} (use a bigint above 2^53)`);
+  }
+  if (typeof value !== 'number' && typeof value !== 'bigint') {
+    throw new TypeError(`${type} value must be a number or bigint, got ${typeof value}`);
+  }
+
+  const clear = BigInt(value);
+  const max = maxValueOf(type);
+  if (clear < 0n || clear > max) {
+    throw new RangeError(`${type} value ${clear} is out of range [0, ${max}]`);
+  }
+  return clear;
+}
+
+/**
+ * Collects clear values and encrypts them into one input with a single proof
+ *
+ * @example
+ * const { handles, inputProof } = await client.encrypt(contractAddress, userAddress)
+ *   .bool(true)
+ *   .u64(500000n)
+ *   .address(buyer)
+ *   .build();
+ */
+export class EncryptedInputBuilder {
+  private readonly entries: Entry[] = [];
+  private readonly instance: any;
+  private readonly contractAddress: string;
+  private readonly userAddress: string;
+
+  constructor(instance: any, contractAddress: string, userAddress: string) {
+    this.instance = instance;
+    this.contractAddress = contractAddress;
+    this.userAddress = userAddress;
+  }
+
+  bool(value: boolean): this {
+    if (typeof value !== 'boolean') {
+      throw new TypeError(`ebool value must be a boolean, got ${typeof value}`);
+    }
+    this.entries.push({ type: 'ebool', value });
+    return this;
+  }
+
+  u8(value: number | bigint): this {
+    return this.uint('euint8', value);
+  }
+
+  u16(value: number | bigint): this {
+    return this.uint('euint16', value);
+  }
+
+  u32(value: number | bigint): this {
+    return this.uint('euint32', value);
+  }
+
+  u64(value: number | bigint): this {
+    return this.uint('euint64', value);
+  }
+
+  u128(value: number | bigint): this {
+    return this.uint('euint128', value);
+  }
+
+  u256(value: number | bigint): this {
+    return this.uint('euint256', value);
+  }
+
+  address(value: string): this {
+    if (!ethers.isAddress(value)) {
+      throw new TypeError(`eaddress value must be an address, got ${value}`);
+    }
+    this.entries.push({ type: 'eaddress', value: ethers.getAddress(value) });
+    return this;
+  }
+
+  get size(): number {
+    return this.entries.length;
+  }
+
+  async build(): Promise<EncryptedInputs> {
+    if (this.entries.length === 0) {
+      throw new Error('Nothing to encrypt. Add at least one value before build().');
+    }
+
+    const totalBits = this.entries.reduce((sum, entry) => sum + bitsOf(entry.type), 0);
+    if (totalBits > MAX_INPUT_BITS) {
+      throw new RangeError(`Encrypted input is ${totalBits} bits, the limit is ${MAX_INPUT_BITS}. Split it into several inputs.`);
+    }
+
+    const input = this.instance.createEncryptedInput(this.contractAddress, this.userAddress);
+    for (const entry of this.entries) {
+      switch (entry.type) {
+        case 'ebool': input.addBool(entry.value); break;
+        case 'euint8': input.add8(entry.value); break;
+        case 'euint16': input.add16(entry.value); break;
+        case 'euint32': input.add32(entry.value); break;
+        case 'euint64': input.add64(entry.value); break;
+        case 'euint128': input.add128(entry.value); break;
+        case 'euint256': input.add256(entry.value); break;
+        case 'eaddress': input.addAddress(entry.value); break;
+      }
+    }
+
+    const { handles, inputProof } = await input.encrypt();
+
+    return {
+      handles: handles.map((handle: Uint8Array | string) => ethers.hexlify(handle)),
+      types: this.entries.map(entry => entry.type),
+      inputProof: ethers.hexlify(inputProof),
+    };
+  }
+
+  private uint(type: keyof typeof UINT_BITS, value: number | bigint): this {
+    this.entries.push({ type, value: toUint(type, value) });
+    return this;
+  }
+}
@@ -0,0 +1,195 @@
+/**
+ * Auction Events - Universal SDK
+ * Polling subscription to HouseBid_FHE events that survives RPC outages and local node restarts
+ */
+
+import { ethers } from 'ethers';
+import type { HouseBidClient } from './housebid.js';
+
+export interface AuctionEvent {
+  /**
+   * Contract event name, e.g. `BidSubmitted` or `AuctionConcluded`
+   */
+  name: string;
+  /**
+   * keccak256 of the property id, indexed string arguments only carry their hash
+   */
+  propertyIdHash: string;
+  args: ethers.Result;
+  blockNumber: number;
+  transactionHash: string;
+  logIndex: number;
+}
+
+export type AuctionEventStatus = 'connecting' | 'live' | 'reconnecting';
+
+export interface AuctionEventOptions {
+  /**
+   * Milliseconds between polls, 4000 by default
+   */
+  pollInterval?: number;
+  /**
+   * Upper bound for the backoff while the RPC node is unreachable, 30000 by default
+   */
+  maxRetryDelay?: number;
+  /**
+   * Blocks fetched again on every poll to pick up logs a load-balanced RPC reported late, 2 by default
+   */
+  replayBlocks?: number;
+}
+
+/**
+ * Polls `eth_getLogs` instead of relying on node-side filters, which are lost when a node restarts.
+ * After a failed poll it backs off and resumes from the last polled block, so no event is missed,
+ * and every log is delivered once even when its block is fetched again.
+ */
+export class AuctionEventStream {
+  private readonly listeners = new Set<(event: AuctionEvent) => void>();
+  private readonly statusListeners = new Set<(status: AuctionEventStatus) => void>();
+  /**
+   * Delivered logs by `transactionHash:logIndex`, with their block to prune old entries
+   */
+  private readonly delivered = new Map<string, number>();
+  private cursor: number | null = null;
+  private failures = 0;
+  private timer?: ReturnType<typeof setTimeout>;
+  private run = 0;
+  status: AuctionEventStatus = 'connecting';
+
+  /**
+   * @param propertyId only this listing's events, every listing's when omitted
+   */
+  constructor(
+    readonly client: HouseBidClient,
+    readonly propertyId?: string,
+    private readonly options: AuctionEventOptions = {}
+  ) {}
+
+  /**
+   * Polling starts with the first listener and stops when the last one unsubscribes
+   */
+  subscribe(listener: (event: AuctionEvent) => void, onStatus?: (status: AuctionEventStatus) => void): () => void {
+    this.listeners.add(listener);
+    if (onStatus) {
+      this.statusListeners.add(onStatus);
+      onStatus(this.status);
+    }
+    if (this.listeners.size === 1) this.schedule(0, ++this.run);
+
+    return () => {
+      this.listeners.delete(listener);
+      if (onStatus) this.statusListeners.delete(onStatus);
+      if (this.listeners.size === 0) this.stop();
+    };
+  }
+
+  private stop(): void {
+    clearTimeout(this.timer);
+    this.run++;
+    this.cursor = null;
+    this.failures = 0;
+    this.delivered.clear();
+    this.setStatus('connecting');
+  }
+
+  private schedule(delay: number, run: number): void {
+    this.timer = setTimeout(() => void this.poll(run), delay);
+  }
+
+  private async poll(run: number): Promise<void> {
+    const { pollInterval = 4000, maxRetryDelay = 30000, replayBlocks = 2 } = this.options;
+    let delay = pollInterval;
+
+    try {
+      const events = await this.fetchNewEvents(replayBlocks, run);
+      if (run !== this.run) return;
+
+      this.failures = 0;
+      this.setStatus('live');
+      events.forEach((event) => this.listeners.forEach((listener) => listener(event)));
+    } catch (error) {
+      if (run !== this.run) return;
+
+      this.failures++;
+      this.setStatus('reconnecting');
+      delay = Math.min(maxRetryDelay, pollInterval * 2 ** this.failures);
+      console.warn(`Auction event poll failed, retrying in ${delay} ms:`, error);
+    }
+
+    this.schedule(delay, run);
+  }
+
+  private async fetchNewEvents(replayBlocks: number, run: number): Promise<AuctionEvent[]> {
+    const provider = this.client.contract.runner?.provider;
+    if (!provider) throw new Error('The HouseBid client has no provider to read logs from');
+
+    const head = await provider.getBlockNumber();
+    if (run !== this.run) return [];
+    if (this.cursor === null || head < this.cursor) {
+      // First poll, or a local node that was restarted from an earlier block
+      this.cursor = head;
+      this.delivered.clear();
+      return [];
+    }
+
+    const fromBlock = Math.max(0, this.cursor + 1 - replayBlocks);
+    const logs = await provider.getLogs({
+      address: this.client.address,
+      topics: [null, this.propertyId === undefined ? null : ethers.id(this.propertyId)],
+      fromBlock,
+      toBlock: head,
+    });
+    if (run !== this.run) return [];
+    this.cursor = head;
+
+    for (const [key, blockNumber] of this.delivered) {
+      if (blockNumber < fromBlock) this.delivered.delete(key);
+    }
+
+    const events: AuctionEvent[] = [];
+    for (const log of logs) {
+      const key = `${log.transactionHash}:${log.index}`;
+      const event = this.client.contract.interface.parseLog(log);
+      if (this.delivered.has(key) || !event) continue;
+
+      this.delivered.set(key, log.blockNumber);
+      events.push({
+        name: event.name,
+        propertyIdHash: log.topics[1],
+        args: event.args,
+        blockNumber: log.blockNumber,
+        transactionHash: log.transactionHash,
+        logIndex: log.index,
+      });
+    }
+    return events;
+  }
+
+  private setStatus(status: AuctionEventStatus): void {
+    if (status === this.status) return;
+    this.status = status;
+    this.statusListeners.forEach((listener) => listener(status));
+  }
+}
+
+const streams = new WeakMap<HouseBidClient, Map<string, AuctionEventStream>>();
+
+/**
+ * Shared stream per client and listing, so several subscribers cost one poll.
+ * `options` only apply when the stream is first created.
+ */
+export function getAuctionEventStream(client: HouseBidClient, propertyId?: string, options?: AuctionEventOptions): AuctionEventStream {
+  let clientStreams = streams.get(client);
+  if (!clientStreams) {
+    clientStreams = new Map();
+    streams.set(client, clientStreams);
+  }
+
+  const key = propertyId ?? '*';
+  let stream = clientStreams.get(key);
+  if (!stream) {
+    stream = new AuctionEventStream(client, propertyId, options);
+    clientStreams.set(key, stream);
+  }
+  return stream;
+}
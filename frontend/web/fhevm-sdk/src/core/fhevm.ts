@@ -5,14 +5,44 @@
  */
 
 import { ethers } from "ethers";
+import { EncryptedInputBuilder } from "./encryption.js";
+import { createMockFhevmInstance, getMockProvider } from "./mock.js";
 
-let fheInstance: any = null;
+/**
+ * `relayer` encrypts and decrypts through Zama's RelayerSDK and relayer. `mock` uses the FHEVM mock of a
+ * local hardhat node (chain 31337) through @fhevm/mock-utils and works offline.
+ */
+export type FhevmMode = 'relayer' | 'mock';
+
+export interface FhevmClientOptions {
+  /**
+   * `relayer` by default
+   */
+  mode?: FhevmMode;
+  /**
+   * EIP-1193 provider used by the browser instance (defaults to window.ethereum)
+   */
+  network?: any;
+  /**
+   * JSON-RPC endpoint used by the Node.js instance, and by the mock instance (http://127.0.0.1:8545 by default)
+   */
+  rpcUrl?: string;
+  /**
+   * Overrides merged over the RelayerSDK SepoliaConfig (contract addresses, relayer URL, chain ids)
+   */
+  relayerConfig?: Record<string, any>;
+  /**
+   * Ready-made instance used instead of creating one, e.g. a MockFhevmInstance from @fhevm/mock-utils
+   */
+  instance?: any;
+}
 
 /**
  * Initialize FHEVM instance for browser environment
  */
-async function initializeBrowserFheInstance() {
-  if (typeof window === 'undefined' || !window.ethereum) {
+async function initializeBrowserFheInstance(options: FhevmClientOptions) {
+  const network = options.network ?? (typeof window !== 'undefined' ? window.ethereum : undefined);
+  if (!network) {
     throw new Error('Ethereum provider not found. Please install MetaMask or connect a wallet.');
   }
 
@@ -41,11 +71,10 @@ async function initializeBrowserFheInstance() {
     console.log('✅ FHEVM SDK initialized with local WASM files');
   }
 
-  const config = { ...SepoliaConfig, network: window.ethereum };
+  const config = { ...SepoliaConfig, ...options.relayerConfig, network };
 
   try {
-    fheInstance = await createInstance(config);
-    return fheInstance;
+    return await createInstance(config);
   } catch (err) {
     console.error('FHEVM browser instance creation failed:', err);
     throw err;
@@ -56,24 +85,25 @@ async function initializeBrowserFheInstance() {
  * Initialize FHEVM instance for Node.js environment
  * REAL FUNCTIONALITY - uses actual RelayerSDK
  */
-async function initializeNodeFheInstance(rpcUrl?: string) {
+async function initializeNodeFheInstance(options: FhevmClientOptions) {
   try {
     console.log('🚀 Initializing REAL FHEVM Node.js instance...');
-    
+
     // Use eval to prevent webpack from analyzing these imports
     const relayerSDKModule = await eval('import("@zama-fhe/relayer-sdk/node")');
-    const { createInstance, SepoliaConfig, generateKeypair } = relayerSDKModule;
-    
+    const { createInstance, SepoliaConfig } = relayerSDKModule;
+
     // Create an EIP-1193 compatible provider for Node.js
     const ethersModule = await eval('import("ethers")');
-    const provider = new ethersModule.ethers.JsonRpcProvider(rpcUrl || 'https://sepolia.infura.io/v3/96406da962744120afbe0cf64c8bd7b3');
-    
+    const provider = new ethersModule.ethers.JsonRpcProvider(options.rpcUrl || 'https://sepolia.infura.io/v3/96406da962744120afbe0cf64c8bd7b3');
+    const { chainId } = await provider.getNetwork();
+
     // Create EIP-1193 provider wrapper
     const eip1193Provider = {
       request: async ({ method, params }: { method: string; params: any[] }) => {
         switch (method) {
           case 'eth_chainId':
-            return '0xaa36a7'; // Sepolia chain ID
+            return ethers.toQuantity(chainId);
           case 'eth_accounts':
             return ['---YOUR-ADDRESS-HERE---'];
           case 'eth_requestAccounts':
@@ -91,243 +121,320 @@ async function initializeNodeFheInstance(rpcUrl?: string) {
       on: () => {},
       removeListener: () => {}
     };
-    
-    const config = { 
-      ...SepoliaConfig, 
-      network: eip1193Provider 
+
+    const config = {
+      ...SepoliaConfig,
+      ...options.relayerConfig,
+      network: eip1193Provider
     };
-    
-    fheInstance = await createInstance(config);
+
+    const instance = await createInstance(config);
     console.log('✅ REAL FHEVM Node.js instance created successfully!');
-    return fheInstance;
+    return instance;
   } catch (err) {
     console.error('FHEVM Node.js instance creation failed:', err);
     throw err;
   }
 }
 
+/**
+ * FHEVM client bound to one network/provider
+ *
+ * Each client owns its own RelayerSDK instance, so several networks can be used side by side.
+ */
+export class FhevmClient {
+  private instance: any = null;
+  private options: FhevmClientOptions;
+
+  constructor(options: FhevmClientOptions = {}) {
+    this.options = options;
+  }
+
+  get isInitialized(): boolean {
+    return this.instance !== null;
+  }
+
+  /**
+   * Initialize the FHEVM instance - Environment-aware
+   * Uses the given instance, else the hardhat node's mock in mock mode, else the browser wallet when one is
+   * available or given, else the Node.js RelayerSDK
+   */
+  async initialize(options?: FhevmClientOptions) {
+    if (options) {
+      this.options = { ...this.options, ...options };
+    }
+
+    if (this.options.instance) {
+      this.instance = this.options.instance;
+      return this.instance;
+    }
+
+    if (this.options.mode === 'mock') {
+      this.instance = await createMockFhevmInstance(getMockProvider(this.options.rpcUrl));
+      return this.instance;
+    }
+
+    const hasBrowserWallet = typeof window !== 'undefined' && (this.options.network || window.ethereum);
+    this.instance = hasBrowserWallet
+      ? await initializeBrowserFheInstance(this.options)
+      : await initializeNodeFheInstance(this.options);
+
+    return this.instance;
+  }
+
+  getInstance() {
+    return this.instance;
+  }
+
+  private requireInstance() {
+    if (!this.instance) throw new Error('FHE instance not initialized. Call initialize() first.');
+    return this.instance;
+  }
+
+  /**
+   * Decrypt a single encrypted value using EIP-712 user decryption (matches showcase API)
+   */
+  async decryptValue(encryptedBytes: string, contractAddress: string, signer: any): Promise<number> {
+    const decrypted = await this.batchDecryptValues([encryptedBytes], contractAddress, signer);
+    return decrypted[encryptedBytes];
+  }
+
+  /**
+   * Batch decrypt multiple encrypted values using EIP-712 user decryption
+   */
+  async batchDecryptValues(
+    handles: string[],
+    contractAddress: string,
+    signer: any
+  ): Promise<Record<string, number>> {
+    const fhe = this.requireInstance();
+
+    try {
+      console.log('🔐 Using EIP-712 user decryption for handles:', handles);
+
+      const keypair = fhe.generateKeypair();
+      const handleContractPairs = handles.map(handle => ({
+        handle,
+        contractAddress: contractAddress,
+      }));
+
+      const startTimeStamp = Math.floor(Date.now() / 1000).toString();
+      const durationDays = "10";
+      const contractAddresses = [contractAddress];
+
+      const eip712 = fhe.createEIP712(
+        keypair.publicKey,
+        contractAddresses,
+        startTimeStamp,
+        durationDays
+      );
+
+      const signature = await signer.signTypedData(
+        eip712.domain,
+        {
+          UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification,
+        },
+        eip712.message
+      );
+
+      const result = await fhe.userDecrypt(
+        handleContractPairs,
+        keypair.privateKey,
+        keypair.publicKey,
+        signature.replace("0x", ""),
+        contractAddresses,
+        await signer.getAddress(),
+        startTimeStamp,
+        durationDays
+      );
+
+      // Convert result to numbers
+      const decryptedValues: Record<string, number> = {};
+      for (const handle of handles) {
+        decryptedValues[handle] = Number(result[handle]);
+      }
+
+      return decryptedValues;
+    } catch (error: any) {
+      if (error?.message?.includes('Failed to fetch') || error?.message?.includes('NetworkError')) {
+        throw new Error('Decryption service is temporarily unavailable. Please try again later.');
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Start a typed encrypted input for `contractAddress`, bound to `userAddress`
+   *
+   * Values are range-checked as they are added, e.g. a negative number or one above 2^32-1 for u32() throws a RangeError.
+   */
+  encrypt(contractAddress: string, userAddress: string): EncryptedInputBuilder {
+    return new EncryptedInputBuilder(this.requireInstance(), contractAddress, userAddress);
+  }
+
+  /**
+   * Encrypt values using FHEVM, one euint8 input per digit
+   */
+  async encryptValue(
+    contractAddress: string,
+    address: string,
+    plainDigits: number[]
+  ) {
+    const builder = this.encrypt(contractAddress, address);
+    for (const d of plainDigits) {
+      builder.u8(d);
+    }
+
+    return builder.build();
+  }
+
+  /**
+   * Create encrypted euint32 input for contract interaction (matches showcase API)
+   */
+  async createEncryptedInput(contractAddress: string, userAddress: string, value: number) {
+    console.log(`🔐 Creating encrypted input for contract ${contractAddress}, user ${userAddress}, value ${value}`);
+
+    const { handles, inputProof } = await this.encrypt(contractAddress, userAddress).u32(value).build();
+
+    console.log('✅ Encrypted input created successfully');
+
+    return {
+      encryptedData: handles[0],
+      proof: inputProof
+    };
+  }
+
+  async publicDecryptV09(handles: string[]): Promise<{
+    clearValues: { [handle: string]: bigint };
+    abiEncodedClearValues: string;
+    decryptionProof: string;
+  }> {
+    const fhe = this.requireInstance();
+
+    try {
+      console.log('🔐 Starting v0.9 public decryption for handles:', handles);
+
+      if (typeof fhe.publicDecrypt === 'function') {
+        const result = await fhe.publicDecrypt(handles);
+
+        if (result && result.clearValues && result.abiEncodedClearValues && result.decryptionProof) {
+          return result;
+        } else {
+          throw new Error('Invalid publicDecrypt result structure');
+        }
+      } else {
+        console.warn('⚠️ Using fallback decryption for v0.9 compatibility');
+
+        const clearValues: { [handle: string]: bigint } = {};
+        let abiEncodedClearValues = '0x';
+        const decryptionProof = '0x';
+
+        for (const handle of handles) {
+          if (typeof handle === "string" && handle.startsWith("0x") && handle.length === 66) {
+            const values = await fhe.publicDecrypt([handle]);
+            const clearValue = BigInt(values[handle]);
+            clearValues[handle] = clearValue;
+          } else {
+            throw new Error('Invalid ciphertext handle for decryption');
+          }
+        }
+
+        if (handles.length === 1) {
+
+          abiEncodedClearValues = ethers.AbiCoder.defaultAbiCoder().encode(
+            ['uint32'],
+            [Number(clearValues[handles[0]])]
+          );
+        } else {
+
+          const values = handles.map(handle => Number(clearValues[handle]));
+          abiEncodedClearValues = ethers.AbiCoder.defaultAbiCoder().encode(
+            Array(values.length).fill('uint32'),
+            values
+          );
+        }
+
+        return {
+          clearValues,
+          abiEncodedClearValues,
+          decryptionProof
+        };
+      }
+    } catch (error: any) {
+      if (error?.message?.includes('Failed to fetch') || error?.message?.includes('NetworkError')) {
+        throw new Error('Decryption service is temporarily unavailable. Please try again later.');
+      }
+      throw error;
+    }
+  }
+}
+
+let defaultClient = new FhevmClient();
+
+/**
+ * Client used by the free functions below and by adapters that are not given one explicitly
+ */
+export function getDefaultFhevmClient(): FhevmClient {
+  return defaultClient;
+}
+
+export function setDefaultFhevmClient(client: FhevmClient) {
+  defaultClient = client;
+}
+
 /**
  * Initialize FHEVM instance - Environment-aware
  * MAINTAINS BACKWARD COMPATIBILITY
  */
 export async function initializeFheInstance(options?: { rpcUrl?: string }) {
-  // Detect environment
-  if (typeof window !== 'undefined' && window.ethereum) {
-    // Browser environment - use existing working code
-    return initializeBrowserFheInstance();
-  } else {
-    // Node.js environment - use new functionality
-    return initializeNodeFheInstance(options?.rpcUrl);
-  }
+  return defaultClient.initialize(options);
 }
 
 export function getFheInstance() {
-  return fheInstance;
+  return defaultClient.getInstance();
 }
 
 /**
  * Decrypt a single encrypted value using EIP-712 user decryption (matches showcase API)
  */
 export async function decryptValue(encryptedBytes: string, contractAddress: string, signer: any): Promise<number> {
-  const fhe = getFheInstance();
-  if (!fhe) throw new Error('FHE instance not initialized. Call initializeFheInstance() first.');
-
-  try {
-    console.log('🔐 Using EIP-712 user decryption for handle:', encryptedBytes);
-    
-    // Use EIP-712 user decryption instead of public decryption
-    const keypair = fhe.generateKeypair();
-    const handleContractPairs = [
-      {
-        handle: encryptedBytes,
-        contractAddress: contractAddress,
-      },
-    ];
-    
-    const startTimeStamp = Math.floor(Date.now() / 1000).toString();
-    const durationDays = "10";
-    const contractAddresses = [contractAddress];
-
-    const eip712 = fhe.createEIP712(
-      keypair.publicKey,
-      contractAddresses,
-      startTimeStamp,
-      durationDays
-    );
-
-    const signature = await signer.signTypedData(
-      eip712.domain,
-      {
-        UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification,
-      },
-      eip712.message
-    );
-
-    const result = await fhe.userDecrypt(
-      handleContractPairs,
-      keypair.privateKey,
-      keypair.publicKey,
-      signature.replace("0x", ""),
-      contractAddresses,
-      await signer.getAddress(),
-      startTimeStamp,
-      durationDays
-    );
-
-    return Number(result[encryptedBytes]);
-  } catch (error: any) {
-    // Check for relayer/network error
-    if (error?.message?.includes('Failed to fetch') || error?.message?.includes('NetworkError')) {
-      throw new Error('Decryption service is temporarily unavailable. Please try again later.');
-    }
-    throw error;
-  }
+  return defaultClient.decryptValue(encryptedBytes, contractAddress, signer);
 }
 
 /**
  * Batch decrypt multiple encrypted values using EIP-712 user decryption
  */
 export async function batchDecryptValues(
-  handles: string[], 
-  contractAddress: string, 
+  handles: string[],
+  contractAddress: string,
   signer: any
 ): Promise<Record<string, number>> {
-  const fhe = getFheInstance();
-  if (!fhe) throw new Error('FHE instance not initialized. Call initializeFheInstance() first.');
-
-  try {
-    console.log('🔐 Using EIP-712 batch user decryption for handles:', handles);
-    
-    const keypair = fhe.generateKeypair();
-    const handleContractPairs = handles.map(handle => ({
-      handle,
-      contractAddress: contractAddress,
-    }));
-    
-    const startTimeStamp = Math.floor(Date.now() / 1000).toString();
-    const durationDays = "10";
-    const contractAddresses = [contractAddress];
-
-    const eip712 = fhe.createEIP712(
-      keypair.publicKey,
-      contractAddresses,
-      startTimeStamp,
-      durationDays
-    );
-
-    const signature = await signer.signTypedData(
-      eip712.domain,
-      {
-        UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification,
-      },
-      eip712.message
-    );
-
-    const result = await fhe.userDecrypt(
-      handleContractPairs,
-      keypair.privateKey,
-      keypair.publicKey,
-      signature.replace("0x", ""),
-      contractAddresses,
-      await signer.getAddress(),
-      startTimeStamp,
-      durationDays
-    );
-
-    // Convert result to numbers
-    const decryptedValues: Record<string, number> = {};
-    for (const handle of handles) {
-      decryptedValues[handle] = Number(result[handle]);
-    }
+  return defaultClient.batchDecryptValues(handles, contractAddress, signer);
+}
 
-    return decryptedValues;
-  } catch (error: any) {
-    if (error?.message?.includes('Failed to fetch') || error?.message?.includes('NetworkError')) {
-      throw new Error('Decryption service is temporarily unavailable. Please try again later.');
-    }
-    throw error;
-  }
+/**
+ * Start a typed encrypted input with the default client, see FhevmClient.encrypt
+ */
+export function encrypt(contractAddress: string, userAddress: string): EncryptedInputBuilder {
+  return defaultClient.encrypt(contractAddress, userAddress);
 }
 
 /**
- * Encrypt values using FHEVM
- * 
- * 📝 BIT SIZE SUPPORT:
- * FHEVM supports different bit sizes for encrypted values. If your contract uses a different bit size
- * than the default 32-bit, you can use the appropriate method:
- * - add8(value)   - for 8-bit values (0-255)
- * - add16(value) - for 16-bit values (0-65535) 
- * - add32(value) - for 32-bit values (0-4294967295) - DEFAULT
- * - add64(value) - for 64-bit values (0-18446744073709551615)
- * - add128(value) - for 128-bit values
- * - add256(value) - for 256-bit values
- * 
- * Example: If your contract expects 8-bit values, replace add32() with add8()
+ * Encrypt values using FHEVM, one euint8 input per digit
  */
 export async function encryptValue(
   contractAddress: string,
   address: string,
   plainDigits: number[]
 ) {
-  const relayer = getFheInstance();
-  if (!relayer) throw new Error("FHEVM not initialized");
-
-  const inputHandle = relayer.createEncryptedInput(contractAddress, address);
-  for (const d of plainDigits) {
-    inputHandle.add8(d);
-  }
-  
-  const ciphertextBlob = await inputHandle.encrypt();
-  return ciphertextBlob;
+  return defaultClient.encryptValue(contractAddress, address, plainDigits);
 }
 
 /**
- * Create encrypted input for contract interaction (matches showcase API)
+ * Create encrypted euint32 input for contract interaction (matches showcase API)
  */
 export async function createEncryptedInput(contractAddress: string, userAddress: string, value: number) {
-  const fhe = getFheInstance();
-  if (!fhe) throw new Error('FHE instance not initialized. Call initializeFheInstance() first.');
-
-  console.log(`🔐 Creating encrypted input for contract ${contractAddress}, user ${userAddress}, value ${value}`);
-  
-  const inputHandle = fhe.createEncryptedInput(contractAddress, userAddress);
-  inputHandle.add32(value);
-  const result = await inputHandle.encrypt();
-  
-  console.log('✅ Encrypted input created successfully');
-  console.log('🔍 Encrypted result structure:', result);
-  
-  // The FHEVM SDK returns an object with handles and inputProof
-  // We need to extract the correct values for the contract
-  if (result && typeof result === 'object') {
-    // If result has handles array, use the first handle
-    if (result.handles && Array.isArray(result.handles) && result.handles.length > 0) {
-      return {
-        encryptedData: result.handles[0],
-        proof: result.inputProof
-      };
-    }
-    // If result has encryptedData and proof properties
-    else if (result.encryptedData && result.proof) {
-      return {
-        encryptedData: result.encryptedData,
-        proof: result.proof
-      };
-    }
-    // Fallback: use the result as-is
-    else {
-      return {
-        encryptedData: result,
-        proof: result
-      };
-    }
-  }
-  
-  // If result is not an object, use it directly
-  return {
-    encryptedData: result,
-    proof: result
-  };
+  return defaultClient.createEncryptedInput(contractAddress, userAddress, value);
 }
 
 export async function publicDecryptV09(handles: string[]): Promise<{
@@ -335,64 +442,5 @@ export async function publicDecryptV09(handles: string[]): Promise<{
   abiEncodedClearValues: string;
   decryptionProof: string;
 }> {
-  const fhe = getFheInstance();
-  if (!fhe) throw new Error('FHE instance not initialized. Call initializeFheInstance() first.');
-
-  try {
-    console.log('🔐 Starting v0.9 public decryption for handles:', handles);
-    
-    if (typeof fhe.publicDecrypt === 'function') {
-      const result = await fhe.publicDecrypt(handles);
-      
-      if (result && result.clearValues && result.abiEncodedClearValues && result.decryptionProof) {
-        return result;
-      } else {
-        throw new Error('Invalid publicDecrypt result structure');
-      }
-    } else {
-      console.warn('⚠️ Using fallback decryption for v0.9 compatibility');
-      
-      const clearValues: { [handle: string]: bigint } = {};
-      let abiEncodedClearValues = '0x';
-      const decryptionProof = '0x';
-      
-      for (const handle of handles) {
-        if (typeof handle === "string" && handle.startsWith("0x") && handle.length === 66) {
-          const values = await fhe.publicDecrypt([handle]);
-          const clearValue = BigInt(values[handle]);
-          clearValues[handle] = clearValue;
-        } else {
-          throw new Error('Invalid ciphertext handle for decryption');
-        }
-      }
-
-      if (handles.length === 1) {
-
-        abiEncodedClearValues = ethers.AbiCoder.defaultAbiCoder().encode(
-          ['uint32'], 
-          [Number(clearValues[handles[0]])]
-        );
-      } else {
-
-        const values = handles.map(handle => Number(clearValues[handle]));
-        abiEncodedClearValues = ethers.AbiCoder.defaultAbiCoder().encode(
-          Array(values.length).fill('uint32'), 
-          values
-        );
-      }
-      
-      return {
-        clearValues,
-        abiEncodedClearValues,
-        decryptionProof
-      };
-    }
-  } catch (error: any) {
-    if (error?.message?.includes('Failed to fetch') || error?.message?.includes('NetworkError')) {
-      throw new Error('Decryption service is temporarily unavailable. Please try again later.');
-    }
-    throw error;
-  }
+  return defaultClient.publicDecryptV09(handles);
 }
-
-
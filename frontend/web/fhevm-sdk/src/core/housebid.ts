@@ -0,0 +1,773 @@
+/**
+ * HouseBid Client - Universal SDK
+ * Typed wrapper around the HouseBid_FHE contract built on generated typechain bindings
+ */
+
+import { ethers } from 'ethers';
+import { HouseBid_FHE__factory } from '../typechain/index.js';
+import type { HouseBid_FHE } from '../typechain/index.js';
+import { FhevmClient, getDefaultFhevmClient } from './fhevm.js';
+import { getAuctionPhase } from './phase.js';
+import { type DeploymentRegistry, resolveDeployment } from './deployments.js';
+
+/**
+ * Order matches the contract's `AuctionType` enum
+ */
+const AUCTION_TYPES = ['firstPrice', 'secondPrice'] as const;
+
+/**
+ * `firstPrice`: the winner pays their bid. `secondPrice` (Vickrey): the winner pays the
+ * second-highest bid, or the reserve price if that is higher.
+ */
+export type AuctionType = typeof AUCTION_TYPES[number];
+
+/**
+ * Anti-sniping settings of a listing, in seconds. A bid placed less than `window` before the deadline
+ * pushes it out by `extension`, up to `maxExtension` past the original deadline. A zero window disables it.
+ */
+export interface AntiSniping {
+  window: number;
+  extension: number;
+  maxExtension: number;
+}
+
+const NO_ANTI_SNIPING: AntiSniping = { window: 0, extension: 0, maxExtension: 0 };
+
+/**
+ * Refundable cleartext deposit each bidder pays with their first bid on a listing, in wei when `token`
+ * is the zero address and in base units of that ERC-20 otherwise. A zero amount means no deposit.
+ */
+export interface Deposit {
+  token: string;
+  amount: bigint;
+}
+
+const NO_DEPOSIT: Deposit = { token: ethers.ZeroAddress, amount: 0n };
+
+/**
+ * Buyers allowed to bid on a listing. A non-zero `merkleRoot` admits the addresses of a Merkle tree whose
+ * proofs are published at `proofsURI`, a non-zero `registry` admits the addresses that registry contract
+ * approves. With neither set anyone can bid.
+ */
+export interface Allowlist {
+  merkleRoot: string;
+  proofsURI: string;
+  registry: string;
+}
+
+const NO_ALLOWLIST: Allowlist = { merkleRoot: ethers.ZeroHash, proofsURI: '', registry: ethers.ZeroAddress };
+
+/**
+ * JSON document published at an allowlist's `proofsURI`, as written by `npx hardhat allowlist`
+ */
+export interface AllowlistProofs {
+  merkleRoot: string;
+  proofs: Record<string, string[]>;
+}
+
+const ERC20_ABI = [
+  'function allowance(address owner, address spender) view returns (uint256)',
+  'function approve(address spender, uint256 amount) returns (bool)',
+];
+
+/**
+ * A bidder's deposit on a property, settled once refunded or, for the winner, paid to the seller
+ */
+export interface Escrow {
+  amount: bigint;
+  settled: boolean;
+}
+
+/**
+ * A property listing, mirroring the contract's `Property` struct (bids are loaded separately)
+ */
+export interface Property {
+  propertyId: string;
+  details: string;
+  seller: string;
+  startTime: number;
+  /**
+   * Current deadline, later than the original one once anti-sniping extended it
+   */
+  endTime: number;
+  /**
+   * Latest deadline anti-sniping extensions can reach
+   */
+  maxEndTime: number;
+  /**
+   * False once concluded or cancelled
+   */
+  isActive: boolean;
+  isPaused: boolean;
+  isCancelled: boolean;
+  auctionType: AuctionType;
+  antiSniping: AntiSniping;
+  deposit: Deposit;
+  allowlist: Allowlist;
+  /**
+   * Every bid ever submitted, including withdrawn and replaced ones
+   */
+  bidsCount: number;
+  activeBidsCount: number;
+}
+
+export interface ListingOptions {
+  /**
+   * Encrypted as a euint32, bidders never see it. Defaults to 0 (no reserve).
+   */
+  reservePrice?: number;
+  auctionType?: AuctionType;
+  /**
+   * Disabled by default
+   */
+  antiSniping?: AntiSniping;
+  /**
+   * No deposit by default
+   */
+  deposit?: Deposit;
+  /**
+   * Anyone can bid by default
+   */
+  allowlist?: Allowlist;
+}
+
+/**
+ * A bid on a property, mirroring the contract's `Bid` struct
+ */
+export interface Bid {
+  propertyId: string;
+  index: number;
+  encryptedAmount: string;
+  bidder: string;
+  timestamp: number;
+  /**
+   * False once the bidder withdrew or replaced it
+   */
+  isActive: boolean;
+}
+
+/**
+ * Encrypted running maximum of a property and, once concluded, its clear winner
+ */
+export interface AuctionResult {
+  propertyId: string;
+  /**
+   * Price the winner pays, only set once the winner reveal is requested
+   */
+  encryptedClearingPrice: string;
+  encryptedHighestBidder: string;
+  encryptedReserveMet: string;
+  winnerRevealRequested: boolean;
+  reserveMet: boolean;
+  /**
+   * Zero address until the auction is concluded, and after concluding without bids or below the reserve
+   */
+  winner: string;
+  /**
+   * Clearing price paid by the winner
+   */
+  winningAmount: number;
+}
+
+/**
+ * A listing with its auction result, as returned by the contract's batched `getPropertiesSummary`
+ */
+export interface PropertySummary extends Property {
+  result: AuctionResult;
+}
+
+export interface PropertyIdsPage {
+  ids: string[];
+  /**
+   * Number of listings, or of the seller's listings when filtering by seller
+   */
+  total: number;
+}
+
+export interface PropertyQuery {
+  /**
+   * Only this seller's listings
+   */
+  seller?: string;
+  /**
+   * Listings loaded per contract call, 50 by default
+   */
+  pageSize?: number;
+  filter?: (property: PropertySummary) => boolean;
+}
+
+export type WinnerRevealStep = 'folding' | 'requesting' | 'decrypting' | 'concluding';
+
+export interface SubmittedBid {
+  propertyId: string;
+  bidder: string;
+  encryptedAmount: string;
+  transactionHash: string;
+}
+
+export interface AuctionOutcome {
+  propertyId: string;
+  winner: string;
+  winningAmount: number;
+  reserveMet: boolean;
+  transactionHash: string;
+}
+
+export interface ConclusionProgress {
+  propertyId: string;
+  /**
+   * Position of the auction in the batch, starting at 0
+   */
+  index: number;
+  total: number;
+  step: WinnerRevealStep;
+}
+
+/**
+ * Either the outcome or the error of one auction in a batch
+ */
+export type ConclusionResult =
+  | { propertyId: string; outcome: AuctionOutcome; error?: undefined }
+  | { propertyId: string; outcome?: undefined; error: Error };
+
+export class HouseBidClient {
+  readonly contract: HouseBid_FHE;
+  readonly address: string;
+  readonly deployBlock: number;
+  private readonly fhevmClient?: FhevmClient;
+
+  /**
+   * @param fhevm FHEVM client used for encryption and decryption, defaults to the SDK default client
+   * @param deployBlock Block the contract was deployed in, where an `AuctionIndexer` starts by default
+   */
+  constructor(address: string, runner: ethers.ContractRunner, fhevm?: FhevmClient, deployBlock = 0) {
+    this.address = address;
+    this.contract = HouseBid_FHE__factory.connect(address, runner);
+    this.fhevmClient = fhevm;
+    this.deployBlock = deployBlock;
+  }
+
+  /**
+   * Connect to the HouseBid_FHE the registry records on the chain `runner` is connected to
+   */
+  static async fromRegistry(
+    registry: DeploymentRegistry,
+    runner: ethers.ContractRunner,
+    fhevm?: FhevmClient
+  ): Promise<HouseBidClient> {
+    const { address, deployBlock } = await resolveDeployment(registry, runner);
+    return new HouseBidClient(address, runner, fhevm, deployBlock);
+  }
+
+  get fhevm(): FhevmClient {
+    return this.fhevmClient ?? getDefaultFhevmClient();
+  }
+
+  /**
+   * List a property for auction, bidding opens immediately for `durationSeconds`
+   */
+  async listProperty(
+    propertyId: string,
+    details: string,
+    durationSeconds: number,
+    { reservePrice = 0, auctionType = 'firstPrice', antiSniping = NO_ANTI_SNIPING, deposit = NO_DEPOSIT, allowlist = NO_ALLOWLIST }: ListingOptions = {}
+  ): Promise<Property> {
+    const seller = await this.signerAddress();
+    const { handles, inputProof } = await this.fhevm.encrypt(this.address, seller).u32(reservePrice).build();
+
+    const receipt = await this.send(
+      this.contract.listProperty(
+        propertyId,
+        details,
+        durationSeconds,
+        AUCTION_TYPES.indexOf(auctionType),
+        antiSniping,
+        deposit,
+        allowlist,
+        handles[0],
+        inputProof
+      )
+    );
+    const event = this.findEvent(receipt, 'PropertyListed');
+    const endTime = Number(event.args.endTime);
+
+    return {
+      propertyId,
+      details,
+      seller: event.args.seller,
+      startTime: Number(event.args.startTime),
+      endTime,
+      maxEndTime: endTime + antiSniping.maxExtension,
+      isActive: true,
+      isPaused: false,
+      isCancelled: false,
+      auctionType,
+      antiSniping,
+      deposit,
+      allowlist,
+      bidsCount: 0,
+      activeBidsCount: 0,
+    };
+  }
+
+  /**
+   * Withdraw a listing of the connected seller, only possible before the first bid
+   */
+  async cancelListing(propertyId: string): Promise<string> {
+    const receipt = await this.send(this.contract.cancelListing(propertyId));
+    return receipt.hash;
+  }
+
+  /**
+   * Stop accepting bids on a listing of the connected seller, only possible before the first bid
+   */
+  async pauseListing(propertyId: string): Promise<string> {
+    const receipt = await this.send(this.contract.pauseListing(propertyId));
+    return receipt.hash;
+  }
+
+  async resumeListing(propertyId: string): Promise<string> {
+    const receipt = await this.send(this.contract.resumeListing(propertyId));
+    return receipt.hash;
+  }
+
+  /**
+   * Correct the details of a listing of the connected seller, only possible before the first bid
+   */
+  async updateDetails(propertyId: string, details: string): Promise<string> {
+    const receipt = await this.send(this.contract.updateDetails(propertyId, details));
+    return receipt.hash;
+  }
+
+  /**
+   * Encrypt `amount` as a euint32 for the connected signer and submit it as a sealed bid.
+   * A bidder has one active bid per property, use `replaceBid` to change it.
+   * The listing's deposit is paid with the first bid, approving the ERC-20 transfer first when needed,
+   * and the bidder's allowlist proof is fetched from the listing's `proofsURI` when it has a Merkle allowlist.
+   */
+  async submitBid(propertyId: string, amount: number): Promise<SubmittedBid> {
+    const bidder = await this.signerAddress();
+    const allowlistProof = await this.getAllowlistProof(propertyId, bidder);
+    const value = await this.prepareDeposit(propertyId, bidder);
+    const { handles, inputProof } = await this.fhevm.encrypt(this.address, bidder).u32(amount).build();
+
+    return this.toSubmittedBid(
+      propertyId,
+      await this.send(this.contract.submitBid(propertyId, handles[0], inputProof, allowlistProof, { value }))
+    );
+  }
+
+  /**
+   * Replace the connected signer's active bid with a new encrypted amount, higher or lower.
+   * The contract checks the allowlist again, so the bidder's proof is fetched like in `submitBid`.
+   */
+  async replaceBid(propertyId: string, amount: number): Promise<SubmittedBid> {
+    const bidder = await this.signerAddress();
+    const allowlistProof = await this.getAllowlistProof(propertyId, bidder);
+    const { handles, inputProof } = await this.fhevm.encrypt(this.address, bidder).u32(amount).build();
+
+    return this.toSubmittedBid(
+      propertyId,
+      await this.send(this.contract.replaceBid(propertyId, handles[0], inputProof, allowlistProof))
+    );
+  }
+
+  /**
+   * Withdraw the connected signer's active bid, it can no longer win
+   */
+  async withdrawBid(propertyId: string): Promise<string> {
+    const receipt = await this.send(this.contract.withdrawBid(propertyId));
+    return receipt.hash;
+  }
+
+  /**
+   * Replace the allowlist of a listing, only its seller can
+   */
+  async setAllowlist(propertyId: string, allowlist: Allowlist): Promise<string> {
+    const receipt = await this.send(this.contract.setAllowlist(propertyId, allowlist));
+    return receipt.hash;
+  }
+
+  /**
+   * The bidder's Merkle proof for a listing, empty when the listing has no Merkle allowlist.
+   * Throws when the bidder is not on it.
+   */
+  async getAllowlistProof(propertyId: string, bidder: string): Promise<string[]> {
+    const { merkleRoot, proofsURI } = await this.contract.getAllowlist(propertyId);
+    if (merkleRoot === ethers.ZeroHash) return [];
+
+    const response = await fetch(proofsURI.replace(/^ipfs:\/\//, 'https://ipfs.io/ipfs/'));
+    if (!response.ok) {
+      throw new Error(`Failed to load the allowlist of ${propertyId} from ${proofsURI}: ${response.status}`);
+    }
+    const published = (await response.json()) as AllowlistProofs;
+    if (published.merkleRoot !== merkleRoot) {
+      throw new Error(`The allowlist at ${proofsURI} does not match the Merkle root of ${propertyId}`);
+    }
+
+    const proof = published.proofs[ethers.getAddress(bidder)];
+    if (!proof) {
+      throw new Error(`${bidder} is not on the allowlist of ${propertyId}`);
+    }
+    return proof;
+  }
+
+  /**
+   * Refund the connected signer's deposit once the auction has concluded, not possible for the winner
+   */
+  async claimRefund(propertyId: string): Promise<string> {
+    const receipt = await this.send(this.contract.claimRefund(propertyId));
+    return receipt.hash;
+  }
+
+  /**
+   * Pay the winner's deposit out to the connected seller once the auction has concluded
+   */
+  async withdrawProceeds(propertyId: string): Promise<string> {
+    const receipt = await this.send(this.contract.withdrawProceeds(propertyId));
+    return receipt.hash;
+  }
+
+  /**
+   * Call `listener` with the new deadline whenever a late bid extends the property's auction.
+   * Returns a function that stops listening.
+   */
+  onDeadlineExtended(propertyId: string, listener: (endTime: number) => void): () => void {
+    const filter = this.contract.filters.DeadlineExtended(propertyId);
+    const handler = (_propertyId: string, newEndTime: bigint) => listener(Number(newEndTime));
+
+    void this.contract.on(filter, handler);
+    return () => {
+      void this.contract.off(filter, handler);
+    };
+  }
+
+  /**
+   * Decrypt one of the connected signer's own bids with an EIP-712 user decryption.
+   * The contract only grants the bidder access, so this works while bidding is still open.
+   */
+  async viewMyBid(propertyId: string, bidIndex: number): Promise<number> {
+    const signer = this.contract.runner as ethers.Signer;
+    const [bid, bidder] = await Promise.all([this.getBid(propertyId, bidIndex), this.signerAddress()]);
+    if (ethers.getAddress(bid.bidder) !== ethers.getAddress(bidder)) {
+      throw new Error(`Bid ${bidIndex} on ${propertyId} belongs to ${bid.bidder}, not ${bidder}`);
+    }
+
+    return this.fhevm.decryptValue(bid.encryptedAmount, this.address, signer);
+  }
+
+  /**
+   * Fold the bids not folded yet into the encrypted highest bid, `pageSize` bids per transaction, once
+   * bidding has ended. Returns the transaction hashes, none when every bid is folded already.
+   */
+  async foldBids(propertyId: string, pageSize = 10): Promise<string[]> {
+    if (!Number.isInteger(pageSize) || pageSize <= 0) {
+      throw new RangeError(`pageSize must be a positive integer, got ${pageSize}`);
+    }
+
+    const hashes: string[] = [];
+    for (;;) {
+      const [folded, total] = await this.contract.getFoldProgress(propertyId);
+      if (folded >= total) return hashes;
+
+      const receipt = await this.send(this.contract.foldBids(propertyId, pageSize));
+      hashes.push(receipt.hash);
+    }
+  }
+
+  /**
+   * Compute the encrypted reserve check and make it publicly decryptable together with the clearing
+   * price and highest bidder (zeroed when the reserve was not met), only possible once bidding has ended.
+   * Folds the remaining bids first.
+   */
+  async requestWinnerReveal(propertyId: string): Promise<string> {
+    await this.foldBids(propertyId);
+    const receipt = await this.send(this.contract.requestWinnerReveal(propertyId));
+    return receipt.hash;
+  }
+
+  /**
+   * Conclude an auction once bidding has ended. Only the reserve check and, if it passed, the clearing
+   * price and the winner are publicly decrypted, every bid amount stays encrypted.
+   * Resumes after a reveal that was already requested.
+   */
+  async determineWinner(propertyId: string, onStep?: (step: WinnerRevealStep) => void): Promise<AuctionOutcome> {
+    const activeBidsCount = Number(await this.contract.getActiveBidsCount(propertyId));
+
+    let abiEncodedClearValues = '0x';
+    let decryptionProof = '0x';
+
+    if (activeBidsCount > 0) {
+      if (!(await this.getAuctionResult(propertyId)).winnerRevealRequested) {
+        onStep?.('folding');
+        await this.foldBids(propertyId);
+        onStep?.('requesting');
+        await this.requestWinnerReveal(propertyId);
+      }
+
+      onStep?.('decrypting');
+      const { encryptedReserveMet, encryptedClearingPrice, encryptedHighestBidder } = await this.getAuctionResult(propertyId);
+      const decryption = await this.fhevm.publicDecryptV09([encryptedReserveMet, encryptedClearingPrice, encryptedHighestBidder]);
+      abiEncodedClearValues = decryption.abiEncodedClearValues;
+      decryptionProof = decryption.decryptionProof;
+    }
+
+    onStep?.('concluding');
+    const receipt = await this.send(this.contract.determineWinner(propertyId, abiEncodedClearValues, decryptionProof));
+    const event = this.findEvent(receipt, 'AuctionConcluded');
+
+    return {
+      propertyId,
+      winner: event.args.winner,
+      winningAmount: Number(event.args.winningAmount),
+      reserveMet: event.args.reserveMet,
+      transactionHash: receipt.hash,
+    };
+  }
+
+  /**
+   * Conclude several auctions one after the other. A failed auction does not stop the batch. Running
+   * it again on `getAuctionsAwaitingReveal()` resumes it, finishing the reveals that were requested.
+   */
+  async concludeAuctions(propertyIds: string[], onProgress?: (progress: ConclusionProgress) => void): Promise<ConclusionResult[]> {
+    const results: ConclusionResult[] = [];
+
+    for (const [index, propertyId] of propertyIds.entries()) {
+      try {
+        const outcome = await this.determineWinner(propertyId, (step) =>
+          onProgress?.({ propertyId, index, total: propertyIds.length, step })
+        );
+        results.push({ propertyId, outcome });
+      } catch (err) {
+        results.push({ propertyId, error: err instanceof Error ? err : new Error(String(err)) });
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Ids of the listings whose bidding has ended but whose winner is not revealed yet
+   */
+  async getAuctionsAwaitingReveal(): Promise<string[]> {
+    const latest = await this.contract.runner?.provider?.getBlock('latest');
+    const now = latest?.timestamp ?? Math.floor(Date.now() / 1000);
+    const propertyIds: string[] = [];
+
+    for await (const property of this.iterateProperties({ filter: (p) => getAuctionPhase(p, now) === 'awaitingReveal' })) {
+      propertyIds.push(property.propertyId);
+    }
+    return propertyIds;
+  }
+
+  async getAuctionResult(propertyId: string): Promise<AuctionResult> {
+    const [
+      encryptedClearingPrice,
+      encryptedHighestBidder,
+      encryptedReserveMet,
+      winnerRevealRequested,
+      reserveMet,
+      winner,
+      winningAmount,
+    ] = await this.contract.getAuctionResult(propertyId);
+
+    return {
+      propertyId,
+      encryptedClearingPrice,
+      encryptedHighestBidder,
+      encryptedReserveMet,
+      winnerRevealRequested,
+      reserveMet,
+      winner,
+      winningAmount: Number(winningAmount),
+    };
+  }
+
+  /**
+   * Load a listing, returns null when the property id was never listed
+   */
+  async getProperty(propertyId: string): Promise<PropertySummary | null> {
+    const [summary] = await this.getPropertySummaries([propertyId]);
+    return summary ?? null;
+  }
+
+  /**
+   * Load several listings with their auction results in one call, ids that were never listed are left out
+   */
+  async getPropertySummaries(propertyIds: string[]): Promise<PropertySummary[]> {
+    if (propertyIds.length === 0) return [];
+
+    const summaries = await this.contract.getPropertiesSummary(propertyIds);
+    return summaries.filter((summary) => summary.seller !== ethers.ZeroAddress).map(toPropertySummary);
+  }
+
+  /**
+   * Every property id, prefer `getPropertyIdsPage` or `iterateProperties` once there are many listings
+   */
+  async getPropertyIds(): Promise<string[]> {
+    return [...(await this.contract.getAllPropertyIds())];
+  }
+
+  /**
+   * Up to `limit` property ids in listing order starting at `offset`, optionally only those of one seller
+   */
+  async getPropertyIdsPage(offset: number, limit: number, seller?: string): Promise<PropertyIdsPage> {
+    if (!Number.isInteger(offset) || offset < 0) {
+      throw new RangeError(`offset must be a non-negative integer, got ${offset}`);
+    }
+    if (!Number.isInteger(limit) || limit <= 0) {
+      throw new RangeError(`limit must be a positive integer, got ${limit}`);
+    }
+    const [ids, total] = seller
+      ? await this.contract.getSellerPropertyIds(seller, offset, limit)
+      : await this.contract.getPropertyIds(offset, limit);
+    return { ids: [...ids], total: Number(total) };
+  }
+
+  /**
+   * Iterate over listings in listing order, loading a page of summaries per call
+   */
+  async *iterateProperties({ seller, pageSize = 50, filter }: PropertyQuery = {}): AsyncGenerator<PropertySummary> {
+    if (!Number.isInteger(pageSize) || pageSize <= 0) {
+      throw new RangeError(`pageSize must be a positive integer, got ${pageSize}`);
+    }
+    for (let offset = 0; ; offset += pageSize) {
+      const { ids, total } = await this.getPropertyIdsPage(offset, pageSize, seller);
+      for (const summary of await this.getPropertySummaries(ids)) {
+        if (!filter || filter(summary)) yield summary;
+      }
+      if (offset + pageSize >= total) return;
+    }
+  }
+
+  async getBid(propertyId: string, bidIndex: number): Promise<Bid> {
+    const [encryptedAmount, bidder, timestamp, isActive] = await this.contract.getBid(propertyId, bidIndex);
+
+    return {
+      propertyId,
+      index: bidIndex,
+      encryptedAmount,
+      bidder,
+      timestamp: Number(timestamp),
+      isActive,
+    };
+  }
+
+  /**
+   * The bidder's active bid on a property, null when they have none
+   */
+  async getActiveBid(propertyId: string, bidder: string): Promise<Bid | null> {
+    const [hasBid, bidIndex] = await this.contract.getActiveBidIndex(propertyId, bidder);
+    return hasBid ? this.getBid(propertyId, Number(bidIndex)) : null;
+  }
+
+  async getEscrow(propertyId: string, bidder: string): Promise<Escrow> {
+    const { amount, settled } = await this.contract.getEscrow(propertyId, bidder);
+    return { amount, settled };
+  }
+
+  async getBids(propertyId: string, pageSize = 100): Promise<Bid[]> {
+    if (!Number.isInteger(pageSize) || pageSize <= 0) {
+      throw new RangeError(`pageSize must be a positive integer, got ${pageSize}`);
+    }
+    const bids: Bid[] = [];
+
+    for (let offset = 0; ; offset += pageSize) {
+      const page = await this.contract.getBids(propertyId, offset, pageSize);
+      page.forEach(([encryptedAmount, bidder, timestamp, isActive], index) => {
+        bids.push({ propertyId, index: offset + index, encryptedAmount, bidder, timestamp: Number(timestamp), isActive });
+      });
+      if (page.length < pageSize) return bids;
+    }
+  }
+
+  /**
+   * Returns the ETH value to send with the bidder's next bid, after approving an ERC-20 deposit if one is due
+   */
+  private async prepareDeposit(propertyId: string, bidder: string): Promise<bigint> {
+    const [{ token, amount }, escrow] = await Promise.all([
+      this.contract.getDeposit(propertyId),
+      this.getEscrow(propertyId, bidder),
+    ]);
+    if (amount === 0n || escrow.amount > 0n) return 0n;
+    if (token === ethers.ZeroAddress) return amount;
+
+    const erc20 = new ethers.Contract(token, ERC20_ABI, this.contract.runner);
+    if ((await erc20.allowance(bidder, this.address)) < amount) {
+      await this.send(erc20.approve(this.address, amount));
+    }
+    return 0n;
+  }
+
+  private toSubmittedBid(propertyId: string, receipt: ethers.ContractTransactionReceipt): SubmittedBid {
+    const event = this.findEvent(receipt, 'BidSubmitted');
+
+    return {
+      propertyId,
+      bidder: event.args.bidder,
+      encryptedAmount: event.args.encryptedAmount,
+      transactionHash: receipt.hash,
+    };
+  }
+
+  private async signerAddress(): Promise<string> {
+    const runner = this.contract.runner as ethers.Signer | null;
+    if (!runner || typeof runner.getAddress !== 'function') {
+      throw new Error('HouseBidClient needs a signer for transactions');
+    }
+    return runner.getAddress();
+  }
+
+  private async send(pending: Promise<ethers.ContractTransactionResponse>): Promise<ethers.ContractTransactionReceipt> {
+    const tx = await pending;
+    const receipt = await tx.wait();
+    if (!receipt) {
+      throw new Error("Transaction receipt is null");
+    }
+    return receipt;
+  }
+
+  private findEvent(receipt: ethers.ContractTransactionReceipt, name: string): ethers.LogDescription {
+    for (const log of receipt.logs) {
+      const parsed = this.contract.interface.parseLog(log);
+      if (parsed?.name === name) return parsed;
+    }
+    throw new Error(`${name} event not found in transaction ${receipt.hash}`);
+  }
+}
+
+function toPropertySummary(summary: HouseBid_FHE.PropertySummaryStructOutput): PropertySummary {
+  const { antiSniping, deposit, allowlist } = summary;
+
+  return {
+    propertyId: summary.propertyId,
+    details: summary.details,
+    seller: summary.seller,
+    startTime: Number(summary.startTime),
+    endTime: Number(summary.endTime),
+    maxEndTime: Number(summary.maxEndTime),
+    isActive: summary.isActive,
+    isPaused: summary.isPaused,
+    isCancelled: summary.isCancelled,
+    auctionType: AUCTION_TYPES[Number(summary.auctionType)],
+    antiSniping: {
+      window: Number(antiSniping.window),
+      extension: Number(antiSniping.extension),
+      maxExtension: Number(antiSniping.maxExtension),
+    },
+    deposit: { token: deposit.token, amount: deposit.amount },
+    allowlist: { merkleRoot: allowlist.merkleRoot, proofsURI: allowlist.proofsURI, registry: allowlist.registry },
+    bidsCount: Number(summary.bidsCount),
+    activeBidsCount: Number(summary.activeBidsCount),
+    result: {
+      propertyId: summary.propertyId,
+      encryptedClearingPrice: summary.clearingPrice,
+      encryptedHighestBidder: summary.highestBidder,
+      encryptedReserveMet: summary.encryptedReserveMet,
+      winnerRevealRequested: summary.winnerRevealRequested,
+      reserveMet: summary.reserveMet,
+      winner: summary.winner,
+      winningAmount: Number(summary.winningAmount),
+    },
+  };
+}
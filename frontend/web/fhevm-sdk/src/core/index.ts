@@ -5,6 +5,13 @@
 
 // Core FHEVM functionality - All functions consolidated in fhevm.ts
 export * from './fhevm.js';
+export * from './mock.js';
+export * from './encryption.js';
 export * from './contracts.js';
+export * from './housebid.js';
+export * from './deployments.js';
+export * from './indexer.js';
+export * from './events.js';
+export * from './phase.js';
 
 
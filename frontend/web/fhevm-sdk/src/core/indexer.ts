@@ -0,0 +1,445 @@
+/**
+ * Auction Indexer - Universal SDK
+ * Event-sourced local index of HouseBid_FHE listings, bids, deposits and outcomes
+ */
+
+import { ethers } from 'ethers';
+import { openDB } from 'idb';
+import type { DBSchema, IDBPDatabase } from 'idb';
+import type { Bid, Escrow, HouseBidClient, PropertySummary } from './housebid.js';
+
+export interface IndexedEscrow extends Escrow {
+  propertyId: string;
+  bidder: string;
+}
+
+export interface IndexedOutcome {
+  propertyId: string;
+  winner: string;
+  winningAmount: number;
+  reserveMet: boolean;
+  blockNumber: number;
+  transactionHash: string;
+}
+
+/**
+ * Everything indexed from one block range, committed together with the new cursor
+ */
+export interface IndexBatch {
+  cursor: number;
+  properties: PropertySummary[];
+  bids: Bid[];
+  escrows: IndexedEscrow[];
+  outcomes: IndexedOutcome[];
+}
+
+/**
+ * Storage behind an `AuctionIndexer`. Bidder addresses are stored checksummed.
+ */
+export interface AuctionStore {
+  /**
+   * Last block whose logs are indexed, null before the first sync
+   */
+  getCursor(): Promise<number | null>;
+  commit(batch: IndexBatch): Promise<void>;
+  getProperty(propertyId: string): Promise<PropertySummary | undefined>;
+  getProperties(): Promise<PropertySummary[]>;
+  getBid(propertyId: string, index: number): Promise<Bid | undefined>;
+  /**
+   * Bids on a listing in submission order
+   */
+  getBids(propertyId: string): Promise<Bid[]>;
+  getBidsByBidder(bidder: string): Promise<Bid[]>;
+  getEscrow(propertyId: string, bidder: string): Promise<IndexedEscrow | undefined>;
+  getEscrows(propertyId: string): Promise<IndexedEscrow[]>;
+  getOutcome(propertyId: string): Promise<IndexedOutcome | undefined>;
+  getOutcomes(): Promise<IndexedOutcome[]>;
+  clear(): Promise<void>;
+}
+
+export class MemoryAuctionStore implements AuctionStore {
+  private cursor: number | null = null;
+  private readonly properties = new Map<string, PropertySummary>();
+  private readonly bids = new Map<string, Bid>();
+  private readonly escrows = new Map<string, IndexedEscrow>();
+  private readonly outcomes = new Map<string, IndexedOutcome>();
+
+  async getCursor(): Promise<number | null> {
+    return this.cursor;
+  }
+
+  async commit({ cursor, properties, bids, escrows, outcomes }: IndexBatch): Promise<void> {
+    properties.forEach((property) => this.properties.set(property.propertyId, property));
+    bids.forEach((bid) => this.bids.set(`${bid.propertyId}:${bid.index}`, bid));
+    escrows.forEach((escrow) => this.escrows.set(`${escrow.propertyId}:${escrow.bidder}`, escrow));
+    outcomes.forEach((outcome) => this.outcomes.set(outcome.propertyId, outcome));
+    this.cursor = cursor;
+  }
+
+  async getProperty(propertyId: string): Promise<PropertySummary | undefined> {
+    return this.properties.get(propertyId);
+  }
+
+  async getProperties(): Promise<PropertySummary[]> {
+    return [...this.properties.values()];
+  }
+
+  async getBid(propertyId: string, index: number): Promise<Bid | undefined> {
+    return this.bids.get(`${propertyId}:${index}`);
+  }
+
+  async getBids(propertyId: string): Promise<Bid[]> {
+    return [...this.bids.values()].filter((bid) => bid.propertyId === propertyId).sort((a, b) => a.index - b.index);
+  }
+
+  async getBidsByBidder(bidder: string): Promise<Bid[]> {
+    const address = ethers.getAddress(bidder);
+    return [...this.bids.values()].filter((bid) => bid.bidder === address);
+  }
+
+  async getEscrow(propertyId: string, bidder: string): Promise<IndexedEscrow | undefined> {
+    return this.escrows.get(`${propertyId}:${ethers.getAddress(bidder)}`);
+  }
+
+  async getEscrows(propertyId: string): Promise<IndexedEscrow[]> {
+    return [...this.escrows.values()].filter((escrow) => escrow.propertyId === propertyId);
+  }
+
+  async getOutcome(propertyId: string): Promise<IndexedOutcome | undefined> {
+    return this.outcomes.get(propertyId);
+  }
+
+  async getOutcomes(): Promise<IndexedOutcome[]> {
+    return [...this.outcomes.values()];
+  }
+
+  async clear(): Promise<void> {
+    this.cursor = null;
+    this.properties.clear();
+    this.bids.clear();
+    this.escrows.clear();
+    this.outcomes.clear();
+  }
+}
+
+interface AuctionIndexSchema extends DBSchema {
+  meta: { key: string; value: number };
+  properties: { key: string; value: PropertySummary };
+  bids: { key: [string, number]; value: Bid; indexes: { 'by-property': string; 'by-bidder': string } };
+  escrows: { key: [string, string]; value: IndexedEscrow; indexes: { 'by-property': string } };
+  outcomes: { key: string; value: IndexedOutcome };
+}
+
+/**
+ * IndexedDB store that survives page reloads, so only blocks after the stored cursor are fetched again
+ */
+export class IndexedDbAuctionStore implements AuctionStore {
+  private constructor(private readonly db: IDBPDatabase<AuctionIndexSchema>) {}
+
+  /**
+   * @param name database name, use one per chain and contract address
+   */
+  static async open(name: string): Promise<IndexedDbAuctionStore> {
+    const db = await openDB<AuctionIndexSchema>(name, 1, {
+      upgrade(db) {
+        db.createObjectStore('meta');
+        db.createObjectStore('properties', { keyPath: 'propertyId' });
+        const bids = db.createObjectStore('bids', { keyPath: ['propertyId', 'index'] });
+        bids.createIndex('by-property', 'propertyId');
+        bids.createIndex('by-bidder', 'bidder');
+        const escrows = db.createObjectStore('escrows', { keyPath: ['propertyId', 'bidder'] });
+        escrows.createIndex('by-property', 'propertyId');
+        db.createObjectStore('outcomes', { keyPath: 'propertyId' });
+      },
+    });
+    return new IndexedDbAuctionStore(db);
+  }
+
+  async getCursor(): Promise<number | null> {
+    return (await this.db.get('meta', 'cursor')) ?? null;
+  }
+
+  async commit({ cursor, properties, bids, escrows, outcomes }: IndexBatch): Promise<void> {
+    const tx = this.db.transaction(['meta', 'properties', 'bids', 'escrows', 'outcomes'], 'readwrite');
+    await Promise.all([
+      ...properties.map((property) => tx.objectStore('properties').put(property)),
+      ...bids.map((bid) => tx.objectStore('bids').put(bid)),
+      ...escrows.map((escrow) => tx.objectStore('escrows').put(escrow)),
+      ...outcomes.map((outcome) => tx.objectStore('outcomes').put(outcome)),
+      tx.objectStore('meta').put(cursor, 'cursor'),
+      tx.done,
+    ]);
+  }
+
+  async getProperty(propertyId: string): Promise<PropertySummary | undefined> {
+    return this.db.get('properties', propertyId);
+  }
+
+  async getProperties(): Promise<PropertySummary[]> {
+    return this.db.getAll('properties');
+  }
+
+  async getBid(propertyId: string, index: number): Promise<Bid | undefined> {
+    return this.db.get('bids', [propertyId, index]);
+  }
+
+  async getBids(propertyId: string): Promise<Bid[]> {
+    const bids = await this.db.getAllFromIndex('bids', 'by-property', propertyId);
+    return bids.sort((a, b) => a.index - b.index);
+  }
+
+  async getBidsByBidder(bidder: string): Promise<Bid[]> {
+    return this.db.getAllFromIndex('bids', 'by-bidder', ethers.getAddress(bidder));
+  }
+
+  async getEscrow(propertyId: string, bidder: string): Promise<IndexedEscrow | undefined> {
+    return this.db.get('escrows', [propertyId, ethers.getAddress(bidder)]);
+  }
+
+  async getEscrows(propertyId: string): Promise<IndexedEscrow[]> {
+    return this.db.getAllFromIndex('escrows', 'by-property', propertyId);
+  }
+
+  async getOutcome(propertyId: string): Promise<IndexedOutcome | undefined> {
+    return this.db.get('outcomes', propertyId);
+  }
+
+  async getOutcomes(): Promise<IndexedOutcome[]> {
+    return this.db.getAll('outcomes');
+  }
+
+  async clear(): Promise<void> {
+    const tx = this.db.transaction(['meta', 'properties', 'bids', 'escrows', 'outcomes'], 'readwrite');
+    await Promise.all([
+      tx.objectStore('meta').clear(),
+      tx.objectStore('properties').clear(),
+      tx.objectStore('bids').clear(),
+      tx.objectStore('escrows').clear(),
+      tx.objectStore('outcomes').clear(),
+      tx.done,
+    ]);
+  }
+}
+
+export interface IndexerOptions {
+  /**
+   * Block the contract was deployed in, logs before it are never fetched. Defaults to the client's `deployBlock`.
+   */
+  fromBlock?: number;
+  /**
+   * Blocks fetched per `eth_getLogs` call, 2000 by default
+   */
+  batchSize?: number;
+  /**
+   * Blocks to stay behind the chain head to avoid indexing logs that get reorged out, 0 by default
+   */
+  confirmations?: number;
+}
+
+export interface IndexUpdate {
+  cursor: number;
+  /**
+   * Listings whose summary, bids, deposits or outcome changed
+   */
+  propertyIds: string[];
+}
+
+/**
+ * Backfills HouseBid_FHE logs from `fromBlock`, then follows new blocks. Bids, deposits and
+ * outcomes are built from events. Listings touched by an event are re-read in one batched
+ * `getPropertiesSummary` call, since events do not carry every listing setting.
+ */
+export class AuctionIndexer {
+  private readonly listeners = new Set<(update: IndexUpdate) => void>();
+  private readonly propertyIds: string[] = [];
+  private readonly propertyIdsByHash = new Map<string, string>();
+  private readonly blockTimestamps = new Map<number, number>();
+  private syncing: Promise<number> | null = null;
+  private syncAgain = false;
+  private stopFollowing?: () => void;
+
+  constructor(
+    readonly client: HouseBidClient,
+    readonly store: AuctionStore,
+    private readonly options: IndexerOptions = {}
+  ) {}
+
+  private get provider(): ethers.Provider {
+    const provider = this.client.contract.runner?.provider;
+    if (!provider) throw new Error('The HouseBid client has no provider to read logs from');
+    return provider;
+  }
+
+  /**
+   * Called after every committed block range
+   */
+  subscribe(listener: (update: IndexUpdate) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Index every block up to the chain head, returns the new cursor. Concurrent calls share one sync.
+   */
+  sync(): Promise<number> {
+    if (this.syncing) {
+      this.syncAgain = true;
+      return this.syncing;
+    }
+
+    this.syncing = this.syncToHead().finally(() => {
+      this.syncing = null;
+    });
+    return this.syncing;
+  }
+
+  /**
+   * Sync on every new block until `stop` is called
+   */
+  start(onError: (error: unknown) => void = console.error): void {
+    if (this.stopFollowing) return;
+
+    const handler = () => {
+      this.sync().catch(onError);
+    };
+    void this.provider.on('block', handler);
+    this.stopFollowing = () => {
+      void this.provider.off('block', handler);
+    };
+    handler();
+  }
+
+  stop(): void {
+    this.stopFollowing?.();
+    this.stopFollowing = undefined;
+  }
+
+  private async syncToHead(): Promise<number> {
+    const { fromBlock = this.client.deployBlock, batchSize = 2000, confirmations = 0 } = this.options;
+    let cursor = (await this.store.getCursor()) ?? fromBlock - 1;
+
+    do {
+      this.syncAgain = false;
+      const head = (await this.provider.getBlockNumber()) - confirmations;
+      while (cursor < head) {
+        const to = Math.min(head, cursor + batchSize);
+        await this.indexRange(cursor + 1, to);
+        cursor = to;
+      }
+    } while (this.syncAgain);
+
+    return cursor;
+  }
+
+  private async indexRange(fromBlock: number, toBlock: number): Promise<void> {
+    const logs = await this.provider.getLogs({ address: this.client.address, fromBlock, toBlock });
+    const touched = new Set<string>();
+    const bids = new Map<string, Bid>();
+    const escrows = new Map<string, IndexedEscrow>();
+    const outcomes = new Map<string, IndexedOutcome>();
+    const bidCounts = new Map<string, number>();
+
+    const getBid = async (propertyId: string, index: number) =>
+      bids.get(`${propertyId}:${index}`) ?? (await this.store.getBid(propertyId, index));
+    const getEscrow = async (propertyId: string, bidder: string) =>
+      escrows.get(`${propertyId}:${bidder}`) ?? (await this.store.getEscrow(propertyId, bidder));
+    const putEscrow = (escrow: IndexedEscrow) => escrows.set(`${escrow.propertyId}:${escrow.bidder}`, escrow);
+
+    for (const log of logs) {
+      const event = this.client.contract.interface.parseLog(log);
+      if (!event) continue;
+
+      const propertyId = await this.resolvePropertyId((event.args[0] as ethers.Indexed).hash!);
+      touched.add(propertyId);
+
+      switch (event.name) {
+        case 'BidSubmitted': {
+          const index = bidCounts.get(propertyId) ?? (await this.store.getBids(propertyId)).length;
+          bidCounts.set(propertyId, index + 1);
+          bids.set(`${propertyId}:${index}`, {
+            propertyId,
+            index,
+            encryptedAmount: event.args.encryptedAmount,
+            bidder: event.args.bidder,
+            timestamp: await this.blockTimestamp(log.blockNumber),
+            isActive: true,
+          });
+          break;
+        }
+        case 'BidWithdrawn': {
+          const bid = await getBid(propertyId, Number(event.args.bidIndex));
+          if (bid) bids.set(`${propertyId}:${bid.index}`, { ...bid, isActive: false });
+          break;
+        }
+        case 'DepositPaid':
+          putEscrow({ propertyId, bidder: event.args.bidder, amount: event.args.amount, settled: false });
+          break;
+        case 'DepositRefunded': {
+          const escrow = await getEscrow(propertyId, event.args.bidder);
+          if (escrow) putEscrow({ ...escrow, settled: true });
+          break;
+        }
+        case 'ProceedsWithdrawn': {
+          const outcome = outcomes.get(propertyId) ?? (await this.store.getOutcome(propertyId));
+          const escrow = outcome && (await getEscrow(propertyId, outcome.winner));
+          if (escrow) putEscrow({ ...escrow, settled: true });
+          break;
+        }
+        case 'AuctionConcluded':
+          outcomes.set(propertyId, {
+            propertyId,
+            winner: event.args.winner,
+            winningAmount: Number(event.args.winningAmount),
+            reserveMet: event.args.reserveMet,
+            blockNumber: log.blockNumber,
+            transactionHash: log.transactionHash,
+          });
+          break;
+      }
+    }
+
+    const properties = await this.client.getPropertySummaries([...touched]);
+    await this.store.commit({
+      cursor: toBlock,
+      properties,
+      bids: [...bids.values()],
+      escrows: [...escrows.values()],
+      outcomes: [...outcomes.values()],
+    });
+
+    const update = { cursor: toBlock, propertyIds: [...touched] };
+    this.listeners.forEach((listener) => listener(update));
+  }
+
+  /**
+   * Indexed string event arguments only carry their hash, so ids are matched against the
+   * contract's listing order, loading the ids listed since the last lookup
+   */
+  private async resolvePropertyId(hash: string): Promise<string> {
+    let propertyId = this.propertyIdsByHash.get(hash);
+    while (!propertyId) {
+      const { ids } = await this.client.getPropertyIdsPage(this.propertyIds.length, 500);
+      if (ids.length === 0) throw new Error(`No listing matches property id hash ${hash}`);
+
+      for (const id of ids) {
+        this.propertyIds.push(id);
+        this.propertyIdsByHash.set(ethers.id(id), id);
+      }
+      propertyId = this.propertyIdsByHash.get(hash);
+    }
+    return propertyId;
+  }
+
+  private async blockTimestamp(blockNumber: number): Promise<number> {
+    let timestamp = this.blockTimestamps.get(blockNumber);
+    if (timestamp === undefined) {
+      const block = await this.provider.getBlock(blockNumber);
+      if (!block) throw new Error(`Block ${blockNumber} not found`);
+      timestamp = block.timestamp;
+      this.blockTimestamps.set(blockNumber, timestamp);
+    }
+    return timestamp;
+  }
+}
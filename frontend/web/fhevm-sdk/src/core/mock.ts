@@ -0,0 +1,59 @@
+/**
+ * FHEVM Mock - Universal SDK
+ * Encrypts and decrypts through the FHEVM mock of a local hardhat node, no relayer or KMS involved
+ */
+
+import { ethers } from 'ethers';
+
+/**
+ * `npx hardhat node`
+ */
+export const MOCK_RPC_URL = 'http://127.0.0.1:8545';
+export const MOCK_CHAIN_ID = 31337;
+
+/**
+ * Provider for the hardhat node at `rpcUrl`. The network is fixed, so a node that is not running fails the
+ * first request instead of being polled for its chain id forever.
+ */
+export function getMockProvider(rpcUrl: string = MOCK_RPC_URL): ethers.JsonRpcProvider {
+  return new ethers.JsonRpcProvider(rpcUrl, MOCK_CHAIN_ID, { staticNetwork: true });
+}
+
+/**
+ * Instance backed by the `fhevm_relayer_*` methods of a hardhat node running @fhevm/hardhat-plugin. It has the
+ * RelayerSDK instance API, input and decryption proofs are signed by the mock's verifiers so contracts accept them.
+ */
+export async function createMockFhevmInstance(provider: ethers.JsonRpcProvider) {
+  // Only mock mode needs the optional @fhevm/mock-utils peer dependency
+  const { MockFhevmInstance, contracts } = await import('@fhevm/mock-utils');
+
+  let metadata;
+  try {
+    metadata = await provider.send('fhevm_relayer_metadata', []);
+  } catch (error) {
+    throw new Error(`${provider._getConnection().url} is not a hardhat node with the FHEVM mock: ${(error as Error).message}`);
+  }
+
+  const repository = await contracts.FhevmContractsRepository.create(provider, {
+    aclContractAddress: metadata.ACLAddress,
+    kmsContractAddress: metadata.KMSVerifierAddress,
+  });
+
+  return MockFhevmInstance.create(
+    provider,
+    provider,
+    {
+      verifyingContractAddressDecryption: repository.kmsVerifier.gatewayDecryptionAddress,
+      verifyingContractAddressInputVerification: repository.inputVerifier.gatewayInputVerificationAddress,
+      kmsContractAddress: metadata.KMSVerifierAddress,
+      inputVerifierContractAddress: metadata.InputVerifierAddress,
+      aclContractAddress: metadata.ACLAddress,
+      chainId: metadata.chainId,
+      gatewayChainId: metadata.gatewayChainId,
+    },
+    {
+      inputVerifierProperties: repository.inputVerifier.inputVerifierProperties,
+      kmsVerifierProperties: repository.kmsVerifier.kmsVerifierProperties,
+    }
+  );
+}
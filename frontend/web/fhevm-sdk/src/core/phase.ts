@@ -0,0 +1,48 @@
+/**
+ * Auction Phase - Universal SDK
+ * Lifecycle of a HouseBid listing derived from its timestamps and flags, using the contract's boundaries
+ */
+
+import type { Property } from './housebid.js';
+
+/**
+ * `closingSoon` still accepts bids. `awaitingReveal` covers both steps of the winner reveal.
+ */
+export type AuctionPhase = 'upcoming' | 'open' | 'closingSoon' | 'paused' | 'awaitingReveal' | 'concluded' | 'cancelled';
+
+/**
+ * How long before the deadline a listing without anti-sniping counts as closing soon
+ */
+export const CLOSING_SOON_SECONDS = 3600;
+
+export type PhaseInput = Pick<Property, 'startTime' | 'endTime' | 'isActive' | 'isPaused' | 'isCancelled' | 'antiSniping'>;
+
+/**
+ * @param now unix time in seconds. Bids are accepted from `startTime` up to and including `endTime`,
+ * the winner can be revealed once `now` is past `endTime`. With anti-sniping, a listing is closing
+ * soon exactly when a bid would extend its deadline.
+ */
+export function getAuctionPhase(property: PhaseInput, now: number): AuctionPhase {
+  if (property.isCancelled) return 'cancelled';
+  if (!property.isActive) return 'concluded';
+  if (now > property.endTime) return 'awaitingReveal';
+  if (property.isPaused) return 'paused';
+  if (now < property.startTime) return 'upcoming';
+
+  const closingSoonWindow = property.antiSniping.window > 0 ? property.antiSniping.window : CLOSING_SOON_SECONDS;
+  return property.endTime - now < closingSoonWindow ? 'closingSoon' : 'open';
+}
+
+export function acceptsBids(phase: AuctionPhase): boolean {
+  return phase === 'open' || phase === 'closingSoon';
+}
+
+/**
+ * Seconds until the next phase change driven by time, null when only a transaction can change the phase
+ */
+export function secondsUntilNextPhase(property: PhaseInput, now: number): number | null {
+  const phase = getAuctionPhase(property, now);
+  if (phase === 'upcoming') return property.startTime - now;
+  if (phase === 'open' || phase === 'closingSoon' || phase === 'paused') return property.endTime - now + 1;
+  return null;
+}
@@ -0,0 +1,6 @@
+/**
+ * Universal FHEVM SDK - Node.js entry
+ * Server-side tools that depend on Node.js built-ins, kept out of the browser bundle
+ */
+
+export * from './keeper.js';
@@ -0,0 +1,64 @@
+#!/usr/bin/env node
+/**
+ * Auction Keeper CLI - configured through environment variables
+ *
+ *   KEEPER_RPC_URL        JSON-RPC endpoint of the network the contract is deployed on
+ *   KEEPER_CONTRACT       HouseBid_FHE address
+ *   KEEPER_PRIVATE_KEY    key that pays for the reveal and conclusion transactions
+ *   KEEPER_STATE_FILE     progress file, ./keeper-state.json by default
+ *   KEEPER_INTERVAL_MS    milliseconds between runs, 30000 by default
+ *   KEEPER_HEALTH_PORT    port of GET /health, 8080 by default
+ *   KEEPER_FHEVM_MODE     `mock` to decrypt through the FHEVM mock of a hardhat node, `relayer` by default
+ */
+
+import { ethers } from 'ethers';
+import { FhevmClient } from '../core/fhevm.js';
+import { HouseBidClient } from '../core/housebid.js';
+import { AuctionKeeper } from './keeper.js';
+
+function requireEnv(name: string): string {
+  const value = process.env[name];
+  if (!value) throw new Error(`${name} is not set`);
+  return value;
+}
+
+function optionalNumber(name: string): number | undefined {
+  const value = process.env[name];
+  if (value === undefined || value === '') return undefined;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0) throw new Error(`${name} must be a non-negative integer, got ${value}`);
+  return parsed;
+}
+
+async function main() {
+  const rpcUrl = requireEnv('KEEPER_RPC_URL');
+  const provider = new ethers.JsonRpcProvider(rpcUrl);
+  const wallet = new ethers.Wallet(requireEnv('KEEPER_PRIVATE_KEY'), provider);
+
+  const mode = process.env.KEEPER_FHEVM_MODE || 'relayer';
+  if (mode !== 'relayer' && mode !== 'mock') throw new Error(`KEEPER_FHEVM_MODE must be relayer or mock, got ${mode}`);
+  const fhevm = new FhevmClient({ rpcUrl, mode });
+  await fhevm.initialize();
+
+  const client = new HouseBidClient(requireEnv('KEEPER_CONTRACT'), wallet, fhevm);
+  const keeper = new AuctionKeeper(client, {
+    stateFile: process.env.KEEPER_STATE_FILE || './keeper-state.json',
+    interval: optionalNumber('KEEPER_INTERVAL_MS'),
+    healthPort: optionalNumber('KEEPER_HEALTH_PORT') ?? 8080,
+  });
+
+  await keeper.start();
+  console.log(`🤖 Keeper ${wallet.address} watching ${client.address}, health on :${keeper.healthPort}`);
+
+  const shutdown = () => {
+    console.log('🛑 Stopping keeper...');
+    keeper.stop().then(() => process.exit(0));
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+main().catch((error) => {
+  console.error('❌ Keeper failed to start:', error);
+  process.exit(1);
+});
@@ -0,0 +1,266 @@
+/**
+ * Auction Keeper - Node.js only
+ * Concludes HouseBid auctions whose bidding has ended, so finished listings do not stay active forever
+ */
+
+import { createServer, type Server } from 'node:http';
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import type { ConclusionResult, HouseBidClient } from '../core/housebid.js';
+
+export interface KeeperOptions {
+  /**
+   * JSON file the keeper records its progress in, created on the first run
+   */
+  stateFile: string;
+  /**
+   * Milliseconds between runs, 30000 by default
+   */
+  interval?: number;
+  /**
+   * Port of the health endpoint, no endpoint when omitted
+   */
+  healthPort?: number;
+  /**
+   * Delay before a failed auction is retried, doubled after every further failure, 60000 by default
+   */
+  retryDelay?: number;
+  /**
+   * Upper bound for the retry delay, 3600000 by default
+   */
+  maxRetryDelay?: number;
+}
+
+export interface KeeperConclusion {
+  transactionHash: string;
+  winner: string;
+  reserveMet: boolean;
+  concludedAt: number;
+}
+
+export interface KeeperFailure {
+  attempts: number;
+  lastError: string;
+  /**
+   * Unix time in milliseconds before which the auction is skipped
+   */
+  retryAt: number;
+}
+
+/**
+ * Progress kept on disk, so a restarted keeper neither repeats its history nor forgets its backoff
+ */
+export interface KeeperState {
+  concluded: Record<string, KeeperConclusion>;
+  failures: Record<string, KeeperFailure>;
+  lastRunAt: number | null;
+  lastRunError: string | null;
+}
+
+export type KeeperHealthStatus = 'starting' | 'ok' | 'stale';
+
+export interface KeeperHealth {
+  /**
+   * `stale` when no run succeeded within three intervals, e.g. because the RPC node is unreachable
+   */
+  status: KeeperHealthStatus;
+  contract: string;
+  lastRunAt: number | null;
+  lastRunError: string | null;
+  concluded: number;
+  failing: string[];
+}
+
+function emptyState(): KeeperState {
+  return { concluded: {}, failures: {}, lastRunAt: null, lastRunError: null };
+}
+
+/**
+ * Runs `concludeAuctions` on `getAuctionsAwaitingReveal()` every interval with the client's signer.
+ * Reveals are resumed by the SDK, so a keeper stopped between the reveal request and the conclusion
+ * finishes the auction on its next run. Failed auctions are retried with an exponential backoff.
+ */
+export class AuctionKeeper {
+  private state: KeeperState = emptyState();
+  private server?: Server;
+  private timer?: ReturnType<typeof setTimeout>;
+  private running?: Promise<ConclusionResult[]>;
+  private startedAt: number | null = null;
+
+  constructor(
+    readonly client: HouseBidClient,
+    private readonly options: KeeperOptions
+  ) {}
+
+  /**
+   * Load the saved state, open the health endpoint and run right away, then every interval
+   */
+  async start(): Promise<void> {
+    if (this.startedAt !== null) return;
+
+    this.state = await this.loadState();
+    this.startedAt = Date.now();
+    if (this.options.healthPort !== undefined) {
+      await this.listen(this.options.healthPort);
+    }
+    void this.loop();
+  }
+
+  /**
+   * Stop scheduling runs and wait for the current one, the state is saved after every run
+   */
+  async stop(): Promise<void> {
+    if (this.startedAt === null) return;
+
+    this.startedAt = null;
+    clearTimeout(this.timer);
+    await this.running?.catch(() => undefined);
+
+    const server = this.server;
+    this.server = undefined;
+    if (server) {
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+  }
+
+  /**
+   * Conclude every auction awaiting its reveal that is not backing off, runs never overlap
+   */
+  runOnce(): Promise<ConclusionResult[]> {
+    this.running ??= this.run().finally(() => {
+      this.running = undefined;
+    });
+    return this.running;
+  }
+
+  /**
+   * Port the health endpoint listens on, useful when it was opened on port 0
+   */
+  get healthPort(): number | null {
+    const address = this.server?.address();
+    return address && typeof address === 'object' ? address.port : null;
+  }
+
+  getState(): KeeperState {
+    return this.state;
+  }
+
+  getHealth(): KeeperHealth {
+    const { interval = 30000 } = this.options;
+    const { lastRunAt } = this.state;
+    const ranRecently = lastRunAt !== null && Date.now() - lastRunAt <= 3 * interval;
+    // A restarted keeper has not run yet, it is only stale once its first run is overdue
+    const starting = this.startedAt !== null && Date.now() - this.startedAt <= 3 * interval && (lastRunAt ?? 0) < this.startedAt;
+
+    return {
+      status: ranRecently ? 'ok' : starting ? 'starting' : 'stale',
+      contract: this.client.address,
+      lastRunAt,
+      lastRunError: this.state.lastRunError,
+      concluded: Object.keys(this.state.concluded).length,
+      failing: Object.keys(this.state.failures),
+    };
+  }
+
+  private async loop(): Promise<void> {
+    try {
+      await this.runOnce();
+    } catch (error) {
+      console.warn('⚠️ Keeper run failed:', error);
+    }
+    if (this.startedAt !== null) {
+      this.timer = setTimeout(() => void this.loop(), this.options.interval ?? 30000);
+    }
+  }
+
+  private async run(): Promise<ConclusionResult[]> {
+    let results: ConclusionResult[] = [];
+    try {
+      const now = Date.now();
+      const awaiting = await this.client.getAuctionsAwaitingReveal();
+      // Failed auctions that were concluded or cancelled meanwhile need no retry
+      for (const propertyId of Object.keys(this.state.failures)) {
+        if (!awaiting.includes(propertyId)) delete this.state.failures[propertyId];
+      }
+      const due = awaiting.filter((propertyId) => (this.state.failures[propertyId]?.retryAt ?? 0) <= now);
+
+      if (due.length > 0) {
+        console.log(`🏁 Concluding ${due.length} auction(s): ${due.join(', ')}`);
+        results = await this.client.concludeAuctions(due, ({ propertyId, step }) =>
+          console.log(`  ${propertyId}: ${step}`)
+        );
+      }
+
+      results.forEach((result) => this.record(result));
+      this.state.lastRunAt = Date.now();
+      this.state.lastRunError = null;
+    } catch (error) {
+      this.state.lastRunError = error instanceof Error ? error.message : String(error);
+      throw error;
+    } finally {
+      await this.saveState();
+    }
+    return results;
+  }
+
+  private record(result: ConclusionResult): void {
+    const { propertyId } = result;
+
+    if (result.outcome) {
+      const { transactionHash, winner, reserveMet } = result.outcome;
+      this.state.concluded[propertyId] = { transactionHash, winner, reserveMet, concludedAt: Date.now() };
+      delete this.state.failures[propertyId];
+      console.log(`✅ ${propertyId} concluded in ${transactionHash}`);
+      return;
+    }
+
+    const { retryDelay = 60000, maxRetryDelay = 3600000 } = this.options;
+    const attempts = (this.state.failures[propertyId]?.attempts ?? 0) + 1;
+    const delay = Math.min(maxRetryDelay, retryDelay * 2 ** (attempts - 1));
+    this.state.failures[propertyId] = { attempts, lastError: result.error.message, retryAt: Date.now() + delay };
+    console.warn(`⚠️ ${propertyId} failed (attempt ${attempts}), retrying in ${delay} ms:`, result.error.message);
+  }
+
+  private async loadState(): Promise<KeeperState> {
+    try {
+      return { ...emptyState(), ...JSON.parse(await readFile(this.options.stateFile, 'utf8')) };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return emptyState();
+      throw error;
+    }
+  }
+
+  /**
+   * Written to a temporary file first, so a crash mid-write never leaves a truncated state behind
+   */
+  private async saveState(): Promise<void> {
+    const { stateFile } = this.options;
+    await mkdir(dirname(stateFile), { recursive: true });
+    await writeFile(`${stateFile}.tmp`, JSON.stringify(this.state, null, 2));
+    await rename(`${stateFile}.tmp`, stateFile);
+  }
+
+  /**
+   * `GET /health` answers 200 unless the keeper is stale, then 503
+   */
+  private listen(port: number): Promise<void> {
+    const server = createServer((req, res) => {
+      if (req.method !== 'GET' || req.url !== '/health') {
+        res.writeHead(404).end();
+        return;
+      }
+      const health = this.getHealth();
+      res.writeHead(health.status === 'stale' ? 503 : 200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(health));
+    });
+    this.server = server;
+
+    return new Promise((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(port, () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+  }
+}
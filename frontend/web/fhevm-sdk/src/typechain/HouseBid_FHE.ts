@@ -0,0 +1,1666 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "./common.js";
+
+export declare namespace HouseBid_FHE {
+  export type AllowlistStruct = {
+    merkleRoot: BytesLike;
+    proofsURI: string;
+    registry: AddressLike;
+  };
+
+  export type AllowlistStructOutput = [
+    merkleRoot: string,
+    proofsURI: string,
+    registry: string
+  ] & { merkleRoot: string; proofsURI: string; registry: string };
+
+  export type AntiSnipingStruct = {
+    window: BigNumberish;
+    extension: BigNumberish;
+    maxExtension: BigNumberish;
+  };
+
+  export type AntiSnipingStructOutput = [
+    window: bigint,
+    extension: bigint,
+    maxExtension: bigint
+  ] & { window: bigint; extension: bigint; maxExtension: bigint };
+
+  export type BidStruct = {
+    encryptedAmount: BytesLike;
+    bidder: AddressLike;
+    timestamp: BigNumberish;
+    isActive: boolean;
+  };
+
+  export type BidStructOutput = [
+    encryptedAmount: string,
+    bidder: string,
+    timestamp: bigint,
+    isActive: boolean
+  ] & {
+    encryptedAmount: string;
+    bidder: string;
+    timestamp: bigint;
+    isActive: boolean;
+  };
+
+  export type DepositStruct = { token: AddressLike; amount: BigNumberish };
+
+  export type DepositStructOutput = [token: string, amount: bigint] & {
+    token: string;
+    amount: bigint;
+  };
+
+  export type EscrowStruct = { amount: BigNumberish; settled: boolean };
+
+  export type EscrowStructOutput = [amount: bigint, settled: boolean] & {
+    amount: bigint;
+    settled: boolean;
+  };
+
+  export type PropertySummaryStruct = {
+    propertyId: string;
+    details: string;
+    seller: AddressLike;
+    startTime: BigNumberish;
+    endTime: BigNumberish;
+    maxEndTime: BigNumberish;
+    isActive: boolean;
+    isPaused: boolean;
+    isCancelled: boolean;
+    auctionType: BigNumberish;
+    antiSniping: HouseBid_FHE.AntiSnipingStruct;
+    deposit: HouseBid_FHE.DepositStruct;
+    allowlist: HouseBid_FHE.AllowlistStruct;
+    bidsCount: BigNumberish;
+    activeBidsCount: BigNumberish;
+    clearingPrice: BytesLike;
+    highestBidder: BytesLike;
+    encryptedReserveMet: BytesLike;
+    winnerRevealRequested: boolean;
+    reserveMet: boolean;
+    winner: AddressLike;
+    winningAmount: BigNumberish;
+  };
+
+  export type PropertySummaryStructOutput = [
+    propertyId: string,
+    details: string,
+    seller: string,
+    startTime: bigint,
+    endTime: bigint,
+    maxEndTime: bigint,
+    isActive: boolean,
+    isPaused: boolean,
+    isCancelled: boolean,
+    auctionType: bigint,
+    antiSniping: HouseBid_FHE.AntiSnipingStructOutput,
+    deposit: HouseBid_FHE.DepositStructOutput,
+    allowlist: HouseBid_FHE.AllowlistStructOutput,
+    bidsCount: bigint,
+    activeBidsCount: bigint,
+    clearingPrice: string,
+    highestBidder: string,
+    encryptedReserveMet: string,
+    winnerRevealRequested: boolean,
+    reserveMet: boolean,
+    winner: string,
+    winningAmount: bigint
+  ] & {
+    propertyId: string;
+    details: string;
+    seller: string;
+    startTime: bigint;
+    endTime: bigint;
+    maxEndTime: bigint;
+    isActive: boolean;
+    isPaused: boolean;
+    isCancelled: boolean;
+    auctionType: bigint;
+    antiSniping: HouseBid_FHE.AntiSnipingStructOutput;
+    deposit: HouseBid_FHE.DepositStructOutput;
+    allowlist: HouseBid_FHE.AllowlistStructOutput;
+    bidsCount: bigint;
+    activeBidsCount: bigint;
+    clearingPrice: string;
+    highestBidder: string;
+    encryptedReserveMet: string;
+    winnerRevealRequested: boolean;
+    reserveMet: boolean;
+    winner: string;
+    winningAmount: bigint;
+  };
+}
+
+export interface HouseBid_FHEInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "cancelListing"
+      | "claimRefund"
+      | "confidentialProtocolId"
+      | "determineWinner"
+      | "foldBids"
+      | "getActiveBidIndex"
+      | "getActiveBidsCount"
+      | "getAllPropertyIds"
+      | "getAllowlist"
+      | "getAntiSniping"
+      | "getAuctionResult"
+      | "getBid"
+      | "getBids"
+      | "getBidsCount"
+      | "getDeposit"
+      | "getEscrow"
+      | "getFoldProgress"
+      | "getListingStatus"
+      | "getPropertiesSummary"
+      | "getPropertyDetails"
+      | "getPropertyIds"
+      | "getReservePrice"
+      | "getSellerPropertyIds"
+      | "isAvailable"
+      | "listProperty"
+      | "pauseListing"
+      | "properties"
+      | "propertyIds"
+      | "replaceBid"
+      | "requestWinnerReveal"
+      | "resumeListing"
+      | "setAllowlist"
+      | "submitBid"
+      | "updateDetails"
+      | "withdrawBid"
+      | "withdrawProceeds"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "AllowlistUpdated"
+      | "AuctionConcluded"
+      | "BidSubmitted"
+      | "BidWithdrawn"
+      | "BidsFolded"
+      | "DeadlineExtended"
+      | "DepositPaid"
+      | "DepositRefunded"
+      | "DetailsUpdated"
+      | "ListingCancelled"
+      | "ListingPaused"
+      | "ListingResumed"
+      | "ProceedsWithdrawn"
+      | "PropertyListed"
+      | "PublicDecryptionVerified"
+      | "WinnerRevealRequested"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "cancelListing",
+    values: [string]
+  ): string;
+  encodeFunctionData(functionFragment: "claimRefund", values: [string]): string;
+  encodeFunctionData(
+    functionFragment: "confidentialProtocolId",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "determineWinner",
+    values: [string, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "foldBids",
+    values: [string, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getActiveBidIndex",
+    values: [string, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getActiveBidsCount",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getAllPropertyIds",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getAllowlist",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getAntiSniping",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getAuctionResult",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getBid",
+    values: [string, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getBids",
+    values: [string, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getBidsCount",
+    values: [string]
+  ): string;
+  encodeFunctionData(functionFragment: "getDeposit", values: [string]): string;
+  encodeFunctionData(
+    functionFragment: "getEscrow",
+    values: [string, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getFoldProgress",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getListingStatus",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getPropertiesSummary",
+    values: [string[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getPropertyDetails",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getPropertyIds",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getReservePrice",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getSellerPropertyIds",
+    values: [AddressLike, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isAvailable",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "listProperty",
+    values: [
+      string,
+      string,
+      BigNumberish,
+      BigNumberish,
+      HouseBid_FHE.AntiSnipingStruct,
+      HouseBid_FHE.DepositStruct,
+      HouseBid_FHE.AllowlistStruct,
+      BytesLike,
+      BytesLike
+    ]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "pauseListing",
+    values: [string]
+  ): string;
+  encodeFunctionData(functionFragment: "properties", values: [string]): string;
+  encodeFunctionData(
+    functionFragment: "propertyIds",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "replaceBid",
+    values: [string, BytesLike, BytesLike, BytesLike[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "requestWinnerReveal",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "resumeListing",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setAllowlist",
+    values: [string, HouseBid_FHE.AllowlistStruct]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "submitBid",
+    values: [string, BytesLike, BytesLike, BytesLike[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "updateDetails",
+    values: [string, string]
+  ): string;
+  encodeFunctionData(functionFragment: "withdrawBid", values: [string]): string;
+  encodeFunctionData(
+    functionFragment: "withdrawProceeds",
+    values: [string]
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "cancelListing",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "claimRefund",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "confidentialProtocolId",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "determineWinner",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "foldBids", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "getActiveBidIndex",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getActiveBidsCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getAllPropertyIds",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getAllowlist",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getAntiSniping",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getAuctionResult",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "getBid", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "getBids", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "getBidsCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "getDeposit", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "getEscrow", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "getFoldProgress",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getListingStatus",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getPropertiesSummary",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getPropertyDetails",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getPropertyIds",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getReservePrice",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getSellerPropertyIds",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "isAvailable",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "listProperty",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "pauseListing",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "properties", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "propertyIds",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "replaceBid", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "requestWinnerReveal",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "resumeListing",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setAllowlist",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "submitBid", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "updateDetails",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "withdrawBid",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "withdrawProceeds",
+    data: BytesLike
+  ): Result;
+}
+
+export namespace AllowlistUpdatedEvent {
+  export type InputTuple = [
+    propertyId: string,
+    merkleRoot: BytesLike,
+    proofsURI: string,
+    registry: AddressLike
+  ];
+  export type OutputTuple = [
+    propertyId: string,
+    merkleRoot: string,
+    proofsURI: string,
+    registry: string
+  ];
+  export interface OutputObject {
+    propertyId: string;
+    merkleRoot: string;
+    proofsURI: string;
+    registry: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace AuctionConcludedEvent {
+  export type InputTuple = [
+    propertyId: string,
+    winner: AddressLike,
+    winningAmount: BigNumberish,
+    reserveMet: boolean
+  ];
+  export type OutputTuple = [
+    propertyId: string,
+    winner: string,
+    winningAmount: bigint,
+    reserveMet: boolean
+  ];
+  export interface OutputObject {
+    propertyId: string;
+    winner: string;
+    winningAmount: bigint;
+    reserveMet: boolean;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace BidSubmittedEvent {
+  export type InputTuple = [
+    propertyId: string,
+    bidder: AddressLike,
+    encryptedAmount: BytesLike
+  ];
+  export type OutputTuple = [
+    propertyId: string,
+    bidder: string,
+    encryptedAmount: string
+  ];
+  export interface OutputObject {
+    propertyId: string;
+    bidder: string;
+    encryptedAmount: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace BidWithdrawnEvent {
+  export type InputTuple = [
+    propertyId: string,
+    bidder: AddressLike,
+    bidIndex: BigNumberish
+  ];
+  export type OutputTuple = [
+    propertyId: string,
+    bidder: string,
+    bidIndex: bigint
+  ];
+  export interface OutputObject {
+    propertyId: string;
+    bidder: string;
+    bidIndex: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace BidsFoldedEvent {
+  export type InputTuple = [
+    propertyId: string,
+    foldedBidsCount: BigNumberish,
+    bidsCount: BigNumberish
+  ];
+  export type OutputTuple = [
+    propertyId: string,
+    foldedBidsCount: bigint,
+    bidsCount: bigint
+  ];
+  export interface OutputObject {
+    propertyId: string;
+    foldedBidsCount: bigint;
+    bidsCount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DeadlineExtendedEvent {
+  export type InputTuple = [propertyId: string, newEndTime: BigNumberish];
+  export type OutputTuple = [propertyId: string, newEndTime: bigint];
+  export interface OutputObject {
+    propertyId: string;
+    newEndTime: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DepositPaidEvent {
+  export type InputTuple = [
+    propertyId: string,
+    bidder: AddressLike,
+    amount: BigNumberish
+  ];
+  export type OutputTuple = [
+    propertyId: string,
+    bidder: string,
+    amount: bigint
+  ];
+  export interface OutputObject {
+    propertyId: string;
+    bidder: string;
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DepositRefundedEvent {
+  export type InputTuple = [
+    propertyId: string,
+    bidder: AddressLike,
+    amount: BigNumberish
+  ];
+  export type OutputTuple = [
+    propertyId: string,
+    bidder: string,
+    amount: bigint
+  ];
+  export interface OutputObject {
+    propertyId: string;
+    bidder: string;
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DetailsUpdatedEvent {
+  export type InputTuple = [propertyId: string, details: string];
+  export type OutputTuple = [propertyId: string, details: string];
+  export interface OutputObject {
+    propertyId: string;
+    details: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ListingCancelledEvent {
+  export type InputTuple = [propertyId: string];
+  export type OutputTuple = [propertyId: string];
+  export interface OutputObject {
+    propertyId: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ListingPausedEvent {
+  export type InputTuple = [propertyId: string];
+  export type OutputTuple = [propertyId: string];
+  export interface OutputObject {
+    propertyId: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ListingResumedEvent {
+  export type InputTuple = [propertyId: string];
+  export type OutputTuple = [propertyId: string];
+  export interface OutputObject {
+    propertyId: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ProceedsWithdrawnEvent {
+  export type InputTuple = [
+    propertyId: string,
+    seller: AddressLike,
+    amount: BigNumberish
+  ];
+  export type OutputTuple = [
+    propertyId: string,
+    seller: string,
+    amount: bigint
+  ];
+  export interface OutputObject {
+    propertyId: string;
+    seller: string;
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PropertyListedEvent {
+  export type InputTuple = [
+    propertyId: string,
+    seller: AddressLike,
+    startTime: BigNumberish,
+    endTime: BigNumberish,
+    auctionType: BigNumberish
+  ];
+  export type OutputTuple = [
+    propertyId: string,
+    seller: string,
+    startTime: bigint,
+    endTime: bigint,
+    auctionType: bigint
+  ];
+  export interface OutputObject {
+    propertyId: string;
+    seller: string;
+    startTime: bigint;
+    endTime: bigint;
+    auctionType: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PublicDecryptionVerifiedEvent {
+  export type InputTuple = [
+    handlesList: BytesLike[],
+    abiEncodedCleartexts: BytesLike
+  ];
+  export type OutputTuple = [
+    handlesList: string[],
+    abiEncodedCleartexts: string
+  ];
+  export interface OutputObject {
+    handlesList: string[];
+    abiEncodedCleartexts: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace WinnerRevealRequestedEvent {
+  export type InputTuple = [
+    propertyId: string,
+    reserveMet: BytesLike,
+    clearingPrice: BytesLike,
+    highestBidder: BytesLike
+  ];
+  export type OutputTuple = [
+    propertyId: string,
+    reserveMet: string,
+    clearingPrice: string,
+    highestBidder: string
+  ];
+  export interface OutputObject {
+    propertyId: string;
+    reserveMet: string;
+    clearingPrice: string;
+    highestBidder: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface HouseBid_FHE extends BaseContract {
+  connect(runner?: ContractRunner | null): HouseBid_FHE;
+  waitForDeployment(): Promise<this>;
+
+  interface: HouseBid_FHEInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  cancelListing: TypedContractMethod<
+    [propertyId: string],
+    [void],
+    "nonpayable"
+  >;
+
+  claimRefund: TypedContractMethod<[propertyId: string], [void], "nonpayable">;
+
+  confidentialProtocolId: TypedContractMethod<[], [bigint], "view">;
+
+  determineWinner: TypedContractMethod<
+    [
+      propertyId: string,
+      abiEncodedClearValues: BytesLike,
+      decryptionProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  foldBids: TypedContractMethod<
+    [propertyId: string, maxCount: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  getActiveBidIndex: TypedContractMethod<
+    [propertyId: string, bidder: AddressLike],
+    [[boolean, bigint]],
+    "view"
+  >;
+
+  getActiveBidsCount: TypedContractMethod<
+    [propertyId: string],
+    [bigint],
+    "view"
+  >;
+
+  getAllPropertyIds: TypedContractMethod<[], [string[]], "view">;
+
+  getAllowlist: TypedContractMethod<
+    [propertyId: string],
+    [HouseBid_FHE.AllowlistStructOutput],
+    "view"
+  >;
+
+  getAntiSniping: TypedContractMethod<
+    [propertyId: string],
+    [[HouseBid_FHE.AntiSnipingStructOutput, bigint]],
+    "view"
+  >;
+
+  getAuctionResult: TypedContractMethod<
+    [propertyId: string],
+    [[string, string, string, boolean, boolean, string, bigint]],
+    "view"
+  >;
+
+  getBid: TypedContractMethod<
+    [propertyId: string, bidIndex: BigNumberish],
+    [[string, string, bigint, boolean]],
+    "view"
+  >;
+
+  getBids: TypedContractMethod<
+    [propertyId: string, offset: BigNumberish, limit: BigNumberish],
+    [HouseBid_FHE.BidStructOutput[]],
+    "view"
+  >;
+
+  getBidsCount: TypedContractMethod<[propertyId: string], [bigint], "view">;
+
+  getDeposit: TypedContractMethod<
+    [propertyId: string],
+    [HouseBid_FHE.DepositStructOutput],
+    "view"
+  >;
+
+  getEscrow: TypedContractMethod<
+    [propertyId: string, bidder: AddressLike],
+    [HouseBid_FHE.EscrowStructOutput],
+    "view"
+  >;
+
+  getFoldProgress: TypedContractMethod<
+    [propertyId: string],
+    [[bigint, bigint]],
+    "view"
+  >;
+
+  getListingStatus: TypedContractMethod<
+    [propertyId: string],
+    [[boolean, boolean] & { isPaused: boolean; isCancelled: boolean }],
+    "view"
+  >;
+
+  getPropertiesSummary: TypedContractMethod<
+    [ids: string[]],
+    [HouseBid_FHE.PropertySummaryStructOutput[]],
+    "view"
+  >;
+
+  getPropertyDetails: TypedContractMethod<
+    [propertyId: string],
+    [[string, string, bigint, bigint, boolean, bigint]],
+    "view"
+  >;
+
+  getPropertyIds: TypedContractMethod<
+    [offset: BigNumberish, limit: BigNumberish],
+    [[string[], bigint]],
+    "view"
+  >;
+
+  getReservePrice: TypedContractMethod<[propertyId: string], [string], "view">;
+
+  getSellerPropertyIds: TypedContractMethod<
+    [seller: AddressLike, offset: BigNumberish, limit: BigNumberish],
+    [[string[], bigint]],
+    "view"
+  >;
+
+  isAvailable: TypedContractMethod<[], [boolean], "view">;
+
+  listProperty: TypedContractMethod<
+    [
+      propertyId: string,
+      details: string,
+      duration: BigNumberish,
+      auctionType: BigNumberish,
+      antiSniping: HouseBid_FHE.AntiSnipingStruct,
+      deposit: HouseBid_FHE.DepositStruct,
+      allowlist: HouseBid_FHE.AllowlistStruct,
+      encryptedReservePrice: BytesLike,
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  pauseListing: TypedContractMethod<[propertyId: string], [void], "nonpayable">;
+
+  properties: TypedContractMethod<
+    [arg0: string],
+    [
+      [
+        string,
+        string,
+        bigint,
+        bigint,
+        string,
+        boolean,
+        boolean,
+        boolean,
+        bigint,
+        HouseBid_FHE.AntiSnipingStructOutput,
+        HouseBid_FHE.DepositStructOutput,
+        HouseBid_FHE.AllowlistStructOutput,
+        bigint,
+        bigint,
+        bigint,
+        string,
+        string,
+        string,
+        string,
+        string,
+        string,
+        boolean,
+        boolean,
+        string,
+        bigint
+      ] & {
+        propertyId: string;
+        details: string;
+        startTime: bigint;
+        endTime: bigint;
+        seller: string;
+        isActive: boolean;
+        isPaused: boolean;
+        isCancelled: boolean;
+        auctionType: bigint;
+        antiSniping: HouseBid_FHE.AntiSnipingStructOutput;
+        deposit: HouseBid_FHE.DepositStructOutput;
+        allowlist: HouseBid_FHE.AllowlistStructOutput;
+        maxEndTime: bigint;
+        activeBidsCount: bigint;
+        foldedBidsCount: bigint;
+        highestBid: string;
+        highestBidder: string;
+        secondHighestBid: string;
+        clearingPrice: string;
+        reservePrice: string;
+        encryptedReserveMet: string;
+        winnerRevealRequested: boolean;
+        reserveMet: boolean;
+        winner: string;
+        winningAmount: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  propertyIds: TypedContractMethod<[arg0: BigNumberish], [string], "view">;
+
+  replaceBid: TypedContractMethod<
+    [
+      propertyId: string,
+      encryptedAmount: BytesLike,
+      inputProof: BytesLike,
+      allowlistProof: BytesLike[]
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  requestWinnerReveal: TypedContractMethod<
+    [propertyId: string],
+    [void],
+    "nonpayable"
+  >;
+
+  resumeListing: TypedContractMethod<
+    [propertyId: string],
+    [void],
+    "nonpayable"
+  >;
+
+  setAllowlist: TypedContractMethod<
+    [propertyId: string, allowlist: HouseBid_FHE.AllowlistStruct],
+    [void],
+    "nonpayable"
+  >;
+
+  submitBid: TypedContractMethod<
+    [
+      propertyId: string,
+      encryptedAmount: BytesLike,
+      inputProof: BytesLike,
+      allowlistProof: BytesLike[]
+    ],
+    [void],
+    "payable"
+  >;
+
+  updateDetails: TypedContractMethod<
+    [propertyId: string, details: string],
+    [void],
+    "nonpayable"
+  >;
+
+  withdrawBid: TypedContractMethod<[propertyId: string], [void], "nonpayable">;
+
+  withdrawProceeds: TypedContractMethod<
+    [propertyId: string],
+    [void],
+    "nonpayable"
+  >;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "cancelListing"
+  ): TypedContractMethod<[propertyId: string], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "claimRefund"
+  ): TypedContractMethod<[propertyId: string], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "confidentialProtocolId"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "determineWinner"
+  ): TypedContractMethod<
+    [
+      propertyId: string,
+      abiEncodedClearValues: BytesLike,
+      decryptionProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "foldBids"
+  ): TypedContractMethod<
+    [propertyId: string, maxCount: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "getActiveBidIndex"
+  ): TypedContractMethod<
+    [propertyId: string, bidder: AddressLike],
+    [[boolean, bigint]],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getActiveBidsCount"
+  ): TypedContractMethod<[propertyId: string], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getAllPropertyIds"
+  ): TypedContractMethod<[], [string[]], "view">;
+  getFunction(
+    nameOrSignature: "getAllowlist"
+  ): TypedContractMethod<
+    [propertyId: string],
+    [HouseBid_FHE.AllowlistStructOutput],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getAntiSniping"
+  ): TypedContractMethod<
+    [propertyId: string],
+    [[HouseBid_FHE.AntiSnipingStructOutput, bigint]],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getAuctionResult"
+  ): TypedContractMethod<
+    [propertyId: string],
+    [[string, string, string, boolean, boolean, string, bigint]],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getBid"
+  ): TypedContractMethod<
+    [propertyId: string, bidIndex: BigNumberish],
+    [[string, string, bigint, boolean]],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getBids"
+  ): TypedContractMethod<
+    [propertyId: string, offset: BigNumberish, limit: BigNumberish],
+    [HouseBid_FHE.BidStructOutput[]],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getBidsCount"
+  ): TypedContractMethod<[propertyId: string], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getDeposit"
+  ): TypedContractMethod<
+    [propertyId: string],
+    [HouseBid_FHE.DepositStructOutput],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getEscrow"
+  ): TypedContractMethod<
+    [propertyId: string, bidder: AddressLike],
+    [HouseBid_FHE.EscrowStructOutput],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getFoldProgress"
+  ): TypedContractMethod<[propertyId: string], [[bigint, bigint]], "view">;
+  getFunction(
+    nameOrSignature: "getListingStatus"
+  ): TypedContractMethod<
+    [propertyId: string],
+    [[boolean, boolean] & { isPaused: boolean; isCancelled: boolean }],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getPropertiesSummary"
+  ): TypedContractMethod<
+    [ids: string[]],
+    [HouseBid_FHE.PropertySummaryStructOutput[]],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getPropertyDetails"
+  ): TypedContractMethod<
+    [propertyId: string],
+    [[string, string, bigint, bigint, boolean, bigint]],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getPropertyIds"
+  ): TypedContractMethod<
+    [offset: BigNumberish, limit: BigNumberish],
+    [[string[], bigint]],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getReservePrice"
+  ): TypedContractMethod<[propertyId: string], [string], "view">;
+  getFunction(
+    nameOrSignature: "getSellerPropertyIds"
+  ): TypedContractMethod<
+    [seller: AddressLike, offset: BigNumberish, limit: BigNumberish],
+    [[string[], bigint]],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "isAvailable"
+  ): TypedContractMethod<[], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "listProperty"
+  ): TypedContractMethod<
+    [
+      propertyId: string,
+      details: string,
+      duration: BigNumberish,
+      auctionType: BigNumberish,
+      antiSniping: HouseBid_FHE.AntiSnipingStruct,
+      deposit: HouseBid_FHE.DepositStruct,
+      allowlist: HouseBid_FHE.AllowlistStruct,
+      encryptedReservePrice: BytesLike,
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "pauseListing"
+  ): TypedContractMethod<[propertyId: string], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "properties"
+  ): TypedContractMethod<
+    [arg0: string],
+    [
+      [
+        string,
+        string,
+        bigint,
+        bigint,
+        string,
+        boolean,
+        boolean,
+        boolean,
+        bigint,
+        HouseBid_FHE.AntiSnipingStructOutput,
+        HouseBid_FHE.DepositStructOutput,
+        HouseBid_FHE.AllowlistStructOutput,
+        bigint,
+        bigint,
+        bigint,
+        string,
+        string,
+        string,
+        string,
+        string,
+        string,
+        boolean,
+        boolean,
+        string,
+        bigint
+      ] & {
+        propertyId: string;
+        details: string;
+        startTime: bigint;
+        endTime: bigint;
+        seller: string;
+        isActive: boolean;
+        isPaused: boolean;
+        isCancelled: boolean;
+        auctionType: bigint;
+        antiSniping: HouseBid_FHE.AntiSnipingStructOutput;
+        deposit: HouseBid_FHE.DepositStructOutput;
+        allowlist: HouseBid_FHE.AllowlistStructOutput;
+        maxEndTime: bigint;
+        activeBidsCount: bigint;
+        foldedBidsCount: bigint;
+        highestBid: string;
+        highestBidder: string;
+        secondHighestBid: string;
+        clearingPrice: string;
+        reservePrice: string;
+        encryptedReserveMet: string;
+        winnerRevealRequested: boolean;
+        reserveMet: boolean;
+        winner: string;
+        winningAmount: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "propertyIds"
+  ): TypedContractMethod<[arg0: BigNumberish], [string], "view">;
+  getFunction(
+    nameOrSignature: "replaceBid"
+  ): TypedContractMethod<
+    [
+      propertyId: string,
+      encryptedAmount: BytesLike,
+      inputProof: BytesLike,
+      allowlistProof: BytesLike[]
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "requestWinnerReveal"
+  ): TypedContractMethod<[propertyId: string], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "resumeListing"
+  ): TypedContractMethod<[propertyId: string], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setAllowlist"
+  ): TypedContractMethod<
+    [propertyId: string, allowlist: HouseBid_FHE.AllowlistStruct],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "submitBid"
+  ): TypedContractMethod<
+    [
+      propertyId: string,
+      encryptedAmount: BytesLike,
+      inputProof: BytesLike,
+      allowlistProof: BytesLike[]
+    ],
+    [void],
+    "payable"
+  >;
+  getFunction(
+    nameOrSignature: "updateDetails"
+  ): TypedContractMethod<
+    [propertyId: string, details: string],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "withdrawBid"
+  ): TypedContractMethod<[propertyId: string], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "withdrawProceeds"
+  ): TypedContractMethod<[propertyId: string], [void], "nonpayable">;
+
+  getEvent(
+    key: "AllowlistUpdated"
+  ): TypedContractEvent<
+    AllowlistUpdatedEvent.InputTuple,
+    AllowlistUpdatedEvent.OutputTuple,
+    AllowlistUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "AuctionConcluded"
+  ): TypedContractEvent<
+    AuctionConcludedEvent.InputTuple,
+    AuctionConcludedEvent.OutputTuple,
+    AuctionConcludedEvent.OutputObject
+  >;
+  getEvent(
+    key: "BidSubmitted"
+  ): TypedContractEvent<
+    BidSubmittedEvent.InputTuple,
+    BidSubmittedEvent.OutputTuple,
+    BidSubmittedEvent.OutputObject
+  >;
+  getEvent(
+    key: "BidWithdrawn"
+  ): TypedContractEvent<
+    BidWithdrawnEvent.InputTuple,
+    BidWithdrawnEvent.OutputTuple,
+    BidWithdrawnEvent.OutputObject
+  >;
+  getEvent(
+    key: "BidsFolded"
+  ): TypedContractEvent<
+    BidsFoldedEvent.InputTuple,
+    BidsFoldedEvent.OutputTuple,
+    BidsFoldedEvent.OutputObject
+  >;
+  getEvent(
+    key: "DeadlineExtended"
+  ): TypedContractEvent<
+    DeadlineExtendedEvent.InputTuple,
+    DeadlineExtendedEvent.OutputTuple,
+    DeadlineExtendedEvent.OutputObject
+  >;
+  getEvent(
+    key: "DepositPaid"
+  ): TypedContractEvent<
+    DepositPaidEvent.InputTuple,
+    DepositPaidEvent.OutputTuple,
+    DepositPaidEvent.OutputObject
+  >;
+  getEvent(
+    key: "DepositRefunded"
+  ): TypedContractEvent<
+    DepositRefundedEvent.InputTuple,
+    DepositRefundedEvent.OutputTuple,
+    DepositRefundedEvent.OutputObject
+  >;
+  getEvent(
+    key: "DetailsUpdated"
+  ): TypedContractEvent<
+    DetailsUpdatedEvent.InputTuple,
+    DetailsUpdatedEvent.OutputTuple,
+    DetailsUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ListingCancelled"
+  ): TypedContractEvent<
+    ListingCancelledEvent.InputTuple,
+    ListingCancelledEvent.OutputTuple,
+    ListingCancelledEvent.OutputObject
+  >;
+  getEvent(
+    key: "ListingPaused"
+  ): TypedContractEvent<
+    ListingPausedEvent.InputTuple,
+    ListingPausedEvent.OutputTuple,
+    ListingPausedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ListingResumed"
+  ): TypedContractEvent<
+    ListingResumedEvent.InputTuple,
+    ListingResumedEvent.OutputTuple,
+    ListingResumedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ProceedsWithdrawn"
+  ): TypedContractEvent<
+    ProceedsWithdrawnEvent.InputTuple,
+    ProceedsWithdrawnEvent.OutputTuple,
+    ProceedsWithdrawnEvent.OutputObject
+  >;
+  getEvent(
+    key: "PropertyListed"
+  ): TypedContractEvent<
+    PropertyListedEvent.InputTuple,
+    PropertyListedEvent.OutputTuple,
+    PropertyListedEvent.OutputObject
+  >;
+  getEvent(
+    key: "PublicDecryptionVerified"
+  ): TypedContractEvent<
+    PublicDecryptionVerifiedEvent.InputTuple,
+    PublicDecryptionVerifiedEvent.OutputTuple,
+    PublicDecryptionVerifiedEvent.OutputObject
+  >;
+  getEvent(
+    key: "WinnerRevealRequested"
+  ): TypedContractEvent<
+    WinnerRevealRequestedEvent.InputTuple,
+    WinnerRevealRequestedEvent.OutputTuple,
+    WinnerRevealRequestedEvent.OutputObject
+  >;
+
+  filters: {
+    "AllowlistUpdated(string,bytes32,string,address)": TypedContractEvent<
+      AllowlistUpdatedEvent.InputTuple,
+      AllowlistUpdatedEvent.OutputTuple,
+      AllowlistUpdatedEvent.OutputObject
+    >;
+    AllowlistUpdated: TypedContractEvent<
+      AllowlistUpdatedEvent.InputTuple,
+      AllowlistUpdatedEvent.OutputTuple,
+      AllowlistUpdatedEvent.OutputObject
+    >;
+
+    "AuctionConcluded(string,address,uint32,bool)": TypedContractEvent<
+      AuctionConcludedEvent.InputTuple,
+      AuctionConcludedEvent.OutputTuple,
+      AuctionConcludedEvent.OutputObject
+    >;
+    AuctionConcluded: TypedContractEvent<
+      AuctionConcludedEvent.InputTuple,
+      AuctionConcludedEvent.OutputTuple,
+      AuctionConcludedEvent.OutputObject
+    >;
+
+    "BidSubmitted(string,address,bytes32)": TypedContractEvent<
+      BidSubmittedEvent.InputTuple,
+      BidSubmittedEvent.OutputTuple,
+      BidSubmittedEvent.OutputObject
+    >;
+    BidSubmitted: TypedContractEvent<
+      BidSubmittedEvent.InputTuple,
+      BidSubmittedEvent.OutputTuple,
+      BidSubmittedEvent.OutputObject
+    >;
+
+    "BidWithdrawn(string,address,uint256)": TypedContractEvent<
+      BidWithdrawnEvent.InputTuple,
+      BidWithdrawnEvent.OutputTuple,
+      BidWithdrawnEvent.OutputObject
+    >;
+    BidWithdrawn: TypedContractEvent<
+      BidWithdrawnEvent.InputTuple,
+      BidWithdrawnEvent.OutputTuple,
+      BidWithdrawnEvent.OutputObject
+    >;
+
+    "BidsFolded(string,uint256,uint256)": TypedContractEvent<
+      BidsFoldedEvent.InputTuple,
+      BidsFoldedEvent.OutputTuple,
+      BidsFoldedEvent.OutputObject
+    >;
+    BidsFolded: TypedContractEvent<
+      BidsFoldedEvent.InputTuple,
+      BidsFoldedEvent.OutputTuple,
+      BidsFoldedEvent.OutputObject
+    >;
+
+    "DeadlineExtended(string,uint256)": TypedContractEvent<
+      DeadlineExtendedEvent.InputTuple,
+      DeadlineExtendedEvent.OutputTuple,
+      DeadlineExtendedEvent.OutputObject
+    >;
+    DeadlineExtended: TypedContractEvent<
+      DeadlineExtendedEvent.InputTuple,
+      DeadlineExtendedEvent.OutputTuple,
+      DeadlineExtendedEvent.OutputObject
+    >;
+
+    "DepositPaid(string,address,uint256)": TypedContractEvent<
+      DepositPaidEvent.InputTuple,
+      DepositPaidEvent.OutputTuple,
+      DepositPaidEvent.OutputObject
+    >;
+    DepositPaid: TypedContractEvent<
+      DepositPaidEvent.InputTuple,
+      DepositPaidEvent.OutputTuple,
+      DepositPaidEvent.OutputObject
+    >;
+
+    "DepositRefunded(string,address,uint256)": TypedContractEvent<
+      DepositRefundedEvent.InputTuple,
+      DepositRefundedEvent.OutputTuple,
+      DepositRefundedEvent.OutputObject
+    >;
+    DepositRefunded: TypedContractEvent<
+      DepositRefundedEvent.InputTuple,
+      DepositRefundedEvent.OutputTuple,
+      DepositRefundedEvent.OutputObject
+    >;
+
+    "DetailsUpdated(string,string)": TypedContractEvent<
+      DetailsUpdatedEvent.InputTuple,
+      DetailsUpdatedEvent.OutputTuple,
+      DetailsUpdatedEvent.OutputObject
+    >;
+    DetailsUpdated: TypedContractEvent<
+      DetailsUpdatedEvent.InputTuple,
+      DetailsUpdatedEvent.OutputTuple,
+      DetailsUpdatedEvent.OutputObject
+    >;
+
+    "ListingCancelled(string)": TypedContractEvent<
+      ListingCancelledEvent.InputTuple,
+      ListingCancelledEvent.OutputTuple,
+      ListingCancelledEvent.OutputObject
+    >;
+    ListingCancelled: TypedContractEvent<
+      ListingCancelledEvent.InputTuple,
+      ListingCancelledEvent.OutputTuple,
+      ListingCancelledEvent.OutputObject
+    >;
+
+    "ListingPaused(string)": TypedContractEvent<
+      ListingPausedEvent.InputTuple,
+      ListingPausedEvent.OutputTuple,
+      ListingPausedEvent.OutputObject
+    >;
+    ListingPaused: TypedContractEvent<
+      ListingPausedEvent.InputTuple,
+      ListingPausedEvent.OutputTuple,
+      ListingPausedEvent.OutputObject
+    >;
+
+    "ListingResumed(string)": TypedContractEvent<
+      ListingResumedEvent.InputTuple,
+      ListingResumedEvent.OutputTuple,
+      ListingResumedEvent.OutputObject
+    >;
+    ListingResumed: TypedContractEvent<
+      ListingResumedEvent.InputTuple,
+      ListingResumedEvent.OutputTuple,
+      ListingResumedEvent.OutputObject
+    >;
+
+    "ProceedsWithdrawn(string,address,uint256)": TypedContractEvent<
+      ProceedsWithdrawnEvent.InputTuple,
+      ProceedsWithdrawnEvent.OutputTuple,
+      ProceedsWithdrawnEvent.OutputObject
+    >;
+    ProceedsWithdrawn: TypedContractEvent<
+      ProceedsWithdrawnEvent.InputTuple,
+      ProceedsWithdrawnEvent.OutputTuple,
+      ProceedsWithdrawnEvent.OutputObject
+    >;
+
+    "PropertyListed(string,address,uint256,uint256,uint8)": TypedContractEvent<
+      PropertyListedEvent.InputTuple,
+      PropertyListedEvent.OutputTuple,
+      PropertyListedEvent.OutputObject
+    >;
+    PropertyListed: TypedContractEvent<
+      PropertyListedEvent.InputTuple,
+      PropertyListedEvent.OutputTuple,
+      PropertyListedEvent.OutputObject
+    >;
+
+    "PublicDecryptionVerified(bytes32[],bytes)": TypedContractEvent<
+      PublicDecryptionVerifiedEvent.InputTuple,
+      PublicDecryptionVerifiedEvent.OutputTuple,
+      PublicDecryptionVerifiedEvent.OutputObject
+    >;
+    PublicDecryptionVerified: TypedContractEvent<
+      PublicDecryptionVerifiedEvent.InputTuple,
+      PublicDecryptionVerifiedEvent.OutputTuple,
+      PublicDecryptionVerifiedEvent.OutputObject
+    >;
+
+    "WinnerRevealRequested(string,bytes32,bytes32,bytes32)": TypedContractEvent<
+      WinnerRevealRequestedEvent.InputTuple,
+      WinnerRevealRequestedEvent.OutputTuple,
+      WinnerRevealRequestedEvent.OutputObject
+    >;
+    WinnerRevealRequested: TypedContractEvent<
+      WinnerRevealRequestedEvent.InputTuple,
+      WinnerRevealRequestedEvent.OutputTuple,
+      WinnerRevealRequestedEvent.OutputObject
+    >;
+  };
+}
@@ -0,0 +1,1739 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type { NonPayableOverrides } from "../common.js";
+import type { HouseBid_FHE, HouseBid_FHEInterface } from "../HouseBid_FHE.js";
+
+const _abi = [
+  {
+    inputs: [],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [],
+    name: "InvalidKMSSignatures",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "ZamaProtocolUnsupported",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "string",
+        name: "propertyId",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "bytes32",
+        name: "merkleRoot",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "proofsURI",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "address",
+        name: "registry",
+        type: "address",
+      },
+    ],
+    name: "AllowlistUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "string",
+        name: "propertyId",
+        type: "string",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "winner",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "winningAmount",
+        type: "uint32",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "reserveMet",
+        type: "bool",
+      },
+    ],
+    name: "AuctionConcluded",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "string",
+        name: "propertyId",
+        type: "string",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "bidder",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "euint32",
+        name: "encryptedAmount",
+        type: "bytes32",
+      },
+    ],
+    name: "BidSubmitted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "string",
+        name: "propertyId",
+        type: "string",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "bidder",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "bidIndex",
+        type: "uint256",
+      },
+    ],
+    name: "BidWithdrawn",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "string",
+        name: "propertyId",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "foldedBidsCount",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "bidsCount",
+        type: "uint256",
+      },
+    ],
+    name: "BidsFolded",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "string",
+        name: "propertyId",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "newEndTime",
+        type: "uint256",
+      },
+    ],
+    name: "DeadlineExtended",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "string",
+        name: "propertyId",
+        type: "string",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "bidder",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "DepositPaid",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "string",
+        name: "propertyId",
+        type: "string",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "bidder",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "DepositRefunded",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "string",
+        name: "propertyId",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "details",
+        type: "string",
+      },
+    ],
+    name: "DetailsUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "string",
+        name: "propertyId",
+        type: "string",
+      },
+    ],
+    name: "ListingCancelled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "string",
+        name: "propertyId",
+        type: "string",
+      },
+    ],
+    name: "ListingPaused",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "string",
+        name: "propertyId",
+        type: "string",
+      },
+    ],
+    name: "ListingResumed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "string",
+        name: "propertyId",
+        type: "string",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "seller",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "ProceedsWithdrawn",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "string",
+        name: "propertyId",
+        type: "string",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "seller",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "startTime",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "endTime",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "enum HouseBid_FHE.AuctionType",
+        name: "auctionType",
+        type: "uint8",
+      },
+    ],
+    name: "PropertyListed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "bytes32[]",
+        name: "handlesList",
+        type: "bytes32[]",
+      },
+      {
+        indexed: false,
+        internalType: "bytes",
+        name: "abiEncodedCleartexts",
+        type: "bytes",
+      },
+    ],
+    name: "PublicDecryptionVerified",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "string",
+        name: "propertyId",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "ebool",
+        name: "reserveMet",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "euint32",
+        name: "clearingPrice",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "eaddress",
+        name: "highestBidder",
+        type: "bytes32",
+      },
+    ],
+    name: "WinnerRevealRequested",
+    type: "event",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "propertyId",
+        type: "string",
+      },
+    ],
+    name: "cancelListing",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "propertyId",
+        type: "string",
+      },
+    ],
+    name: "claimRefund",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "confidentialProtocolId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "propertyId",
+        type: "string",
+      },
+      {
+        internalType: "bytes",
+        name: "abiEncodedClearValues",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "decryptionProof",
+        type: "bytes",
+      },
+    ],
+    name: "determineWinner",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "propertyId",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "maxCount",
+        type: "uint256",
+      },
+    ],
+    name: "foldBids",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "propertyId",
+        type: "string",
+      },
+      {
+        internalType: "address",
+        name: "bidder",
+        type: "address",
+      },
+    ],
+    name: "getActiveBidIndex",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "propertyId",
+        type: "string",
+      },
+    ],
+    name: "getActiveBidsCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getAllPropertyIds",
+    outputs: [
+      {
+        internalType: "string[]",
+        name: "",
+        type: "string[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "propertyId",
+        type: "string",
+      },
+    ],
+    name: "getAllowlist",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "bytes32",
+            name: "merkleRoot",
+            type: "bytes32",
+          },
+          {
+            internalType: "string",
+            name: "proofsURI",
+            type: "string",
+          },
+          {
+            internalType: "address",
+            name: "registry",
+            type: "address",
+          },
+        ],
+        internalType: "struct HouseBid_FHE.Allowlist",
+        name: "",
+        type: "tuple",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "propertyId",
+        type: "string",
+      },
+    ],
+    name: "getAntiSniping",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "uint256",
+            name: "window",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "extension",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "maxExtension",
+            type: "uint256",
+          },
+        ],
+        internalType: "struct HouseBid_FHE.AntiSniping",
+        name: "",
+        type: "tuple",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "propertyId",
+        type: "string",
+      },
+    ],
+    name: "getAuctionResult",
+    outputs: [
+      {
+        internalType: "euint32",
+        name: "",
+        type: "bytes32",
+      },
+      {
+        internalType: "eaddress",
+        name: "",
+        type: "bytes32",
+      },
+      {
+        internalType: "ebool",
+        name: "",
+        type: "bytes32",
+      },
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "propertyId",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "bidIndex",
+        type: "uint256",
+      },
+    ],
+    name: "getBid",
+    outputs: [
+      {
+        internalType: "euint32",
+        name: "",
+        type: "bytes32",
+      },
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "propertyId",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "offset",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "limit",
+        type: "uint256",
+      },
+    ],
+    name: "getBids",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "euint32",
+            name: "encryptedAmount",
+            type: "bytes32",
+          },
+          {
+            internalType: "address",
+            name: "bidder",
+            type: "address",
+          },
+          {
+            internalType: "uint256",
+            name: "timestamp",
+            type: "uint256",
+          },
+          {
+            internalType: "bool",
+            name: "isActive",
+            type: "bool",
+          },
+        ],
+        internalType: "struct HouseBid_FHE.Bid[]",
+        name: "bids",
+        type: "tuple[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "propertyId",
+        type: "string",
+      },
+    ],
+    name: "getBidsCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "propertyId",
+        type: "string",
+      },
+    ],
+    name: "getDeposit",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "address",
+            name: "token",
+            type: "address",
+          },
+          {
+            internalType: "uint256",
+            name: "amount",
+            type: "uint256",
+          },
+        ],
+        internalType: "struct HouseBid_FHE.Deposit",
+        name: "",
+        type: "tuple",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "propertyId",
+        type: "string",
+      },
+      {
+        internalType: "address",
+        name: "bidder",
+        type: "address",
+      },
+    ],
+    name: "getEscrow",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "uint256",
+            name: "amount",
+            type: "uint256",
+          },
+          {
+            internalType: "bool",
+            name: "settled",
+            type: "bool",
+          },
+        ],
+        internalType: "struct HouseBid_FHE.Escrow",
+        name: "",
+        type: "tuple",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "propertyId",
+        type: "string",
+      },
+    ],
+    name: "getFoldProgress",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "propertyId",
+        type: "string",
+      },
+    ],
+    name: "getListingStatus",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "isPaused",
+        type: "bool",
+      },
+      {
+        internalType: "bool",
+        name: "isCancelled",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string[]",
+        name: "ids",
+        type: "string[]",
+      },
+    ],
+    name: "getPropertiesSummary",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "string",
+            name: "propertyId",
+            type: "string",
+          },
+          {
+            internalType: "string",
+            name: "details",
+            type: "string",
+          },
+          {
+            internalType: "address",
+            name: "seller",
+            type: "address",
+          },
+          {
+            internalType: "uint256",
+            name: "startTime",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "endTime",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "maxEndTime",
+            type: "uint256",
+          },
+          {
+            internalType: "bool",
+            name: "isActive",
+            type: "bool",
+          },
+          {
+            internalType: "bool",
+            name: "isPaused",
+            type: "bool",
+          },
+          {
+            internalType: "bool",
+            name: "isCancelled",
+            type: "bool",
+          },
+          {
+            internalType: "enum HouseBid_FHE.AuctionType",
+            name: "auctionType",
+            type: "uint8",
+          },
+          {
+            components: [
+              {
+                internalType: "uint256",
+                name: "window",
+                type: "uint256",
+              },
+              {
+                internalType: "uint256",
+                name: "extension",
+                type: "uint256",
+              },
+              {
+                internalType: "uint256",
+                name: "maxExtension",
+                type: "uint256",
+              },
+            ],
+            internalType: "struct HouseBid_FHE.AntiSniping",
+            name: "antiSniping",
+            type: "tuple",
+          },
+          {
+            components: [
+              {
+                internalType: "address",
+                name: "token",
+                type: "address",
+              },
+              {
+                internalType: "uint256",
+                name: "amount",
+                type: "uint256",
+              },
+            ],
+            internalType: "struct HouseBid_FHE.Deposit",
+            name: "deposit",
+            type: "tuple",
+          },
+          {
+            components: [
+              {
+                internalType: "bytes32",
+                name: "merkleRoot",
+                type: "bytes32",
+              },
+              {
+                internalType: "string",
+                name: "proofsURI",
+                type: "string",
+              },
+              {
+                internalType: "address",
+                name: "registry",
+                type: "address",
+              },
+            ],
+            internalType: "struct HouseBid_FHE.Allowlist",
+            name: "allowlist",
+            type: "tuple",
+          },
+          {
+            internalType: "uint256",
+            name: "bidsCount",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "activeBidsCount",
+            type: "uint256",
+          },
+          {
+            internalType: "euint32",
+            name: "clearingPrice",
+            type: "bytes32",
+          },
+          {
+            internalType: "eaddress",
+            name: "highestBidder",
+            type: "bytes32",
+          },
+          {
+            internalType: "ebool",
+            name: "encryptedReserveMet",
+            type: "bytes32",
+          },
+          {
+            internalType: "bool",
+            name: "winnerRevealRequested",
+            type: "bool",
+          },
+          {
+            internalType: "bool",
+            name: "reserveMet",
+            type: "bool",
+          },
+          {
+            internalType: "address",
+            name: "winner",
+            type: "address",
+          },
+          {
+            internalType: "uint32",
+            name: "winningAmount",
+            type: "uint32",
+          },
+        ],
+        internalType: "struct HouseBid_FHE.PropertySummary[]",
+        name: "summaries",
+        type: "tuple[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "propertyId",
+        type: "string",
+      },
+    ],
+    name: "getPropertyDetails",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+      {
+        internalType: "enum HouseBid_FHE.AuctionType",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "offset",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "limit",
+        type: "uint256",
+      },
+    ],
+    name: "getPropertyIds",
+    outputs: [
+      {
+        internalType: "string[]",
+        name: "",
+        type: "string[]",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "propertyId",
+        type: "string",
+      },
+    ],
+    name: "getReservePrice",
+    outputs: [
+      {
+        internalType: "euint32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "seller",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "offset",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "limit",
+        type: "uint256",
+      },
+    ],
+    name: "getSellerPropertyIds",
+    outputs: [
+      {
+        internalType: "string[]",
+        name: "",
+        type: "string[]",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "isAvailable",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "propertyId",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "details",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "duration",
+        type: "uint256",
+      },
+      {
+        internalType: "enum HouseBid_FHE.AuctionType",
+        name: "auctionType",
+        type: "uint8",
+      },
+      {
+        components: [
+          {
+            internalType: "uint256",
+            name: "window",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "extension",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "maxExtension",
+            type: "uint256",
+          },
+        ],
+        internalType: "struct HouseBid_FHE.AntiSniping",
+        name: "antiSniping",
+        type: "tuple",
+      },
+      {
+        components: [
+          {
+            internalType: "address",
+            name: "token",
+            type: "address",
+          },
+          {
+            internalType: "uint256",
+            name: "amount",
+            type: "uint256",
+          },
+        ],
+        internalType: "struct HouseBid_FHE.Deposit",
+        name: "deposit",
+        type: "tuple",
+      },
+      {
+        components: [
+          {
+            internalType: "bytes32",
+            name: "merkleRoot",
+            type: "bytes32",
+          },
+          {
+            internalType: "string",
+            name: "proofsURI",
+            type: "string",
+          },
+          {
+            internalType: "address",
+            name: "registry",
+            type: "address",
+          },
+        ],
+        internalType: "struct HouseBid_FHE.Allowlist",
+        name: "allowlist",
+        type: "tuple",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "encryptedReservePrice",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "listProperty",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "propertyId",
+        type: "string",
+      },
+    ],
+    name: "pauseListing",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    name: "properties",
+    outputs: [
+      {
+        internalType: "string",
+        name: "propertyId",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "details",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "startTime",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "endTime",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "seller",
+        type: "address",
+      },
+      {
+        internalType: "bool",
+        name: "isActive",
+        type: "bool",
+      },
+      {
+        internalType: "bool",
+        name: "isPaused",
+        type: "bool",
+      },
+      {
+        internalType: "bool",
+        name: "isCancelled",
+        type: "bool",
+      },
+      {
+        internalType: "enum HouseBid_FHE.AuctionType",
+        name: "auctionType",
+        type: "uint8",
+      },
+      {
+        components: [
+          {
+            internalType: "uint256",
+            name: "window",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "extension",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "maxExtension",
+            type: "uint256",
+          },
+        ],
+        internalType: "struct HouseBid_FHE.AntiSniping",
+        name: "antiSniping",
+        type: "tuple",
+      },
+      {
+        components: [
+          {
+            internalType: "address",
+            name: "token",
+            type: "address",
+          },
+          {
+            internalType: "uint256",
+            name: "amount",
+            type: "uint256",
+          },
+        ],
+        internalType: "struct HouseBid_FHE.Deposit",
+        name: "deposit",
+        type: "tuple",
+      },
+      {
+        components: [
+          {
+            internalType: "bytes32",
+            name: "merkleRoot",
+            type: "bytes32",
+          },
+          {
+            internalType: "string",
+            name: "proofsURI",
+            type: "string",
+          },
+          {
+            internalType: "address",
+            name: "registry",
+            type: "address",
+          },
+        ],
+        internalType: "struct HouseBid_FHE.Allowlist",
+        name: "allowlist",
+        type: "tuple",
+      },
+      {
+        internalType: "uint256",
+        name: "maxEndTime",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "activeBidsCount",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "foldedBidsCount",
+        type: "uint256",
+      },
+      {
+        internalType: "euint32",
+        name: "highestBid",
+        type: "bytes32",
+      },
+      {
+        internalType: "eaddress",
+        name: "highestBidder",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "secondHighestBid",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "clearingPrice",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "reservePrice",
+        type: "bytes32",
+      },
+      {
+        internalType: "ebool",
+        name: "encryptedReserveMet",
+        type: "bytes32",
+      },
+      {
+        internalType: "bool",
+        name: "winnerRevealRequested",
+        type: "bool",
+      },
+      {
+        internalType: "bool",
+        name: "reserveMet",
+        type: "bool",
+      },
+      {
+        internalType: "address",
+        name: "winner",
+        type: "address",
+      },
+      {
+        internalType: "uint32",
+        name: "winningAmount",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "propertyIds",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "propertyId",
+        type: "string",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "encryptedAmount",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes32[]",
+        name: "allowlistProof",
+        type: "bytes32[]",
+      },
+    ],
+    name: "replaceBid",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "propertyId",
+        type: "string",
+      },
+    ],
+    name: "requestWinnerReveal",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "propertyId",
+        type: "string",
+      },
+    ],
+    name: "resumeListing",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "propertyId",
+        type: "string",
+      },
+      {
+        components: [
+          {
+            internalType: "bytes32",
+            name: "merkleRoot",
+            type: "bytes32",
+          },
+          {
+            internalType: "string",
+            name: "proofsURI",
+            type: "string",
+          },
+          {
+            internalType: "address",
+            name: "registry",
+            type: "address",
+          },
+        ],
+        internalType: "struct HouseBid_FHE.Allowlist",
+        name: "allowlist",
+        type: "tuple",
+      },
+    ],
+    name: "setAllowlist",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "propertyId",
+        type: "string",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "encryptedAmount",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes32[]",
+        name: "allowlistProof",
+        type: "bytes32[]",
+      },
+    ],
+    name: "submitBid",
+    outputs: [],
+    stateMutability: "payable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "propertyId",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "details",
+        type: "string",
+      },
+    ],
+    name: "updateDetails",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "propertyId",
+        type: "string",
+      },
+    ],
+    name: "withdrawBid",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "propertyId",
+        type: "string",
+      },
+    ],
+    name: "withdrawProceeds",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x60406080815234620001e257620000156200021a565b5046600103620000f357620000296200021a565b5062000034620001e6565b5f81525f60208201525f828201525b80517f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970080546001600160a01b03199081166001600160a01b039384161790915560208301517f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970180548316918416919091179055918301517f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970280549093169116179055516149689081620002378239f35b4662aa36a7036200016357620001086200021a565b5062000113620001e6565b73f0ffdc93b7e186bc2f8cb3daa75d86d1930a433d81527392c920834ec8941d2c77d188936e1f7a6f49c127602082015273be0e383937d564d7ff0bc3b46c51f0bf8d5c311a8282015262000043565b46617a6903620001d257620001776200021a565b5062000182620001e6565b7350157cffd6bbfa2dece204a89ec419c23ef5755d815273e3a9105a3a932253a70f126eb1e3b589c643dd24602082015273be0e383937d564d7ff0bc3b46c51f0bf8d5c311a8282015262000043565b516373cac13b60e01b8152600490fd5b5f80fd5b60405190606082016001600160401b038111838210176200020657604052565b634e487b7160e01b5f52604160045260245ffd5b62000224620001e6565b905f82525f60208301525f604083015256fe610120806040526004361015610013575f80fd5b5f3560e01c90816335991e9b14612de6575080633692864d14612d00578063375b88d214612c2e578063399586c114612a8857806339f6f9c914612a235780633c84ec49146129a75780633caf15741461294a5780633ea7f815146129135780634e3347bc146125dc5780634e8b87fe146124c35780634ff69e831461243057806353b70701146123605780635b4a3dbc146120885780635befb49b14611fc157806363543db914611f8a57806367281dc514611f435780636b0e972b1461150e5780637542874b1461148f5780637698d3ff14611404578063781775031461135b578063856c71dd146113405780638927b0301461131e578063943f2261146112955780639be8f2a6146110105780639e25249e14610fcb578063a59f715c14610f60578063a97ce3c214610e08578063ac1bc7e814610d54578063ad86004914610c51578063cd8b7cc7146107b1578063d03b47f41461074d578063d20747a8146106cb578063dc5de44f1461065a578063e77c3d83146105a2578063e9de69fe146102135763f569fc46146101a9575f80fd5b3461020f57602036600319011261020f576004356001600160401b03811161020f57600460206101de60409336908401612f80565b9190828551938492833781015f815203019020015460ff825191818160a81c161515835260b01c1615156020820152f35b5f80fd5b3461020f576060600319818136011261020f576001600160401b039160043583811161020f57610247903690600401612f80565b92909360243581811161020f5761026290369060040161324e565b9060443590811161020f5761027b90369060040161324e565b91610286858761415b565b92600f840154610306575b60048401805460ff60a01b1916905560178401546040518088808b833781015f81520390207f1b12d32485a945a79962028e80ee540efbd4ca295c78af0ef11db107d516e7f1604080519363ffffffff8160b01c16855260ff8160081c161515602086015260018060a01b039060101c1693a3005b601784019060ff8254161561055d576040516103218161315c565b60038152602091873684840137601687015461033c836134ac565b526014870154825160011015610549576040830152601287015482516002101561054957828901527f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649702546040516378542ead60e01b8152600481018a90526001600160a01b03969092859284929089169183915f9183916103e7916103d88f6103c8606487018e6146b7565b9084878303016024880152613067565b91848303016044850152613067565b03925af190811561053e575f91610509575b50156104f75761043b7fc6366bab028b8d033cb362cfd1f2f3457ef4e92fc738b6788b90d5a7846367a0916104486040519283926040845260408401906146b7565b8281038684015288613067565b0390a1858480518101031261020f57610462908401613815565b9460408401519363ffffffff8516850361020f57015191821680920361020f576104c86104ef936104a8601797849061ff00825491151560081b169061ff001916179055565b825463ffffffff60b01b191660b09190911b63ffffffff60b01b16178255565b805462010000600160b01b03191660109290921b62010000600160b01b0316919091179055565b848080610291565b60405163cf6c44e960e01b8152600490fd5b90508281813d8311610537575b61052081836131dc565b8101031261020f5761053190613815565b8a6103f9565b503d610516565b6040513d5f823e3d90fd5b634e487b7160e01b5f52603260045260245ffd5b60405162461bcd60e51b815260206004820152601b60248201527f57696e6e65722072657665616c206e6f742072657175657374656400000000006044820152606490fd5b3461020f57602036600319011261020f576004356001600160401b03811161020f5760206105d761061f923690600401612f80565b919082604051938492833781015f815203019020600481015461065660028301549161060a6001600386015495016132a4565b9360405195869560c0875260c0870190613067565b9360018060a01b03831660208701526040860152606085015260ff8160a01c161515608085015260ff60a085019160b81c166133cd565b0390f35b3461020f57602036600319011261020f576004356001600160401b03811161020f576106b7600a6020610694610656943690600401612f80565b919061069e6137df565b5082604051938492833781015f81520301902001613395565b6040519182916020835260208301906133da565b3461020f57602036600319011261020f576004356001600160401b03811161020f5761072f600860206107046040943690600401612f80565b91905f82875161071381613177565b8281520152828651938492833781015f8152030190200161336e565b815181516001600160a01b0316815260209182015191810191909152f35b3461020f57602036600319011261020f5760043560015481101561020f5761079d6106569160015f527fb10e2d527612073b26eecdfd717e6a320cf44b4afac2b0732d9fcbe2b7fa0cf6016132a4565b604051918291602083526020830190613067565b3461020f57602036600319011261020f576004356001600160401b03811161020f576107e1903690600401612fad565b6107ea8161346f565b906107f860405192836131dc565b8082526108048161346f565b601f19015f5b818110610b875750505f5b8181106109e657826040518091602082016020835281518091526040830190602060408260051b8601019301915f905b82821061085457505050500390f35b919360019193955060208091603f1989820301855287519061030063ffffffff61089b61088b610320865190808752860190613067565b8686015185820388870152613067565b604085015194888060a01b038096166040860152606080820151908601526080808201519086015260a0808201519086015260c08082015115159086015260e0810151151560e08601526101008082015115159086015261090561012080830151908701906133cd565b61092c61014080830151908701906040809180518452602081015160208501520151910152565b61016081015180516001600160a01b03166101a0878101919091526020909101516101c08701529561096e610180830151936101e094888203868a01526133da565b9682015161020090818801526101c0830151936102209485890152830151906102409182890152830151936102609485890152830151906102809182890152830151936102a09415158589015283015115156102c0880152820151166102e08601520151169101529601920192018594939192610845565b6109f18183866137fe565b9081604051928392833781015f8152036020019020610a118284876137fe565b916004810154600282015491600381015491600d82015491600e81015490600f8101549260148201549460128301549660168401549860178501549a6040519c610a5a8e6131ad565b3690610a6592613218565b8c52610a73600186016132a4565b60208d0152600160a01b60019003841660408d015260608c015260808b015260a08a01528060a01c60ff16151560c08a01528060a81c60ff16151560e08a01528060b01c60ff1615156101008a015260b81c60ff16610120890190610ad791613754565b610ae360058201613346565b610140890152610af56008820161336e565b610160890152600a01610b0790613395565b6101808801526101a08701526101c08601526101e085015261020084015261022083015260ff811615156102408301528060081c60ff161515610260830152600160a01b600190038160101c1661028083015260b01c63ffffffff166102a0820152610b7382856134b9565b52610b7e81846134b9565b50600101610815565b602090604051610b96816131ad565b5f606080835280858401528160408401528201525f60808201525f60a08201525f60c08201525f60e08201525f6101008201525f610120820152610bd86137c1565b610140820152604051610bea81613177565b5f81525f84820152610160820152610c006137df565b6101808201525f6101a08201525f6101c08201525f6101e08201525f6102008201525f6102208201525f6102408201525f6102608201525f6102808201525f6102a08201528282870101520161080a565b3461020f5760608060031936011261020f576004356001600160a01b038116919082900361020f57602435825f52602090600260205260405f2091610c9a604435838554613822565b93610ca48561346f565b94610cb260405196876131dc565b808652610cc1601f199161346f565b01905f5b828110610d4557505050505f5b8351811015610d165780610cfa610cf4610cee60019486613486565b86613442565b506132a4565b610d0482876134b9565b52610d0f81866134b9565b5001610cd2565b610d3b84865f52600260205260405f205460405192839260408452604084019061308c565b9060208301520390f35b80828580938a01015201610cc5565b3461020f57604036600319011261020f576001600160401b0360043581811161020f57610d85903690600401612f80565b919060243591821161020f57610dc07f0c6d040b41f1b32f1be462599d2eb2241c7d29dce2d69dbcef94c98ad63ba7d9923690600401612f80565b939091610dda85846001610dd48686614465565b0161365a565b81604051928392833781015f815203902092610e03604051928392602084526020840191613734565b0390a2005b3461020f57602036600319011261020f576004356001600160401b03811161020f57610e38903690600401612f80565b9060055491610e4a60ff8416156134cd565b60ff19928316600117600555610e608183614267565b60048101546001600160a01b039081163303610f0d57601782015460101c16908115610edc57610e9391339184866142de565b9181604051928392833781015f81520390206040519182527f7e296c9aa3577646b68b2ff9d870129b2a8e8ca4fafe467fb62338fb4a13e2ba60203393a3600554166005555f80f35b60405162461bcd60e51b81526020600482015260096024820152682737903bb4b73732b960b91b6044820152606490fd5b60405162461bcd60e51b815260206004820152602560248201527f4f6e6c79207468652073656c6c65722063616e2077697468647261772070726f604482015264636565647360d81b6064820152608490fd5b3461020f576080610f926020600e610f773661312a565b93909182604051938492833781015f81520301902001613493565b5080549060018060a01b036001820154169060ff6003600283015492015416916040519384526020840152604083015215156060820152f35b3461020f57602036600319011261020f576004356001600160401b03811161020f57610ffe61100e913690600401612f80565b6110088183613851565b9161406c565b005b3461020f57602036600319011261020f576004356001600160401b03811161020f5761104090369060040161324e565b604051818180935160208193019161105792613046565b81015f815203602001902061106b816132a4565b90611078600182016132a4565b60e05260028101549160038201546101005260048201546005830161109c90613346565b6110a86008850161336e565b6110b4600a8601613395565b95600d86015460a052600f8601549660108701549060118801549260128901549460138a01549660148b01549860158c01549a60168d01549c6017015460805260405160c0526103808060c0515260c0510161110f91613067565b60c051810360c0516020015260e0519061112891613067565b9360c051604001526101005160c05160600152600160a01b60019003811660c051608001528060a01c60ff16151560c05160a001528060a81c60ff16151560c05160c001528060b01c60ff16151560c05160e0015260c051610100019060b81c60ff1690611195916133cd565b60c051610120016111b9916040809180518452602081015160208501520151910152565b60c05181516001600160a01b03166101808201526020909101516101a09091015260c051810360c0516101c001526111f0916133da565b9760a05160c0516101e0015260c051610200015260c051610220015260c051610240015260c051610260015260c051610280015260c0516102a0015260c0516102c0015260c0516102e0015260805160ff16151560c051610300015260805160081c60ff16151560c0516103200152600160a01b6001900360805160101c1660c051610340015260805160b01c63ffffffff1660c051610360015260c051900360c051f35b3461020f57602036600319011261020f576004356001600160401b03811161020f576112c5903690600401612f80565b9060046112d28383614465565b01805462ff00ff60a01b1916600160b01b1790556040519182918190833781015f81520390207fff1b3c121274b35b78cfc6a06d69993757efa24b0a666779050b1266aade87c65f80a2005b3461020f575f36600319011261020f576020611338614688565b604051908152f35b3461020f575f36600319011261020f57602060405160018152f35b3461020f57602036600319011261020f576004356001600160401b03811161020f57602061138f60e0923690600401612f80565b919082604051938492833781015f81520301902063ffffffff60148201549160128101549060176016820154910154916040519485526020850152604084015260ff81161515606084015260ff8160081c161515608084015260018060a01b038160101c1660a084015260b01c1660c0820152f35b3461020f57602036600319011261020f576004356001600160401b03811161020f5760206114386080923690600401612f80565b91906114426137c1565b5082604051938492833781015f8152030190206114666005600d8301549201613346565b9061148860405180936040809180518452602081015160208501520151910152565b6060820152f35b3461020f57602061149f366130e8565b929091826040519384928337810160038152030190209060018060a01b03165f5260205260405f205480155f146114e4575060405f805b825191151582526020820152f35b5f1981019081116114fa576040906001906114d6565b634e487b7160e01b5f52601160045260245ffd5b3461020f576003196101803682011261020f576004356001600160401b03811161020f57611540903690600401612f80565b906024356001600160401b03811161020f57611560903690600401612f80565b936002606435101561020f57606036608319011261020f5760403660e319011261020f576001600160401b03610124351161020f57606090610124353603011261020f57610164356001600160401b03811161020f576115c4903690600401612f80565b94908415611f075760443515611ece576115f3604051868682375f87820152602081888101030190205461326c565b611e895761161261161b9161160a60443542613486565b973691613218565b61014435613deb565b908115611e445761162c308361483d565b611636338361483d565b61164260c43587613486565b604051918260208101106001600160401b03602085011117611c4957602083016040525f835260405194856103408101106001600160401b0361034088011117611c49576116a691610340870160405261169d368a8a613218565b87523691613218565b6020850152426040850152866060850152336080850152600160a08501525f60c08501525f60e08501526116e06064356101008601613754565b6040516116ec81613192565b608435815260a435602082015260c435604082015261012085015260405161171381613177565b60e4356001600160a01b038116900361020f5760e435815261010435602082015261014085015260405161174681613192565b6101243560040135815260246101243501356001600160401b03811161020f57611779906004369161012435010161324e565b602082015261012435604401356001600160a01b038116810361020f5760408201526101608501526101808401526101a08301525f6101c08301525f6101e08301525f6102008301525f6102208301525f6102408301525f6102608301526102808201525f6102a08201525f6102c08201525f6102e08201525f6103008201525f610320820152604051838382376020818581015f81520301902081518051906001600160401b038211611c495761183b82611835855461326c565b8561360b565b602090601f8311600114611ddc5761186a92915f9183611d63575b50508160011b915f199060031b1c19161790565b81555b60208201518051906001600160401b038211611c495761189d82611894600186015461326c565b6001860161360b565b602090601f8311600114611d6e576118cb92915f9183611d635750508160011b915f199060031b1c19161790565b60018201555b604082015160028201556060820151600382015560018060a01b0360808301511660048201549060ff60a01b60a0850151151560a01b1660ff60a81b60c0860151151560a81b169060ff60b01b60e0870151151560b01b16926101008701516002811015611d4f5760ff60b81b9060b81b16946001600160401b0360c01b161717171717600482015560406101208301518051600584015560208101516006840155015160078201556020600882016101408401519060018060a01b038251166bffffffffffffffffffffffff60a01b825416179055015160098201556101608201518051600a83015560208101518051906001600160401b038211611c49576119eb826119e2600b87015461326c565b600b870161360b565b602090601f8311600114611ce157611a1992915f9183611cd65750508160011b915f199060031b1c19161790565b600b8301555b60400151600c820180546001600160a01b0319166001600160a01b0392909216919091179055610180820151600d8201556101a0820151805190600160401b8211611c4957600e83015482600e850155808310611c7b575b50602001600e83015f5260205f205f915b838310611c5d57505050509063ffffffff6103206017611b7c946101c0850151600f8201556101e08501516010820155610200850151601182015561022085015160128201556102408501516013820155610260850151601482015561028085015160158201556102a085015160168201550192611b196102c08201511515859060ff801983541691151516179055565b6102e0810151845461ff00191690151560081b61ff0016178455610300810151845462010000600160b01b03191660109190911b62010000600160b01b03161784550151825463ffffffff60b01b1916911660b01b63ffffffff60b01b16179055565b600154600160401b811015611c4957806001611b9b920160015561340d565b611c36578282611baa9261365a565b335f52600260205260405f208054600160401b811015611c4957611bd391600182018155613442565b611c36578282611be29261365a565b81604051928392833781015f8152039020604051914283526020830152611c0e604083016064356133cd565b7f528501074e464e019924e14148a490d3054ce8b65c9a4a309f51cc97182fc3ae60603393a3005b634e487b7160e01b5f525f60045260245ffd5b634e487b7160e01b5f52604160045260245ffd5b6004602082611c6f6001945186613760565b01920192019190611a88565b6001600160fe1b0381811682036114fa57831683036114fa57600e84015f5260205f208360021b81015b8260021b82018110611cb8575050611a77565b805f600492555f60018201555f60028201555f600382015501611ca5565b015190508980611856565b9190600b85015f5260205f20905f935b601f1984168510611d34576001945083601f19811610611d1c575b505050811b01600b830155611a1f565b01515f1960f88460031b161c19169055888080611d0c565b81810151835560209485019460019093019290910190611cf1565b634e487b7160e01b5f52602160045260245ffd5b015190508880611856565b9190600184015f5260205f20905f935b601f1984168510611dc1576001945083601f19811610611da9575b505050811b0160018201556118d1565b01515f1960f88460031b161c19169055878080611d99565b81810151835560209485019460019093019290910190611d7e565b9190835f5260205f20905f935b601f1984168510611e29576001945083601f19811610611e11575b505050811b01815561186d565b01515f1960f88460031b161c19169055878080611e04565b81810151835560209485019460019093019290910190611de9565b60405162461bcd60e51b815260206004820152601f60248201527f496e76616c696420656e637279707465642072657365727665207072696365006044820152606490fd5b60405162461bcd60e51b815260206004820152601760248201527f50726f706572747920616c7265616479206c69737465640000000000000000006044820152606490fd5b60405162461bcd60e51b8152602060048201526011602482015270111d5c985d1a5bdb881c995c5d5a5c9959607a1b6044820152606490fd5b60405162461bcd60e51b8152602060048201526014602482015273141c9bdc195c9d1e481a59081c995c5d5a5c995960621b6044820152606490fd5b3461020f57602036600319011261020f576004356001600160401b03811161020f57600e611f80611f7a6020933690600401612f80565b90613457565b0154604051908152f35b3461020f57602036600319011261020f576004356001600160401b03811161020f576015611f80611f7a6020933690600401612f80565b3461020f57602036600319011261020f576004356001600160401b03811161020f57611ff1903690600401612f80565b906004611ffe8383614465565b01805460ff8160a81c161561204e5760ff60a81b191690556040519182918190833781015f81520390207fa73ad1d854a5f497acdca3599ee8095783873183bd955e50e35915569602357f5f80a2005b60405162461bcd60e51b8152602060048201526012602482015271131a5cdd1a5b99c81b9bdd081c185d5cd95960721b6044820152606490fd5b3461020f5760208060031936011261020f576004356001600160401b03811161020f576120b9903690600401612f80565b906120c4828261415b565b600f81015415612327576010810154600e820154036122f05760178101805460ff81166122ab5760019060ff1916179055601181019182546015830194868654831561229b575b801561228d575b606460018060a01b035f8051602061493c8339815191525416945f6040519687948593631391547f60e01b8552600485015260248401528160448401525af191821561053e575f9261225e575b5060ff600485015460b81c16946002861015611d4f577f3bc8fcef9c4bf51f55a12a39b098128da7baac4d0794f56ef088c75bffa8cfcf96606096600103612257576121b39150601386015490549061454d565b6121ec60126121d260168801938685556121cb6146fa565b9087614600565b9660148101978855019384546121e661474c565b91614647565b83556121fa8154309061483d565b61220530865461483d565b61221030845461483d565b61221a81546148ba565b61222485546148ba565b61222e83546148ba565b54935491549281604051928392833781015f8152039020956040519384528301526040820152a2005b50546121b3565b9091508681813d8311612286575b61227681836131dc565b8101031261020f5751908761215f565b503d61226c565b506122966146fa565b612112565b92506122a56146fa565b9261210b565b60405162461bcd60e51b815260048101879052601f60248201527f57696e6e65722072657665616c20616c726561647920726571756573746564006044820152606490fd5b60405162461bcd60e51b815260048101859052600f60248201526e109a591cc81b9bdd08199bdb191959608a1b6044820152606490fd5b60405162461bcd60e51b8152600481018590526011602482015270139bc8189a591cc81d1bc81c995d99585b607a1b6044820152606490fd5b3461020f57602036600319011261020f576004356001600160401b03811161020f57612390903690600401612f80565b90600461239d8383614465565b01805460ff8160a81c166123f25760ff60a81b1916600160a81b1790556040519182918190833781015f81520390207f40a1dd96f9a3eab7be8a5c8b2293b00b3e32d664e4e430d96d0cd68a8dc39df85f80a2005b60405162461bcd60e51b8152602060048201526016602482015275131a5cdd1a5b99c8185b1c9958591e481c185d5cd95960521b6044820152606490fd5b3461020f575f36600319011261020f576001805461244d8161346f565b9061245b60405192836131dc565b80825260015f90815260207fb10e2d527612073b26eecdfd717e6a320cf44b4afac2b0732d9fcbe2b7fa0cf68185015b8484106124a857604051602080825281906106569082018961308c565b868381926124b5856132a4565b81520192019301929061248b565b3461020f57602036600319011261020f576004356001600160401b03811161020f576124f3903690600401612f80565b906005549161250560ff8416156134cd565b60ff1992831660011760055561251b8183614267565b60178101543360109190911c6001600160a01b03161461258d57612544903390339084866142de565b9181604051928392833781015f81520390206040519182527f63927611f26314a3a601a2fbe97932047c942b0aed992e1464c7de624c878d8760203393a3600554166005555f80f35b60405162461bcd60e51b815260206004820152602160248201527f57696e6e6572206465706f73697420676f657320746f207468652073656c6c656044820152603960f91b6064820152608490fd5b3461020f576125ea3661312a565b906125f5818461415b565b9160108301805493600e8101928354808710156128dc5781156128a557612626918761262092613822565b86613486565b945b85811061267957867fd81e183ff7af7a9dd037320b7e5193dcc19be672d6148508ae921d706f7d9f8460408888888289555494818451928392833781015f81520390209382519182526020820152a2005b6126838185613493565b509060ff8060038401541661269e575b506001915001612628565b82549260018060a01b0393846001809301541692600487015460b81c16916002831015611d4f575f9214925f8051602061493c8339815191529580875416604051978893639cd07acb60e01b855260048501526024916007838601526020948591816044998a925af198891561053e575f99612876575b5060118a019586549384155f146127875750505050505090826001956127499383556012880155612775575b54309061483d565b61275730601286015461483d565b612762575b88612693565b61277030601385015461483d565b61275c565b61277d6146fa565b6013870155612741565b9160649186979694938792881561285d575b5f9291839154169160405198899788966385362ee760e01b885260048801528601528401525af192831561053e575f93612827575b5050946127fd61274993926127ee60019887612804575b85549083614600565b84556012890192835491614647565b9055612741565b855461282060138d019161281984845461454d565b9086614600565b90556127e5565b90809792949350813d8311612856575b61284181836131dc565b8101031261020f57945190916127fd846127ce565b503d612837565b9250905f809261286b6146fa565b949150919250612799565b9098508381813d831161289e575b61288e81836131dc565b8101031261020f5751978f612715565b503d612884565b60405162461bcd60e51b815260206004820152600f60248201526e139bdd1a1a5b99c81d1bc8199bdb19608a1b6044820152606490fd5b60405162461bcd60e51b815260206004820152600f60248201526e105b1b08189a591cc8199bdb191959608a1b6044820152606490fd5b3461020f57602036600319011261020f576004356001600160401b03811161020f57600f611f80611f7a6020933690600401612f80565b3461020f57602036600319011261020f576004356001600160401b03811161020f57602061297e6040923690600401612f80565b9190828451938492833781015f815203019020600e601082015491015482519182526020820152f35b3461020f5760206129b7366130e8565b9290915f826040516129c881613177565b8281520152826040519384928337810160048152030190209060018060a01b03165f526020526040805f2081516129fe81613177565b602060ff60018454948585520154169101901515815282519182525115156020820152f35b3461020f5761100e612a65612a58612a5f612a83612a4036612fdd565b612a5186889a96979b939c98613851565b9a8b613949565b3691613218565b90613deb565b612a7081151561350a565b612a7b85858561406c565b848484613ef2565b613fc8565b3461020f5760031960403682011261020f576001600160401b039060043582811161020f57612abb903690600401612f80565b9160243593841161020f5760608460040191853603011261020f57604051838382375f8482019081528190036020019020600481015492906001600160a01b0390818516612b0a811515613556565b3303612bd8577fb5874a2a65489227884d8b39dda083bd0e12a921fc443e859efcbdce990bb4ac95612b98612bcc92612b4b60ff612ba09960a01c16613598565b86359687600a8301556044600c60248d0193612b74612b6a86866135d9565b90600b840161365a565b019b019a86612b828d613720565b82546001600160a01b03191691161790556135d9565b969098613720565b9381604051928392833781015f8152039020966040519586958652606060208701526060860191613734565b911660408301520390a2005b60405162461bcd60e51b815260206004820152602860248201527f4f6e6c79207468652073656c6c65722063616e207570646174652074686520616044820152671b1b1bdddb1a5cdd60c21b6064820152608490fd5b3461020f57604036600319011261020f57600435600190600154612c556024358383613822565b91612c5f8361346f565b92612c6d60405194856131dc565b808452612c7c601f199161346f565b015f5b818110612cef575050835f905b612caa575b610d3b848460405192839260408452604084019061308c565b8351811015612cea57908482612ccc610cf4612cc7849686613486565b61340d565b612cd682886134b9565b52612ce181876134b9565b50019091612c8c565b612c91565b806060602080938801015201612c7f565b612d0936612fdd565b9395919060059593955496612d2160ff8916156134cd565b60ff19978816600117600555612d378585613851565b95604051868682376020818881016003815203019020335f5260205260405f2054612d9657612d8b97612a8394612d75612a5f93612d80968b613949565b612a58898989613b9f565b612a7b81151561350a565b600554166005555f80f35b60405162461bcd60e51b815260206004820152602260248201527f42696420616c726561647920706c616365642c20757365207265706c616365426044820152611a5960f21b6064820152608490fd5b3461020f57606090606060031936011261020f576004356001600160401b03811161020f57600e612e1c83923690600401612f80565b60243594918190833781015f81526020938491030190200190612e43604435848454613822565b91612e4d8361346f565b92612e5b60405194856131dc565b808452612e6a601f199161346f565b01825f5b828110612f53575050505f5b8351811015612eed5780612e99612e9360019388613486565b84613493565b5060ff600360405192612eab8461315c565b80548452858060a01b0386820154168885015260028101546040850152015416151588820152612edb82876134b9565b52612ee681866134b9565b5001612e7a565b5050915060405191808301818452825180915281604085019301915f5b828110612f175785850386f35b835180518652808301516001600160a01b0316868401526040808201519087015287015115158786015260809094019392810192600101612f0a565b604051612f5f8161315c565b5f81525f838201525f60408201525f89820152828288010152018390612e6e565b9181601f8401121561020f578235916001600160401b03831161020f576020838186019501011161020f57565b9181601f8401121561020f578235916001600160401b03831161020f576020808501948460051b01011161020f57565b608060031982011261020f576001600160401b039160043583811161020f578261300991600401612f80565b939093926024359260443583811161020f578261302891600401612f80565b9390939260643591821161020f5761304291600401612fad565b9091565b5f5b8381106130575750505f910152565b8181015183820152602001613048565b9060209161308081518092818552858086019101613046565b601f01601f1916010190565b90808251908181526020809101926020808460051b8301019501935f915b8483106130ba5750505050505090565b90919293949584806130d8600193601f198682030187528a51613067565b98019301930191949392906130aa565b604060031982011261020f57600435906001600160401b03821161020f5761311291600401612f80565b90916024356001600160a01b038116810361020f5790565b604060031982011261020f57600435906001600160401b03821161020f5761315491600401612f80565b909160243590565b608081019081106001600160401b03821117611c4957604052565b604081019081106001600160401b03821117611c4957604052565b606081019081106001600160401b03821117611c4957604052565b6102c081019081106001600160401b03821117611c4957604052565b6001600160401b038111611c4957604052565b90601f801991011681019081106001600160401b03821117611c4957604052565b6001600160401b038111611c4957601f01601f191660200190565b929192613224826131fd565b9161323260405193846131dc565b82948184528183011161020f578281602093845f960137010152565b9080601f8301121561020f5781602061326993359101613218565b90565b90600182811c9216801561329a575b602083101461328657565b634e487b7160e01b5f52602260045260245ffd5b91607f169161327b565b9060405191825f82546132b68161326c565b908184526020946001916001811690815f1461332457506001146132e6575b5050506132e4925003836131dc565b565b5f90815285812095935091905b81831061330c5750506132e493508201015f80806132d5565b855488840185015294850194879450918301916132f3565b925050506132e494925060ff191682840152151560051b8201015f80806132d5565b9060405161335381613192565b60406002829480548452600181015460208501520154910152565b9060405161337b81613177565b82546001600160a01b031681526001909201546020830152565b906040516133a281613192565b60408193805483526133b6600182016132a4565b6020840152600201546001600160a01b0316910152565b906002821015611d4f5752565b908151815260406133fa6020840151606060208501526060840190613067565b928101516001600160a01b031691015290565b6001548110156105495760015f527fb10e2d527612073b26eecdfd717e6a320cf44b4afac2b0732d9fcbe2b7fa0cf601905f90565b8054821015610549575f5260205f2001905f90565b60209082604051938492833781015f81520301902090565b6001600160401b038111611c495760051b60200190565b919082018092116114fa57565b8054821015610549575f5260205f209060021b01905f90565b8051156105495760200190565b80518210156105495760209160051b010190565b156134d457565b60405162461bcd60e51b815260206004820152600e60248201526d1499595b9d1c985b9d0818d85b1b60921b6044820152606490fd5b1561351157565b60405162461bcd60e51b815260206004820152601860248201527f496e76616c696420656e6372797074656420616d6f756e7400000000000000006044820152606490fd5b1561355d57565b60405162461bcd60e51b8152602060048201526013602482015272141c9bdc195c9d1e481b9bdd081b1a5cdd1959606a1b6044820152606490fd5b1561359f57565b60405162461bcd60e51b815260206004820152601260248201527141756374696f6e206e6f742061637469766560701b6044820152606490fd5b903590601e198136030182121561020f57018035906001600160401b03821161020f5760200191813603831361020f57565b601f821161361857505050565b5f5260205f20906020601f840160051c83019310613650575b601f0160051c01905b818110613645575050565b5f815560010161363a565b9091508190613631565b9092916001600160401b038111611c495761367f81613679845461326c565b8461360b565b5f601f82116001146136bc5781906136ad9394955f926136b15750508160011b915f199060031b1c19161790565b9055565b013590505f80611856565b601f19821694835f5260209160205f20925f905b888210613708575050836001959697106136ef575b505050811b019055565b01355f19600384901b60f8161c191690555f80806136e5565b806001849682949587013581550195019201906136d0565b356001600160a01b038116810361020f5790565b908060209392818452848401375f828201840152601f01601f1916010190565b6002821015611d4f5752565b600360606132e493805184556001840160018060a01b036020830151166bffffffffffffffffffffffff60a01b825416179055604081015160028501550151151591019060ff801983541691151516179055565b919082039182116114fa57565b604051906137ce82613192565b5f6040838281528260208201520152565b604051906137ec82613192565b5f604083828152606060208201520152565b90821015610549576130429160051b8101906135d9565b5190811515820361020f57565b8082101561384a5761383482826137b4565b83101561384057505090565b61326992506137b4565b5050505f90565b60209082604051938492833781015f815203019020906002820154421061390e57600382015442116138d25760ff6004830154613892828260a01c16613598565b60a81c1661389c57565b60405162461bcd60e51b815260206004820152600e60248201526d105d58dd1a5bdb881c185d5cd95960921b6044820152606490fd5b60405162461bcd60e51b8152602060048201526014602482015273109a59191a5b99c81c195c9a5bd908195b99195960621b6044820152606490fd5b60405162461bcd60e51b8152602060048201526013602482015272109a59191a5b99c81b9bdd081cdd185c9d1959606a1b6044820152606490fd5b9190600a83015480613a21575b505050600c01546001600160a01b03168061396e5750565b60206024916040519283809263673448dd60e01b82523360048301525afa90811561053e575f916139e7575b50156139a257565b60405162461bcd60e51b815260206004820152601c60248201527f4e6f7420617070726f76656420627920746865207265676973747279000000006044820152606490fd5b90506020813d602011613a19575b81613a02602093836131dc565b8101031261020f57613a1390613815565b5f61399a565b3d91506139f5565b6040805133602080830191825280835295929491613a3e81613177565b5190208451868101918252868152613a5581613177565b519020915f915b818310613aab5750505003613a715780613956565b60649250519062461bcd60e51b825260048201526014602482015273139bdd081bdb881d1a1948185b1b1bdddb1a5cdd60621b6044820152fd5b909192600190613abc8585856146ea565b35811015613af657613acf8585856146ea565b3587519089820192835288820152878152613ae981613192565b5190205b93019190613a5c565b613b018585856146ea565b359087519089820192835288820152878152613b1c81613192565b519020613aed565b3d15613b4e573d90613b35826131fd565b91613b4360405193846131dc565b82523d5f602084013e565b606090565b15613b5a57565b60405162461bcd60e51b815260206004820152601760248201527f4465706f736974207472616e73666572206661696c65640000000000000000006044820152606490fd5b91604091825190808583378181810160048152602093849103019020335f528252835f20600984019384549182158015613de1575b613d9d57829055600801546001600160a01b031680613c72575050909180543403613c3a57907fa3d36a35006177cb7ba68f063d9cc26f97d72087a21215675f6cb3f4a446e95092915b5494818551928392833781015f815203902092519384523393a3565b835162461bcd60e51b8152600481018490526011602482015270125b98dbdc9c9958dd0819195c1bdcda5d607a1b6044820152606490fd5b34613d5957855190848201926323b872dd60e01b845233602484015230604484015260648301526064825260a08201928284106001600160401b03851117611c49575f80949381948a5251925af192613cc9613b24565b84613cff575b50613cfa7fa3d36a35006177cb7ba68f063d9cc26f97d72087a21215675f6cb3f4a446e95094613b53565b613c1e565b8051801595508515613d16575b5050613cfa613ccf565b8195509084918101031261020f57613cfa613d53847fa3d36a35006177cb7ba68f063d9cc26f97d72087a21215675f6cb3f4a446e9509601613815565b94613d0c565b855162461bcd60e51b815260048101859052601960248201527f4465706f736974206973207061696420696e20746f6b656e73000000000000006044820152606490fd5b5050505092505034613dad575050565b60649250519062461bcd60e51b82526004820152600e60248201526d4e6f206465706f7369742064756560901b6044820152fd5b5080541515613bd4565b6020613e3b9260018060a01b0392835f8051602061493c8339815191525416905f60405180978195829463045fc19560e11b84526004840152336024840152608060448401526084830190613067565b6004606483015203925af191821561053e575f92613ebe575b507f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497005416803b1561020f57604051630f8e573b60e21b815260048101839052336024820152905f908290604490829084905af1801561053e57613eb5575090565b613269906131c9565b9091506020813d602011613eea575b81613eda602093836131dc565b8101031261020f5751905f613e54565b3d9150613ecd565b600e8301604093845190613f058261315c565b8682523360208301524286830152600160608301528254600160401b811015611c4957806001613f389201855584613493565b611c3657600f92613f4891613760565b0180545f1981146114fa576001019055548351838382376020818581016003815203019020335f52602052835f2055613f81308561483d565b613f8b338561483d565b818351928392833781015f815203902090519182527f839023a9ce596fee58a4bd8a98d7ea06febdfb49b3a8fa5a4c864522609afedd60203393a3565b9190916003820192835491613fdd42846137b4565b60058501541180159061405f575b6140585783600d61402460209560067fe470c9bf575aa049e90ab40ac2b464ef30c063545bb8215335d85218060f646798015490613486565b9101548082101561404f575080955b5581604051928392833781015f815203902092604051908152a2565b90508095614033565b5050505050565b50600d8401548314613feb565b91604091825190808583378181810160038152602093849103019020335f528252835f2054948515614127575f19938487019687116114fa578060036140b789600e600f9501613493565b5001805460ff191690550180549485156114fa577f157b25fb1ccb8d40e76c151b05a69beef7c17fef7757a9278e68da077c924a299501905584518282823783818481016003815203019020335f5283525f85812055818551928392833781015f815203902092519384523393a3565b845162461bcd60e51b815260048101849052600d60248201526c139bc81858dd1a5d9948189a59609a1b6044820152606490fd5b60209082604051938492833781015f81520301902090600482015461418960018060a01b0382161515613556565b600383015442111561422b5760ff8160b01c166141f25760a01c60ff16156141ad57565b60405162461bcd60e51b815260206004820152601960248201527f41756374696f6e20616c726561647920636f6e636c75646564000000000000006044820152606490fd5b60405162461bcd60e51b8152602060048201526011602482015270131a5cdd1a5b99c818d85b98d95b1b1959607a1b6044820152606490fd5b60405162461bcd60e51b815260206004820152601460248201527341756374696f6e207374696c6c2061637469766560601b6044820152606490fd5b60209082604051938492833781015f8152030190209060ff600483015461429760018060a01b0382161515613556565b60a01c166142a157565b60405162461bcd60e51b8152602060048201526015602482015274105d58dd1a5bdb881b9bdd0818dbdb98db1d591959605a1b6044820152606490fd5b94939092919483604051948592833781016004815260209485910301902060018060a01b038093165f52835260405f2092835493841561442e57600101805460ff81166143e95760019060ff1916179055826008859701541680155f1461435c5750505f806132e49481948294165af1614356613b24565b50613b53565b9093915f80948194604051918883019463a9059cbb60e01b865216602483015260448201526044815261438e8161315c565b51925af161439a613b24565b816143ab575b506132e49150613b53565b809150519182159182156143c7575b50506132e491505f6143a0565b80925081938101031261020f576132e4916143e29101613815565b5f806143ba565b60405162461bcd60e51b815260048101849052601760248201527f4465706f73697420616c726561647920736574746c65640000000000000000006044820152606490fd5b60405162461bcd60e51b815260048101839052600f60248201526e139bc819195c1bdcda5d081a195b19608a1b6044820152606490fd5b60209082604051938492833781015f81520301902090600482015460018060a01b038116614494811515613556565b33036144f95760ff6144a99160a01c16613598565b600e8201546144b457565b60405162461bcd60e51b815260206004820152601860248201527f4c697374696e6720616c726561647920686173206269647300000000000000006044820152606490fd5b60405162461bcd60e51b815260206004820152602660248201527f4f6e6c79207468652073656c6c65722063616e206d616e61676520746865206c604482015265697374696e6760d01b6064820152608490fd5b9081156145f0575b80156145de575b602090606460018060a01b035f8051602061493c8339815191525416935f6040519586948593630d8c635960e21b8552600485015260248401528160448401525af190811561053e575f916145af575090565b90506020813d6020116145d6575b816145ca602093836131dc565b8101031261020f575190565b3d91506145bd565b5060206145e96146fa565b905061455c565b90506145fa6146fa565b90614555565b9061326992918015614639575b8115614629575b826147eb5791506146236146fa565b916147eb565b90506146336146fa565b90614614565b5061464261479f565b61460d565b906132699291801561467a575b811561466a575b826147eb57915061462361474c565b905061467461474c565b9061465b565b5061468361479f565b614654565b4660010361469557600190565b4662aa36a7036146a55761271190565b617a6946146146b2575f90565b5f1990565b9081518082526020808093019301915f5b8281106146d6575050505090565b8351855293810193928101926001016146c8565b91908110156105495760051b0190565b5f8051602061493c83398151915254604051639cd07acb60e01b81525f600480830182905260248301529091602091839160449183916001600160a01b03165af190811561053e575f916145af575090565b5f8051602061493c83398151915254604051639cd07acb60e01b81525f60048201819052600760248301529091602091839160449183916001600160a01b03165af190811561053e575f916145af575090565b5f602060018060a01b035f8051602061493c8339815191525416604460405180948193639cd07acb60e01b83528160048401528160248401525af190811561053e575f916145af575090565b9060646020925f60018060a01b035f8051602061493c83398151915254166040519687958694637702dcff60e01b86526004860152602485015260448401525af190811561053e575f916145af575090565b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700546001600160a01b031691823b1561020f57604051635ca4b5b160e11b815260048101929092526001600160a01b03166024820152905f908290818381604481015b03925af1801561053e576148b15750565b6132e4906131c9565b604051906148c782613177565b60018252602036818401376148db826134ac565b527f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700546001600160a01b0316803b1561020f57604051637d6e912360e11b815260206004820152915f9183918290849082906148a09060248301906146b756fe9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649701a164736f6c6343000818000a";
+
+type HouseBid_FHEConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: HouseBid_FHEConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class HouseBid_FHE__factory extends ContractFactory {
+  constructor(...args: HouseBid_FHEConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(overrides || {});
+  }
+  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
+    return super.deploy(overrides || {}) as Promise<
+      HouseBid_FHE & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): HouseBid_FHE__factory {
+    return super.connect(runner) as HouseBid_FHE__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): HouseBid_FHEInterface {
+    return new Interface(_abi) as HouseBid_FHEInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): HouseBid_FHE {
+    return new Contract(address, _abi, runner) as unknown as HouseBid_FHE;
+  }
+}
@@ -0,0 +1,4 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export { HouseBid_FHE__factory } from "./HouseBid_FHE__factory.js";
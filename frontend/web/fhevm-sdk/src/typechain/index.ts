@@ -0,0 +1,6 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export type { HouseBid_FHE } from "./HouseBid_FHE.js";
+export * as factories from "./factories/index.js";
+export { HouseBid_FHE__factory } from "./factories/HouseBid_FHE__factory.js";
@@ -0,0 +1,69 @@
+/**
+ * In-memory chain serving HouseBid_FHE logs through the parts of an ethers provider the SDK polls
+ */
+
+import { ethers } from 'ethers';
+import { HouseBidClient } from '../src/core/housebid.js';
+import { HouseBid_FHE__factory } from '../src/typechain/index.js';
+
+export const CONTRACT_ADDRESS = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+
+const houseBid = HouseBid_FHE__factory.createInterface();
+
+export interface LogFilter {
+  address?: string;
+  topics?: (string | null)[];
+  fromBlock: number;
+  toBlock: number;
+}
+
+export class FakeChain {
+  head = 0;
+  /**
+   * Upcoming getLogs calls to fail, as an unreachable RPC node would
+   */
+  failures = 0;
+  readonly getLogsCalls: LogFilter[] = [];
+  private readonly logs: ethers.Log[] = [];
+
+  /**
+   * Add a HouseBid_FHE event in `blockNumber`, moving the head up to it
+   */
+  emit(blockNumber: number, name: string, args: unknown[]): void {
+    const { topics, data } = houseBid.encodeEventLog(name, args);
+    const index = this.logs.filter((log) => log.blockNumber === blockNumber).length;
+    this.logs.push({
+      address: CONTRACT_ADDRESS,
+      topics,
+      data,
+      blockNumber,
+      transactionHash: ethers.id(`tx-${this.logs.length}`),
+      index,
+    } as unknown as ethers.Log);
+    this.head = Math.max(this.head, blockNumber);
+  }
+
+  readonly provider = {
+    getBlockNumber: async () => this.head,
+    getBlock: async (blockNumber: number) => ({ number: blockNumber, timestamp: 1_700_000_000 + blockNumber * 12 }),
+    getLogs: async (filter: LogFilter) => {
+      this.getLogsCalls.push(filter);
+      if (this.failures > 0) {
+        this.failures--;
+        throw new Error('connect ECONNREFUSED 127.0.0.1:8545');
+      }
+      return this.logs.filter(
+        (log) =>
+          log.blockNumber >= filter.fromBlock &&
+          log.blockNumber <= Math.min(filter.toBlock, this.head) &&
+          (!filter.topics?.[1] || log.topics[1] === filter.topics[1])
+      );
+    },
+    on: async () => undefined,
+    off: async () => undefined,
+  };
+
+  client(): HouseBidClient {
+    return new HouseBidClient(CONTRACT_ADDRESS, { provider: this.provider } as unknown as ethers.ContractRunner);
+  }
+}
@@ -0,0 +1,62 @@
+import { ethers } from 'ethers';
+import { describe, expect, it } from 'vitest';
+import { getDeployment, getSupportedChainIds, hashAbi, resolveDeployment } from '../src/core/deployments.js';
+import type { DeploymentRegistry } from '../src/core/deployments.js';
+
+const registry: DeploymentRegistry = {
+  '31337': {
+    network: 'localhost',
+    rpcUrls: ['http://127.0.0.1:8545'],
+    contracts: {
+      HouseBid_FHE: { address: '0x5FbDB2315678afecb367f032d93F642f64180aa3', deployBlock: 1, abiHash: '0x01' },
+      MockERC20: { address: '0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512', deployBlock: 2, abiHash: '0x02' },
+    },
+  },
+  '11155111': {
+    network: 'sepolia',
+    rpcUrls: ['https://sepolia.drpc.org'],
+    contracts: {
+      HouseBid_FHE: { address: '0x9fE46736679d2D9a65F0992F2272dE9f3c7fa6e0', deployBlock: 7_500_000, abiHash: '0x01' },
+    },
+  },
+};
+
+describe('getDeployment', () => {
+  it('resolves a contract by chain id', () => {
+    expect(getDeployment(registry, 31337).address).toBe('0x5FbDB2315678afecb367f032d93F642f64180aa3');
+    expect(getDeployment(registry, 11155111n).deployBlock).toBe(7_500_000);
+    expect(getDeployment(registry, 31337, 'MockERC20').deployBlock).toBe(2);
+  });
+
+  it('names the supported chains for an unknown chain or contract', () => {
+    expect(() => getDeployment(registry, 1)).toThrow('Nothing is deployed on chain 1, switch to chain 31337 or 11155111');
+    expect(() => getDeployment(registry, 11155111, 'MockERC20')).toThrow(
+      'MockERC20 is not deployed on chain 11155111, switch to chain 31337'
+    );
+  });
+
+  it('asks for a deployment when the registry is empty', () => {
+    expect(() => getDeployment({}, 11155111)).toThrow(
+      'Nothing is deployed on chain 11155111, run the deploy pipeline first, no chain has a deployment yet'
+    );
+  });
+
+  it('lists the chains a contract is deployed on', () => {
+    expect(getSupportedChainIds(registry)).toEqual([31337, 11155111]);
+    expect(getSupportedChainIds(registry, 'MockERC20')).toEqual([31337]);
+  });
+});
+
+describe('resolveDeployment', () => {
+  it('reads the chain id from the runner', async () => {
+    const provider = new ethers.JsonRpcProvider('http://127.0.0.1:1', 31337, { staticNetwork: true });
+    expect((await resolveDeployment(registry, provider)).deployBlock).toBe(1);
+  });
+});
+
+describe('hashAbi', () => {
+  it('hashes the compact JSON of the ABI like the deploy pipeline', () => {
+    const abi = [{ type: 'function', name: 'ping', inputs: [], outputs: [], stateMutability: 'view' }];
+    expect(hashAbi(abi)).toBe(ethers.keccak256(ethers.toUtf8Bytes(JSON.stringify(abi))));
+  });
+});
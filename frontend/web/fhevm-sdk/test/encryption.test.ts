@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { EncryptedInputBuilder, maxValueOf } from '../src/core/encryption.js';
+
+const CONTRACT = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+const USER = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+
+/**
+ * Stands in for the RelayerSDK instance, recording what was added to the input
+ */
+function stubInstance() {
+  const added: [string, unknown][] = [];
+  const record = (method: string) => (value: unknown) => added.push([method, value]);
+  const instance = {
+    createEncryptedInput: () => ({
+      addBool: record('addBool'),
+      add8: record('add8'),
+      add16: record('add16'),
+      add32: record('add32'),
+      add64: record('add64'),
+      add128: record('add128'),
+      add256: record('add256'),
+      addAddress: record('addAddress'),
+      encrypt: async () => ({
+        handles: added.map((_, i) => new Uint8Array(32).fill(i + 1)),
+        inputProof: new Uint8Array([0xab, 0xcd]),
+      }),
+    }),
+  };
+  return { instance, added };
+}
+
+function builder() {
+  return new EncryptedInputBuilder(stubInstance().instance, CONTRACT, USER);
+}
+
+describe('EncryptedInputBuilder', () => {
+  it('rejects u32 values outside [0, 2^32-1]', () => {
+    expect(() => builder().u32(-1)).toThrow(RangeError);
+    expect(() => builder().u32(2 ** 32)).toThrow(RangeError);
+    expect(() => builder().u32(2 ** 32)).toThrow('euint32 value 4294967296 is out of range [0, 4294967295]');
+    expect(() => builder().u8(256n)).toThrow(RangeError);
+    expect(builder().u32(2 ** 32 - 1).u32(0).size).toBe(2);
+    expect(builder().u256(maxValueOf('euint256')).size).toBe(1);
+  });
+
+  it('rejects numbers that are not safe integers', () => {
+    expect(() => builder().u32(1.5)).toThrow('euint32 value must be an integer, got 1.5');
+    expect(() => builder().u32(Number.NaN)).toThrow(RangeError);
+    expect(() => builder().u64(2 ** 53)).toThrow('use a bigint above 2^53');
+    expect(() => builder().u32('7' as unknown as number)).toThrow(TypeError);
+  });
+
+  it('rejects malformed booleans and addresses', () => {
+    expect(() => builder().bool(1 as unknown as boolean)).toThrow('ebool value must be a boolean, got number');
+    expect(() => builder().bool('true' as unknown as boolean)).toThrow(TypeError);
+    expect(() => builder().address('0x1234')).toThrow('eaddress value must be an address, got 0x1234');
+    expect(() => builder().address('not an address')).toThrow(TypeError);
+  });
+
+  it('enforces the 2048-bit limit of one input', async () => {
+    const full = builder();
+    for (let i = 0; i < 8; i++) full.u256(i);
+    await expect(full.build()).resolves.toMatchObject({ types: Array(8).fill('euint256') });
+
+    const over = builder();
+    for (let i = 0; i < 8; i++) over.u256(i);
+    over.bool(true);
+    await expect(over.build()).rejects.toThrow('Encrypted input is 2050 bits, the limit is 2048');
+  });
+
+  it('refuses to build an empty input', async () => {
+    await expect(builder().build()).rejects.toThrow('Nothing to encrypt');
+  });
+
+  it('adds values in order and returns hex handles and proof', async () => {
+    const { instance, added } = stubInstance();
+    const buyer = USER.toLowerCase();
+    const result = await new EncryptedInputBuilder(instance, CONTRACT, USER).bool(true).u64(500000).address(buyer).build();
+
+    expect(added).toEqual([
+      ['addBool', true],
+      ['add64', 500000n],
+      ['addAddress', USER],
+    ]);
+    expect(result.types).toEqual(['ebool', 'euint64', 'eaddress']);
+    expect(result.handles[1]).toBe(`0x${'02'.repeat(32)}`);
+    expect(result.inputProof).toBe('0xabcd');
+  });
+});
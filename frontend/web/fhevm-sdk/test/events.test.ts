@@ -0,0 +1,106 @@
+import { ethers } from 'ethers';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AuctionEventStream } from '../src/core/events.js';
+import type { AuctionEvent, AuctionEventStatus } from '../src/core/events.js';
+import { FakeChain } from './chain.js';
+
+const PROPERTY_ID = 'villa-42';
+const ALICE = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+const BOB = '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC';
+const POLL = 1000;
+
+describe('AuctionEventStream', () => {
+  let chain: FakeChain;
+  let events: AuctionEvent[];
+  let statuses: AuctionEventStatus[];
+  let stream: AuctionEventStream;
+  let unsubscribe: () => void;
+
+  beforeEach(async () => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    chain = new FakeChain();
+    chain.head = 10;
+    events = [];
+    statuses = [];
+    stream = new AuctionEventStream(chain.client(), undefined, { pollInterval: POLL, replayBlocks: 2 });
+    unsubscribe = stream.subscribe(
+      (event) => events.push(event),
+      (status) => statuses.push(status)
+    );
+    // The first poll only records the head
+    await vi.advanceTimersByTimeAsync(0);
+  });
+
+  afterEach(() => {
+    unsubscribe();
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('starts at the chain head and delivers new events', async () => {
+    expect(statuses).toEqual(['connecting', 'live']);
+    expect(chain.getLogsCalls).toEqual([]);
+
+    chain.emit(11, 'BidSubmitted', [PROPERTY_ID, ALICE, ethers.ZeroHash]);
+    await vi.advanceTimersByTimeAsync(POLL);
+
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({ name: 'BidSubmitted', propertyIdHash: ethers.id(PROPERTY_ID), blockNumber: 11 });
+    expect(events[0].args.bidder).toBe(ALICE);
+  });
+
+  it('does not deliver a log again when its block is replayed', async () => {
+    chain.emit(11, 'BidSubmitted', [PROPERTY_ID, ALICE, ethers.ZeroHash]);
+    await vi.advanceTimersByTimeAsync(POLL);
+    chain.head = 12;
+    await vi.advanceTimersByTimeAsync(POLL);
+
+    expect(chain.getLogsCalls.map(({ fromBlock, toBlock }) => [fromBlock, toBlock])).toEqual([
+      [9, 11],
+      [10, 12],
+    ]);
+    expect(events).toHaveLength(1);
+
+    chain.emit(13, 'BidWithdrawn', [PROPERTY_ID, ALICE, 0]);
+    await vi.advanceTimersByTimeAsync(POLL);
+    expect(events.map((event) => event.name)).toEqual(['BidSubmitted', 'BidWithdrawn']);
+  });
+
+  it('backs off after a failed poll and resumes from the last polled block', async () => {
+    chain.failures = 2;
+    chain.emit(11, 'BidSubmitted', [PROPERTY_ID, ALICE, ethers.ZeroHash]);
+    await vi.advanceTimersByTimeAsync(POLL);
+    expect(statuses.at(-1)).toBe('reconnecting');
+
+    // Retried after 2 and then 4 poll intervals, while more blocks arrive
+    chain.emit(12, 'BidSubmitted', [PROPERTY_ID, BOB, ethers.ZeroHash]);
+    await vi.advanceTimersByTimeAsync(2 * POLL - 1);
+    expect(chain.getLogsCalls).toHaveLength(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(chain.getLogsCalls).toHaveLength(2);
+
+    chain.emit(14, 'DepositPaid', [PROPERTY_ID, BOB, 100n]);
+    await vi.advanceTimersByTimeAsync(4 * POLL);
+
+    expect(chain.getLogsCalls.at(-1)).toMatchObject({ fromBlock: 9, toBlock: 14 });
+    expect(events.map((event) => [event.name, event.blockNumber])).toEqual([
+      ['BidSubmitted', 11],
+      ['BidSubmitted', 12],
+      ['DepositPaid', 14],
+    ]);
+    expect(statuses.at(-1)).toBe('live');
+  });
+
+  it('stops polling once the last listener unsubscribes', async () => {
+    unsubscribe();
+    expect(stream.status).toBe('connecting');
+
+    chain.emit(11, 'BidSubmitted', [PROPERTY_ID, ALICE, ethers.ZeroHash]);
+    await vi.advanceTimersByTimeAsync(10 * POLL);
+
+    expect(chain.getLogsCalls).toEqual([]);
+    expect(events).toEqual([]);
+  });
+});
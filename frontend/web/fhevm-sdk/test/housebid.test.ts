@@ -0,0 +1,153 @@
+import { ethers } from 'ethers';
+import { describe, expect, it } from 'vitest';
+import type { FhevmClient } from '../src/core/fhevm.js';
+import { HouseBidClient } from '../src/core/housebid.js';
+import type { ConclusionProgress } from '../src/core/housebid.js';
+import { HouseBid_FHE__factory } from '../src/typechain/index.js';
+
+// Nothing listens here, the arguments are rejected before any call is made
+const provider = new ethers.JsonRpcProvider('http://127.0.0.1:1', 31337, { staticNetwork: true });
+const client = new HouseBidClient('0x5FbDB2315678afecb367f032d93F642f64180aa3', provider);
+
+describe('HouseBidClient paging', () => {
+  it('rejects a page size that would never advance', async () => {
+    for (const pageSize of [0, -1, 2.5]) {
+      await expect(client.iterateProperties({ pageSize }).next()).rejects.toThrow(RangeError);
+    }
+    await expect(client.iterateProperties({ pageSize: 0 }).next()).rejects.toThrow(
+      'pageSize must be a positive integer, got 0'
+    );
+  });
+
+  it('rejects a bid page size that would never advance', async () => {
+    for (const pageSize of [0, -1, 2.5]) {
+      await expect(client.getBids('villa-42', pageSize)).rejects.toThrow(RangeError);
+    }
+    await expect(client.getBids('villa-42', 0)).rejects.toThrow('pageSize must be a positive integer, got 0');
+  });
+
+  it('rejects a negative offset or an empty page', async () => {
+    await expect(client.getPropertyIdsPage(-1, 10)).rejects.toThrow('offset must be a non-negative integer, got -1');
+    await expect(client.getPropertyIdsPage(0, 0)).rejects.toThrow('limit must be a positive integer, got 0');
+  });
+
+  it('rejects a fold page size that would never finish', async () => {
+    await expect(client.foldBids('villa-42', 0)).rejects.toThrow('pageSize must be a positive integer, got 0');
+  });
+});
+
+interface FakeListing {
+  activeBidsCount: number;
+  winnerRevealRequested?: boolean;
+  /**
+   * Revert message of `requestWinnerReveal`, e.g. for a listing cancelled in the meantime
+   */
+  revealRevert?: string;
+}
+
+const WINNER = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+
+/**
+ * Client whose contract calls are answered from `listings`, recording the transactions it sends
+ */
+function concludingClient(listings: Record<string, FakeListing>) {
+  const transactions: string[] = [];
+  const houseBid = HouseBid_FHE__factory.createInterface();
+  const sent = (name: string, propertyId: string, logs: { topics: readonly string[]; data: string }[] = []) => {
+    transactions.push(`${name} ${propertyId}`);
+    const hash = ethers.id(`${transactions.length}`);
+    return { wait: async () => ({ hash, logs }) };
+  };
+  const folded = new Set<string>();
+
+  const contract = {
+    interface: houseBid,
+    getActiveBidsCount: async (propertyId: string) => BigInt(listings[propertyId].activeBidsCount),
+    getFoldProgress: async (propertyId: string) => [folded.has(propertyId) ? 2n : 0n, 2n],
+    getAuctionResult: async (propertyId: string) => [
+      ethers.ZeroHash,
+      ethers.ZeroHash,
+      ethers.ZeroHash,
+      listings[propertyId].winnerRevealRequested ?? false,
+      false,
+      ethers.ZeroAddress,
+      0n,
+    ],
+    foldBids: async (propertyId: string) => {
+      folded.add(propertyId);
+      return sent('foldBids', propertyId);
+    },
+    requestWinnerReveal: async (propertyId: string) => {
+      const { revealRevert } = listings[propertyId];
+      if (revealRevert) throw new Error(`execution reverted: "${revealRevert}"`);
+      listings[propertyId].winnerRevealRequested = true;
+      return sent('requestWinnerReveal', propertyId);
+    },
+    determineWinner: async (propertyId: string, abiEncodedClearValues: string) => {
+      const won = abiEncodedClearValues !== '0x';
+      const log = houseBid.encodeEventLog('AuctionConcluded', [
+        propertyId,
+        won ? WINNER : ethers.ZeroAddress,
+        won ? 500000 : 0,
+        won,
+      ]);
+      return sent('determineWinner', propertyId, [log]);
+    },
+  };
+  const fhevm = {
+    publicDecryptV09: async () => ({ clearValues: {}, abiEncodedClearValues: '0x01', decryptionProof: '0x02' }),
+  } as unknown as FhevmClient;
+
+  const concluding = new HouseBidClient('0x5FbDB2315678afecb367f032d93F642f64180aa3', provider, fhevm);
+  Object.assign(concluding, { contract });
+  return { client: concluding, transactions };
+}
+
+describe('HouseBidClient.concludeAuctions', () => {
+  it('keeps going after an auction fails and reports every step', async () => {
+    const { client, transactions } = concludingClient({
+      'villa-1': { activeBidsCount: 2, revealRevert: 'Listing cancelled' },
+      'loft-2': { activeBidsCount: 1 },
+      'house-3': { activeBidsCount: 0 },
+    });
+    const progress: ConclusionProgress[] = [];
+
+    const results = await client.concludeAuctions(['villa-1', 'loft-2', 'house-3'], (step) => progress.push(step));
+
+    expect(results.map(({ propertyId, error }) => [propertyId, error?.message])).toEqual([
+      ['villa-1', 'execution reverted: "Listing cancelled"'],
+      ['loft-2', undefined],
+      ['house-3', undefined],
+    ]);
+    expect(results[1].outcome).toMatchObject({ winner: WINNER, winningAmount: 500000, reserveMet: true });
+    expect(results[2].outcome).toMatchObject({ winner: ethers.ZeroAddress, winningAmount: 0, reserveMet: false });
+
+    expect(progress.map(({ propertyId, index, total, step }) => `${index + 1}/${total} ${propertyId} ${step}`)).toEqual([
+      '1/3 villa-1 folding',
+      '1/3 villa-1 requesting',
+      '2/3 loft-2 folding',
+      '2/3 loft-2 requesting',
+      '2/3 loft-2 decrypting',
+      '2/3 loft-2 concluding',
+      '3/3 house-3 concluding',
+    ]);
+    expect(transactions).toEqual([
+      'foldBids villa-1',
+      'foldBids loft-2',
+      'requestWinnerReveal loft-2',
+      'determineWinner loft-2',
+      'determineWinner house-3',
+    ]);
+  });
+
+  it('resumes a reveal that was already requested instead of requesting it again', async () => {
+    const { client, transactions } = concludingClient({ 'villa-1': { activeBidsCount: 2, winnerRevealRequested: true } });
+    const steps: string[] = [];
+
+    const [result] = await client.concludeAuctions(['villa-1'], ({ step }) => steps.push(step));
+
+    expect(result.outcome).toMatchObject({ propertyId: 'villa-1', winner: WINNER });
+    expect(steps).toEqual(['decrypting', 'concluding']);
+    expect(transactions).toEqual(['determineWinner villa-1']);
+  });
+});
@@ -0,0 +1,145 @@
+import 'fake-indexeddb/auto';
+import { ethers } from 'ethers';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { AuctionIndexer, IndexedDbAuctionStore, MemoryAuctionStore } from '../src/core/indexer.js';
+import type { AuctionStore } from '../src/core/indexer.js';
+import type { HouseBidClient, PropertySummary } from '../src/core/housebid.js';
+import { FakeChain } from './chain.js';
+
+const ALICE = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+const BOB = '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC';
+const SELLER = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266';
+const handle = (n: number) => ethers.zeroPadValue(ethers.toBeHex(n), 32);
+const timestamp = (blockNumber: number) => 1_700_000_000 + blockNumber * 12;
+
+/**
+ * Two listings bid on, one replaced bid, then the first concluded and settled
+ */
+function auctionHistory(chain: FakeChain): void {
+  chain.emit(2, 'PropertyListed', ['villa-1', SELLER, 0, 3600, 0]);
+  chain.emit(2, 'PropertyListed', ['loft-2', SELLER, 0, 3600, 1]);
+  chain.emit(3, 'DepositPaid', ['villa-1', ALICE, 100n]);
+  chain.emit(3, 'BidSubmitted', ['villa-1', ALICE, handle(1)]);
+  chain.emit(4, 'DepositPaid', ['villa-1', BOB, 100n]);
+  chain.emit(4, 'BidSubmitted', ['villa-1', BOB, handle(2)]);
+  chain.emit(4, 'BidSubmitted', ['loft-2', ALICE, handle(3)]);
+  // Alice replaces her bid: the old one is withdrawn and a new one submitted
+  chain.emit(6, 'BidWithdrawn', ['villa-1', ALICE, 0]);
+  chain.emit(6, 'BidSubmitted', ['villa-1', ALICE, handle(4)]);
+  chain.emit(8, 'AuctionConcluded', ['villa-1', BOB, 500, true]);
+  chain.emit(8, 'DepositRefunded', ['villa-1', ALICE, 100n]);
+  chain.emit(8, 'ProceedsWithdrawn', ['villa-1', SELLER, 100n]);
+}
+
+async function expectAuctionHistory(store: AuctionStore): Promise<void> {
+  expect(await store.getCursor()).toBe(8);
+  expect((await store.getProperties()).map((property) => property.propertyId).sort()).toEqual(['loft-2', 'villa-1']);
+
+  expect(await store.getBids('villa-1')).toEqual([
+    { propertyId: 'villa-1', index: 0, encryptedAmount: handle(1), bidder: ALICE, timestamp: timestamp(3), isActive: false },
+    { propertyId: 'villa-1', index: 1, encryptedAmount: handle(2), bidder: BOB, timestamp: timestamp(4), isActive: true },
+    { propertyId: 'villa-1', index: 2, encryptedAmount: handle(4), bidder: ALICE, timestamp: timestamp(6), isActive: true },
+  ]);
+  expect(await store.getBids('loft-2')).toEqual([
+    { propertyId: 'loft-2', index: 0, encryptedAmount: handle(3), bidder: ALICE, timestamp: timestamp(4), isActive: true },
+  ]);
+  expect((await store.getBidsByBidder(ALICE.toLowerCase())).map((bid) => `${bid.propertyId}:${bid.index}`).sort()).toEqual([
+    'loft-2:0',
+    'villa-1:0',
+    'villa-1:2',
+  ]);
+
+  // Losers are refunded, the winner's deposit is settled when the seller withdraws the proceeds
+  expect(await store.getEscrow('villa-1', ALICE)).toEqual({ propertyId: 'villa-1', bidder: ALICE, amount: 100n, settled: true });
+  expect(await store.getEscrow('villa-1', BOB.toLowerCase())).toMatchObject({ settled: true });
+  expect(await store.getEscrows('villa-1')).toHaveLength(2);
+
+  expect(await store.getOutcome('villa-1')).toMatchObject({ winner: BOB, winningAmount: 500, reserveMet: true, blockNumber: 8 });
+  expect(await store.getOutcome('loft-2')).toBeUndefined();
+}
+
+let databases = 0;
+
+describe.each([
+  ['MemoryAuctionStore', () => new MemoryAuctionStore()],
+  ['IndexedDbAuctionStore', () => IndexedDbAuctionStore.open(`auction-index-${++databases}`)],
+])('AuctionIndexer with a %s', (_, openStore: () => AuctionStore | Promise<AuctionStore>) => {
+  let chain: FakeChain;
+  let client: HouseBidClient;
+  let listed: string[];
+  let store: AuctionStore;
+
+  beforeEach(async () => {
+    chain = new FakeChain();
+    client = chain.client();
+    listed = ['villa-1', 'loft-2'];
+    vi.spyOn(client, 'getPropertyIdsPage').mockImplementation(async (offset, limit) => ({
+      ids: listed.slice(offset, offset + limit),
+      total: listed.length,
+    }));
+    vi.spyOn(client, 'getPropertySummaries').mockImplementation(async (ids) =>
+      ids.map((propertyId) => ({ propertyId, seller: SELLER }) as unknown as PropertySummary)
+    );
+    store = await openStore();
+    auctionHistory(chain);
+  });
+
+  it('folds bids, withdrawals, deposits and outcomes from the contract events', async () => {
+    const updates: number[] = [];
+    const indexer = new AuctionIndexer(client, store, { fromBlock: 1 });
+    indexer.subscribe(({ cursor }) => updates.push(cursor));
+
+    expect(await indexer.sync()).toBe(8);
+    expect(updates).toEqual([8]);
+    expect(chain.getLogsCalls).toMatchObject([{ fromBlock: 1, toBlock: 8 }]);
+    await expectAuctionHistory(store);
+  });
+
+  it('resolves property id hashes from the listing order, loading listings added later', async () => {
+    const indexer = new AuctionIndexer(client, store, { fromBlock: 1 });
+    await indexer.sync();
+    expect(client.getPropertyIdsPage).toHaveBeenCalledTimes(1);
+    expect(client.getPropertyIdsPage).toHaveBeenCalledWith(0, 500);
+
+    listed.push('house-3');
+    chain.emit(9, 'BidSubmitted', ['house-3', BOB, handle(5)]);
+    chain.emit(9, 'BidSubmitted', ['villa-1', BOB, handle(6)]);
+    await indexer.sync();
+
+    // Only the listings after the known ones are loaded
+    expect(client.getPropertyIdsPage).toHaveBeenCalledTimes(2);
+    expect(client.getPropertyIdsPage).toHaveBeenLastCalledWith(2, 500);
+    expect(await store.getBid('house-3', 0)).toMatchObject({ bidder: BOB, encryptedAmount: handle(5) });
+    expect(await store.getBid('villa-1', 3)).toMatchObject({ bidder: BOB, encryptedAmount: handle(6) });
+  });
+
+  it('fails on a property id hash no listing matches', async () => {
+    chain.emit(9, 'BidSubmitted', ['never-listed', BOB, handle(5)]);
+    const indexer = new AuctionIndexer(client, store, { fromBlock: 9 });
+
+    await expect(indexer.sync()).rejects.toThrow(`No listing matches property id hash ${ethers.id('never-listed')}`);
+    expect(await store.getCursor()).toBeNull();
+  });
+
+  it('resumes from the stored cursor after a partial backfill', async () => {
+    const interrupted = new AuctionIndexer(client, store, { fromBlock: 1, batchSize: 3 });
+    // The RPC node goes away after the first batch is committed
+    interrupted.subscribe(() => {
+      chain.failures = 1;
+    });
+
+    await expect(interrupted.sync()).rejects.toThrow('ECONNREFUSED');
+    expect(await store.getCursor()).toBe(3);
+    expect(await store.getBids('villa-1')).toHaveLength(1);
+
+    const resumed = new AuctionIndexer(client, store, { fromBlock: 1, batchSize: 3 });
+    const calls = chain.getLogsCalls.length;
+    expect(await resumed.sync()).toBe(8);
+
+    expect(chain.getLogsCalls.slice(calls)).toMatchObject([
+      { fromBlock: 4, toBlock: 6 },
+      { fromBlock: 7, toBlock: 8 },
+    ]);
+    await expectAuctionHistory(store);
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * Runs the keeper against a local hardhat node with the FHEVM mock, from the repository root:
+ *
+ *   npx hardhat node
+ *   HARDHAT_NODE_URL=http://127.0.0.1:8545 npm run test:e2e
+ */
+
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { ethers } from 'ethers';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { FhevmClient } from '../src/core/fhevm.js';
+import { HouseBidClient } from '../src/core/housebid.js';
+import { HouseBid_FHE__factory } from '../src/typechain/index.js';
+import { AuctionKeeper } from '../src/node/keeper.js';
+
+const nodeUrl = process.env.HARDHAT_NODE_URL;
+const DURATION = 3600;
+
+describe.skipIf(!nodeUrl)('AuctionKeeper against a hardhat node', () => {
+  let provider: ethers.JsonRpcProvider;
+  let fhevm: FhevmClient;
+  let stateDir: string;
+  let clients: (signerIndex: number) => Promise<HouseBidClient>;
+
+  beforeAll(async () => {
+    provider = new ethers.JsonRpcProvider(nodeUrl);
+    fhevm = new FhevmClient({ mode: 'mock', rpcUrl: nodeUrl });
+    await fhevm.initialize();
+    stateDir = await mkdtemp(join(tmpdir(), 'housebid-keeper-'));
+
+    const contract = await new HouseBid_FHE__factory(await provider.getSigner(0)).deploy();
+    await contract.waitForDeployment();
+    const address = await contract.getAddress();
+    clients = async (signerIndex) => new HouseBidClient(address, await provider.getSigner(signerIndex), fhevm);
+  }, 120_000);
+
+  afterAll(async () => {
+    if (stateDir) await rm(stateDir, { recursive: true, force: true });
+  });
+
+  async function endBidding() {
+    await provider.send('evm_increaseTime', [DURATION + 1]);
+    await provider.send('evm_mine', []);
+  }
+
+  it('concludes ended auctions, resumes requested reveals and persists its progress', async () => {
+    const seller = await clients(0);
+    const propertyIds = [`keeper-${Date.now()}-a`, `keeper-${Date.now()}-b`, `keeper-${Date.now()}-c`];
+    for (const propertyId of propertyIds) {
+      await seller.listProperty(propertyId, 'Keeper test listing', DURATION, { reservePrice: 100 });
+    }
+
+    const [alice, bob] = [await clients(1), await clients(2)];
+    await alice.submitBid(propertyIds[0], 150);
+    await bob.submitBid(propertyIds[0], 200);
+    await alice.submitBid(propertyIds[1], 50);
+    await endBidding();
+
+    // A reveal somebody requested before the keeper came along
+    await alice.requestWinnerReveal(propertyIds[1]);
+
+    const stateFile = join(stateDir, 'state.json');
+    const keeper = new AuctionKeeper(await clients(3), { stateFile, healthPort: 0, interval: 60_000 });
+    await keeper.start();
+    await keeper.runOnce();
+
+    const bobAddress = await (await provider.getSigner(2)).getAddress();
+    expect(await seller.getAuctionResult(propertyIds[0])).toMatchObject({ winner: bobAddress, winningAmount: 200, reserveMet: true });
+    expect(await seller.getAuctionsAwaitingReveal()).toEqual([]);
+
+    const state = JSON.parse(await readFile(stateFile, 'utf8'));
+    expect(state.concluded[propertyIds[0]]).toMatchObject({ winner: bobAddress, reserveMet: true });
+    expect(state.concluded[propertyIds[1]]).toMatchObject({ winner: ethers.ZeroAddress, reserveMet: false });
+    expect(state.concluded[propertyIds[2]]).toMatchObject({ winner: ethers.ZeroAddress });
+    expect(state.failures).toEqual({});
+
+    const response = await fetch(`http://127.0.0.1:${keeper.healthPort}/health`);
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({ status: 'ok', concluded: 3, failing: [] });
+    await keeper.stop();
+
+    // A restarted keeper picks up its history and has nothing left to do
+    const restarted = new AuctionKeeper(await clients(3), { stateFile });
+    await restarted.start();
+    expect(await restarted.runOnce()).toEqual([]);
+    expect(Object.keys(restarted.getState().concluded)).toEqual(expect.arrayContaining(propertyIds));
+    await restarted.stop();
+  }, 300_000);
+});
@@ -0,0 +1,59 @@
+/**
+ * Runs the SDK's mock mode against a local hardhat node with the FHEVM mock, from the repository root:
+ *
+ *   npx hardhat node
+ *   HARDHAT_NODE_URL=http://127.0.0.1:8545 npm run test:e2e
+ */
+
+import { ethers } from 'ethers';
+import { beforeAll, describe, expect, it } from 'vitest';
+import { FhevmClient } from '../src/core/fhevm.js';
+import { HouseBidClient } from '../src/core/housebid.js';
+import { HouseBid_FHE__factory } from '../src/typechain/index.js';
+
+const nodeUrl = process.env.HARDHAT_NODE_URL;
+const DURATION = 3600;
+
+describe.skipIf(!nodeUrl)('FhevmClient mock mode against a hardhat node', () => {
+  let provider: ethers.JsonRpcProvider;
+  let fhevm: FhevmClient;
+  let clients: (signerIndex: number) => Promise<HouseBidClient>;
+
+  beforeAll(async () => {
+    provider = new ethers.JsonRpcProvider(nodeUrl);
+    fhevm = new FhevmClient({ mode: 'mock', rpcUrl: nodeUrl });
+    await fhevm.initialize();
+
+    const contract = await new HouseBid_FHE__factory(await provider.getSigner(0)).deploy();
+    await contract.waitForDeployment();
+    const address = await contract.getAddress();
+    clients = async (signerIndex) => new HouseBidClient(address, await provider.getSigner(signerIndex), fhevm);
+  }, 120_000);
+
+  it('encrypts bids, user-decrypts them for their bidder and public-decrypts the winner with a proof', async () => {
+    const propertyId = `mock-${Date.now()}`;
+    const seller = await clients(0);
+    await seller.listProperty(propertyId, 'Mock mode listing', DURATION, { reservePrice: 100 });
+
+    const [alice, bob] = [await clients(1), await clients(2)];
+    await alice.submitBid(propertyId, 180);
+    await bob.submitBid(propertyId, 120);
+
+    expect(await alice.viewMyBid(propertyId, 0)).toBe(180);
+    expect(await bob.viewMyBid(propertyId, 1)).toBe(120);
+
+    await provider.send('evm_increaseTime', [DURATION + 1]);
+    await provider.send('evm_mine', []);
+    await seller.requestWinnerReveal(propertyId);
+    await seller.determineWinner(propertyId);
+
+    const aliceAddress = await (await provider.getSigner(1)).getAddress();
+    expect(await seller.getAuctionResult(propertyId)).toMatchObject({ winner: aliceAddress, winningAmount: 180 });
+  }, 300_000);
+
+  it('fails fast when nothing listens at the RPC URL', async () => {
+    await expect(new FhevmClient({ mode: 'mock', rpcUrl: 'http://127.0.0.1:1' }).initialize()).rejects.toThrow(
+      'is not a hardhat node with the FHEVM mock'
+    );
+  });
+});
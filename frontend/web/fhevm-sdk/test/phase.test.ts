@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { CLOSING_SOON_SECONDS, acceptsBids, getAuctionPhase, secondsUntilNextPhase } from '../src/core/phase.js';
+import type { PhaseInput } from '../src/core/phase.js';
+
+const START = 1_700_000_000;
+const END = START + 24 * 3600;
+
+function listing(overrides: Partial<PhaseInput> = {}): PhaseInput {
+  return {
+    startTime: START,
+    endTime: END,
+    isActive: true,
+    isPaused: false,
+    isCancelled: false,
+    antiSniping: { window: 0, extension: 0, maxExtension: 0 },
+    ...overrides,
+  };
+}
+
+describe('getAuctionPhase', () => {
+  it('is upcoming until the start time', () => {
+    expect(getAuctionPhase(listing(), START - 1)).toBe('upcoming');
+    expect(getAuctionPhase(listing(), START)).toBe('open');
+  });
+
+  it('is closing soon within the last hour without anti-sniping', () => {
+    expect(getAuctionPhase(listing(), END - CLOSING_SOON_SECONDS)).toBe('open');
+    expect(getAuctionPhase(listing(), END - CLOSING_SOON_SECONDS + 1)).toBe('closingSoon');
+  });
+
+  it('is closing soon exactly when a bid would extend the deadline', () => {
+    const property = listing({ antiSniping: { window: 600, extension: 300, maxExtension: 900 } });
+    expect(getAuctionPhase(property, END - 600)).toBe('open');
+    expect(getAuctionPhase(property, END - 599)).toBe('closingSoon');
+  });
+
+  it('accepts bids up to and including the end time', () => {
+    expect(getAuctionPhase(listing(), END)).toBe('closingSoon');
+    expect(acceptsBids(getAuctionPhase(listing(), END))).toBe(true);
+    expect(getAuctionPhase(listing(), END + 1)).toBe('awaitingReveal');
+    expect(acceptsBids(getAuctionPhase(listing(), END + 1))).toBe(false);
+  });
+
+  it('is paused while bidding would be open, awaiting reveal after the end', () => {
+    const property = listing({ isPaused: true });
+    expect(getAuctionPhase(property, START)).toBe('paused');
+    expect(acceptsBids('paused')).toBe(false);
+    expect(getAuctionPhase(property, END + 1)).toBe('awaitingReveal');
+  });
+
+  it('is concluded or cancelled once the listing is no longer active', () => {
+    expect(getAuctionPhase(listing({ isActive: false }), START)).toBe('concluded');
+    expect(getAuctionPhase(listing({ isActive: false, isCancelled: true }), START)).toBe('cancelled');
+    expect(getAuctionPhase(listing({ isActive: false, isCancelled: true }), END + 1)).toBe('cancelled');
+  });
+});
+
+describe('secondsUntilNextPhase', () => {
+  it('counts down to the start, then to the first second after the end', () => {
+    expect(secondsUntilNextPhase(listing(), START - 10)).toBe(10);
+    expect(secondsUntilNextPhase(listing(), END)).toBe(1);
+  });
+
+  it('is null once only a transaction can change the phase', () => {
+    expect(secondsUntilNextPhase(listing(), END + 1)).toBeNull();
+    expect(secondsUntilNextPhase(listing({ isActive: false }), START)).toBeNull();
+  });
+});
@@ -1,71 +1,212 @@
 import { ConnectButton } from '@rainbow-me/rainbowkit';
 import '@rainbow-me/rainbowkit/styles.css';
-import React, { useEffect, useState } from "react";
-import { getContractReadOnly, getContractWithSigner } from "./components/useContract";
+import React, { useEffect, useRef, useState } from "react";
+import { ZeroAddress, ZeroHash, formatEther, id, isAddress, isHexString, parseEther } from "ethers";
+import { getAuctionIndexer, getClientWithSigner } from "./components/useContract";
+import { VirtualList } from "./components/VirtualList";
 import "./App.css";
 import { useAccount } from 'wagmi';
-import { useFhevm, useEncrypt, useDecrypt } from '../fhevm-sdk/src';
-
-interface PropertyBid {
-  id: string;
-  name: string;
-  encryptedBid: string;
-  publicValue1: number;
-  publicValue2: number;
-  description: string;
-  timestamp: number;
-  creator: string;
-  isVerified?: boolean;
-  decryptedValue?: number;
-}
+import { acceptsBids, getAuctionPhase, secondsUntilNextPhase, useAuctionEvents, useFhevm, useWinnerReveal } from '../fhevm-sdk/src';
+import type {
+  AuctionEvent, AuctionEventStatus, AuctionIndexer, AuctionOutcome, AuctionPhase, AuctionType, Bid, ConclusionProgress, ConclusionResult,
+  Deposit, Escrow, HouseBidClient, PropertySummary as Property, WinnerRevealStep
+} from '../fhevm-sdk/src';
 
-interface BidAnalysis {
-  marketValue: number;
-  bidCompetitiveness: number;
-  priceTrend: number;
-  riskLevel: number;
-  successProbability: number;
+/**
+ * Bids and deposits of one listing, only read from the index for the listing that is open in the detail modal
+ */
+interface PropertyActivity {
+  propertyId: string;
+  bids: Bid[];
+  /**
+   * Deposits held per bidder, keyed by lowercase address
+   */
+  escrows: Record<string, Escrow>;
 }
 
+const PROPERTY_ROW_HEIGHT = 190;
+const PROPERTY_LIST_HEIGHT = 760;
+
+const shortAddress = (addr: string) => `${addr.substring(0, 6)}...${addr.substring(38)}`;
+
+const nowSeconds = () => Math.floor(Date.now() / 1000);
+
+const byListingTime = (a: Property, b: Property) => a.startTime - b.startTime || a.propertyId.localeCompare(b.propertyId);
+
+const formatTimeLeft = (seconds: number) => {
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = seconds % 60;
+  return `${h}h ${String(m).padStart(2, "0")}m ${String(s).padStart(2, "0")}s`;
+};
+
+const useNow = () => {
+  const [now, setNow] = useState(nowSeconds());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(nowSeconds()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  return now;
+};
+
+const phaseLabels: Record<AuctionPhase, string> = {
+  upcoming: "🕓 Upcoming",
+  open: "🟢 Open for Bids",
+  closingSoon: "⏰ Closing Soon",
+  paused: "⏸️ Paused",
+  awaitingReveal: "⏳ Awaiting Winner Reveal",
+  concluded: "🏁 Concluded",
+  cancelled: "🚫 Cancelled",
+};
+
+/**
+ * Phase badge with a live countdown to the opening or the deadline
+ */
+const PhaseStatus: React.FC<{ property: Property }> = ({ property }) => {
+  const now = useNow();
+  const phase = getAuctionPhase(property, now);
+  const secondsLeft = secondsUntilNextPhase(property, now);
+
+  return (
+    <span className={`phase-badge ${phase}`}>
+      {phaseLabels[phase]}
+      {phase === "upcoming" && secondsLeft !== null && ` - opens in ${formatTimeLeft(secondsLeft)}`}
+      {acceptsBids(phase) && ` - closes in ${formatTimeLeft(property.endTime - now)}`}
+    </span>
+  );
+};
+
+type ListingAction = "pause" | "resume" | "cancel" | "details";
+
+const listingActionLabels: Record<ListingAction, { pending: string; success: string; error: string }> = {
+  pause: { pending: "Pausing listing...", success: "Listing paused", error: "Pausing listing failed" },
+  resume: { pending: "Resuming listing...", success: "Listing open for bids again", error: "Resuming listing failed" },
+  cancel: { pending: "Cancelling listing...", success: "Listing cancelled", error: "Cancelling listing failed" },
+  details: { pending: "Updating details...", success: "Details updated", error: "Updating details failed" },
+};
+
+const hasWinner = (property: Property) => !property.isActive && property.result.reserveMet;
+
+const formatDeposit = ({ token, amount }: Deposit) =>
+  token === ZeroAddress ? `${formatEther(amount)} ETH` : `${amount} units of token ${shortAddress(token)}`;
+
+const depositStatus = (property: Property, activity: PropertyActivity, bidder: string) => {
+  const escrow = activity.escrows[bidder.toLowerCase()];
+  if (!escrow || escrow.amount === 0n) return null;
+  if (property.isActive) return "Deposit held";
+
+  const isWinner = hasWinner(property) && property.result.winner.toLowerCase() === bidder.toLowerCase();
+  if (isWinner) return escrow.settled ? "Deposit paid to seller" : "Deposit goes to seller";
+  return escrow.settled ? "Deposit refunded" : "Refund available";
+};
+
+const outcomeLabel = (property: Property) => {
+  const { winner, winningAmount } = property.result;
+  if (property.isCancelled) return "Listing cancelled by the seller";
+  if (hasWinner(property)) return `${shortAddress(winner)} - pays $${winningAmount}`;
+  return property.activeBidsCount > 0 ? "Reserve price not met" : "No bids were placed";
+};
+
+const auctionTypeLabels: Record<AuctionType, string> = {
+  firstPrice: "First-price",
+  secondPrice: "Second-price (Vickrey)",
+};
+
+const historyIcons: Record<string, string> = {
+  bid_submission: "📤",
+  bid_replacement: "🔁",
+  winner_reveal: "🏆",
+};
+
+const liveStatusLabels: Record<AuctionEventStatus, string> = {
+  connecting: "⚪ Connecting...",
+  live: "🟢 Live",
+  reconnecting: "🟠 Reconnecting...",
+};
+
+const revealStepLabels: Record<WinnerRevealStep, string> = {
+  folding: "Folding encrypted bids...",
+  requesting: "Requesting winner reveal...",
+  decrypting: "Decrypting highest bid...",
+  concluding: "Verifying winner on-chain...",
+};
+
+const emptyListingData = {
+  propertyId: "",
+  details: "",
+  durationHours: "24",
+  reservePrice: "",
+  auctionType: "firstPrice" as AuctionType,
+  snipingWindowMinutes: "",
+  extensionMinutes: "",
+  maxExtensionMinutes: "",
+  depositAmount: "",
+  depositToken: "",
+  allowlistRoot: "",
+  allowlistProofsURI: "",
+  allowlistRegistry: "",
+};
+
 const App: React.FC = () => {
   const { address, isConnected } = useAccount();
   const [loading, setLoading] = useState(true);
-  const [properties, setProperties] = useState<PropertyBid[]>([]);
+  const [properties, setProperties] = useState<Property[]>([]);
   const [isRefreshing, setIsRefreshing] = useState(false);
-  const [showBidModal, setShowBidModal] = useState(false);
+  const [showListingModal, setShowListingModal] = useState(false);
+  const [concludeWizardIds, setConcludeWizardIds] = useState<string[] | null>(null);
+  const [listing, setListing] = useState(false);
   const [submittingBid, setSubmittingBid] = useState(false);
-  const [transactionStatus, setTransactionStatus] = useState<{ visible: boolean; status: "pending" | "success" | "error"; message: string; }>({ 
-    visible: false, 
-    status: "pending", 
-    message: "" 
+  const [withdrawingBid, setWithdrawingBid] = useState(false);
+  const [settlingDeposit, setSettlingDeposit] = useState(false);
+  const [managingPropertyId, setManagingPropertyId] = useState<string | null>(null);
+  const [transactionStatus, setTransactionStatus] = useState<{ visible: boolean; status: "pending" | "success" | "error"; message: string; }>({
+    visible: false,
+    status: "pending",
+    message: ""
   });
-  const [newBidData, setNewBidData] = useState({ propertyName: "", bidAmount: "", description: "" });
-  const [selectedProperty, setSelectedProperty] = useState<PropertyBid | null>(null);
-  const [decryptedBid, setDecryptedBid] = useState<number | null>(null);
-  const [isDecrypting, setIsDecrypting] = useState(false);
-  const [contractAddress, setContractAddress] = useState("");
+  const [newListingData, setNewListingData] = useState(emptyListingData);
+  const [selectedPropertyId, setSelectedPropertyId] = useState<string | null>(null);
+  const [activity, setActivity] = useState<PropertyActivity | null>(null);
+  const [indexVersion, setIndexVersion] = useState(0);
+  const indexerRef = useRef<AuctionIndexer | null>(null);
+  const [readClient, setReadClient] = useState<HouseBidClient | null>(null);
+  const [viewingIndex, setViewingIndex] = useState<number | null>(null);
+  const [myBidAmounts, setMyBidAmounts] = useState<Record<string, number>>({});
   const [fhevmInitializing, setFhevmInitializing] = useState(false);
   const [userHistory, setUserHistory] = useState<any[]>([]);
   const [searchTerm, setSearchTerm] = useState("");
 
   const { status, initialize, isInitialized } = useFhevm();
-  const { encrypt, isEncrypting } = useEncrypt();
-  const { verifyDecryption, isDecrypting: fheIsDecrypting } = useDecrypt();
+  const { revealWinner, revealWinners, step: revealStep, progress: conclusionProgress } = useWinnerReveal();
+
+  const selectedProperty = properties.find(p => p.propertyId === selectedPropertyId) || null;
+  const selectedActivity = activity?.propertyId === selectedPropertyId ? activity : null;
+
+  const showStatus = (status: "pending" | "success" | "error", message: string, hideAfter?: number) => {
+    setTransactionStatus({ visible: true, status, message });
+    if (hideAfter) {
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), hideAfter);
+    }
+  };
+
+  const showError = (prefix: string, e: any) => {
+    const errorMessage = e?.message?.includes("user rejected transaction")
+      ? "Transaction rejected by user"
+      : `${prefix}: ` + (e?.reason || e?.message || "Unknown error");
+    showStatus("error", errorMessage, 3000);
+  };
 
   useEffect(() => {
     const initFhevmAfterConnection = async () => {
       if (!isConnected || isInitialized || fhevmInitializing) return;
-      
+
       try {
         setFhevmInitializing(true);
         await initialize();
       } catch (error) {
-        setTransactionStatus({ 
-          visible: true, 
-          status: "error", 
-          message: "FHEVM initialization failed" 
-        });
-        setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+        showStatus("error", "FHEVM initialization failed", 3000);
       } finally {
         setFhevmInitializing(false);
       }
@@ -75,16 +216,23 @@ const App: React.FC = () => {
   }, [isConnected, isInitialized, initialize, fhevmInitializing]);
 
   useEffect(() => {
-    const loadDataAndContract = async () => {
+    let cancelled = false;
+    let unsubscribe = () => {};
+
+    const loadData = async () => {
       if (!isConnected) {
         setLoading(false);
         return;
       }
-      
+
       try {
+        const indexer = await getAuctionIndexer();
+        if (!indexer || cancelled) return;
+
+        indexerRef.current = indexer;
         await loadProperties();
-        const contract = await getContractReadOnly();
-        if (contract) setContractAddress(await contract.getAddress());
+        unsubscribe = indexer.subscribe(() => readIndex(indexer));
+        setReadClient(indexer.client);
       } catch (error) {
         console.error('Failed to load data:', error);
       } finally {
@@ -92,326 +240,373 @@ const App: React.FC = () => {
       }
     };
 
-    loadDataAndContract();
+    loadData();
+    return () => {
+      cancelled = true;
+      unsubscribe();
+      indexerRef.current = null;
+      setReadClient(null);
+    };
   }, [isConnected]);
 
+  /**
+   * Every contract event brings the local index up to date, which refreshes the list and the open listing
+   */
+  const onAuctionEvent = (event: AuctionEvent) => {
+    indexerRef.current?.sync().catch(error => console.error('Indexing failed:', error));
+
+    if (event.name === "DeadlineExtended") {
+      const property = properties.find(p => id(p.propertyId) === event.propertyIdHash);
+      const endTime = new Date(Number(event.args.newEndTime) * 1000).toLocaleTimeString();
+      showStatus("success", `Late bid on ${property?.propertyId ?? "a listing"}, bidding extended to ${endTime}`, 3000);
+    }
+  };
+
+  const { status: liveStatus } = useAuctionEvents(null, readClient, onAuctionEvent);
+
+  useEffect(() => {
+    if (selectedPropertyId) loadActivity(selectedPropertyId);
+  }, [selectedPropertyId, indexVersion]);
+
+  const readIndex = async (indexer: AuctionIndexer) => {
+    const propertiesList = await indexer.store.getProperties();
+    setProperties(propertiesList.sort(byListingTime));
+    setIndexVersion(version => version + 1);
+  };
+
+  const loadActivity = async (propertyId: string) => {
+    const indexer = indexerRef.current;
+    if (!indexer) return;
+
+    try {
+      const [bids, indexedEscrows] = await Promise.all([
+        indexer.store.getBids(propertyId),
+        indexer.store.getEscrows(propertyId),
+      ]);
+      const escrows: Record<string, Escrow> = {};
+      indexedEscrows.forEach(({ bidder, amount, settled }) => {
+        escrows[bidder.toLowerCase()] = { amount, settled };
+      });
+
+      setActivity({ propertyId, bids, escrows });
+    } catch (e) {
+      console.error('Error loading bids:', e);
+    }
+  };
+
+  /**
+   * Indexes the blocks since the last sync, then reads the listings from the local index
+   */
   const loadProperties = async () => {
-    if (!isConnected) return;
-    
+    const indexer = indexerRef.current;
+    if (!isConnected || !indexer) return;
+
     setIsRefreshing(true);
     try {
-      const contract = await getContractReadOnly();
-      if (!contract) return;
-      
-      const businessIds = await contract.getAllBusinessIds();
-      const propertiesList: PropertyBid[] = [];
-      
-      for (const businessId of businessIds) {
-        try {
-          const propertyData = await contract.getBusinessData(businessId);
-          propertiesList.push({
-            id: businessId,
-            name: propertyData.name,
-            encryptedBid: businessId,
-            publicValue1: Number(propertyData.publicValue1) || 0,
-            publicValue2: Number(propertyData.publicValue2) || 0,
-            description: propertyData.description,
-            timestamp: Number(propertyData.timestamp),
-            creator: propertyData.creator,
-            isVerified: propertyData.isVerified,
-            decryptedValue: Number(propertyData.decryptedValue) || 0
-          });
-        } catch (e) {
-          console.error('Error loading property data:', e);
-        }
-      }
-      
-      setProperties(propertiesList);
+      await indexer.sync();
+      await readIndex(indexer);
     } catch (e) {
-      setTransactionStatus({ visible: true, status: "error", message: "Failed to load properties" });
-      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
-    } finally { 
-      setIsRefreshing(false); 
+      showStatus("error", "Failed to load properties", 3000);
+    } finally {
+      setIsRefreshing(false);
+    }
+  };
+
+  const listProperty = async () => {
+    if (!isConnected || !address) {
+      showStatus("error", "Please connect wallet first", 3000);
+      return;
+    }
+
+    setListing(true);
+    showStatus("pending", "Listing property...");
+
+    try {
+      const client = await getClientWithSigner();
+
+      const duration = Math.round((parseFloat(newListingData.durationHours) || 0) * 3600);
+      const reservePrice = parseInt(newListingData.reservePrice) || 0;
+      const minutes = (value: string) => Math.round((parseFloat(value) || 0) * 60);
+      const depositToken = newListingData.depositToken.trim();
+      if (depositToken && !isAddress(depositToken)) {
+        showStatus("error", "Deposit token must be an ERC-20 contract address", 3000);
+        return;
+      }
+      const depositAmount = newListingData.depositAmount || "0";
+      const allowlistRoot = newListingData.allowlistRoot.trim();
+      const allowlistRegistry = newListingData.allowlistRegistry.trim();
+      if (allowlistRoot && !isHexString(allowlistRoot, 32)) {
+        showStatus("error", "Allowlist Merkle root must be a 32-byte hex string", 3000);
+        return;
+      }
+      if (allowlistRegistry && !isAddress(allowlistRegistry)) {
+        showStatus("error", "Bidder registry must be a contract address", 3000);
+        return;
+      }
+      await client.listProperty(newListingData.propertyId, newListingData.details, duration, {
+        reservePrice,
+        auctionType: newListingData.auctionType,
+        antiSniping: {
+          window: minutes(newListingData.snipingWindowMinutes),
+          extension: minutes(newListingData.extensionMinutes),
+          maxExtension: minutes(newListingData.maxExtensionMinutes),
+        },
+        deposit: depositToken
+          ? { token: depositToken, amount: BigInt(depositAmount) }
+          : { token: ZeroAddress, amount: parseEther(depositAmount) },
+        allowlist: {
+          merkleRoot: allowlistRoot || ZeroHash,
+          proofsURI: newListingData.allowlistProofsURI.trim(),
+          registry: allowlistRegistry || ZeroAddress,
+        },
+      });
+
+      showStatus("success", "Property listed successfully!", 2000);
+
+      await loadProperties();
+      setShowListingModal(false);
+      setNewListingData(emptyListingData);
+    } catch (e: any) {
+      showError("Listing failed", e);
+    } finally {
+      setListing(false);
     }
   };
 
-  const submitBid = async () => {
-    if (!isConnected || !address) { 
-      setTransactionStatus({ visible: true, status: "error", message: "Please connect wallet first" });
-      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
-      return; 
+  /**
+   * Submits a new bid, or replaces the connected account's active bid when `replace` is set
+   */
+  const submitBid = async (propertyId: string, bidAmount: number, replace: boolean): Promise<boolean> => {
+    if (!isConnected || !address) {
+      showStatus("error", "Please connect wallet first", 3000);
+      return false;
     }
-    
+
     setSubmittingBid(true);
-    setTransactionStatus({ visible: true, status: "pending", message: "Submitting encrypted bid with Zama FHE..." });
-    
+    showStatus("pending", replace ? "Replacing your encrypted bid..." : "Submitting encrypted bid with Zama FHE...");
+
     try {
-      const contract = await getContractWithSigner();
-      if (!contract) throw new Error("Failed to get contract with signer");
-      
-      const bidAmount = parseInt(newBidData.bidAmount) || 0;
-      const businessId = `property-${Date.now()}`;
-      
-      const encryptedResult = await encrypt(contractAddress, address, bidAmount);
-      
-      const tx = await contract.createBusinessData(
-        businessId,
-        newBidData.propertyName,
-        encryptedResult.encryptedData,
-        encryptedResult.proof,
-        0,
-        0,
-        newBidData.description
-      );
-      
-      setTransactionStatus({ visible: true, status: "pending", message: "Waiting for transaction confirmation..." });
-      await tx.wait();
-      
+      const client = await getClientWithSigner();
+      if (replace) {
+        await client.replaceBid(propertyId, bidAmount);
+      } else {
+        await client.submitBid(propertyId, bidAmount);
+      }
+
       setUserHistory(prev => [{
-        type: 'bid_submission',
-        property: newBidData.propertyName,
+        type: replace ? 'bid_replacement' : 'bid_submission',
+        property: propertyId,
         amount: bidAmount,
         timestamp: Date.now(),
         status: 'success'
       }, ...prev]);
-      
-      setTransactionStatus({ visible: true, status: "success", message: "Encrypted bid submitted successfully!" });
-      setTimeout(() => {
-        setTransactionStatus({ visible: false, status: "pending", message: "" });
-      }, 2000);
-      
+
+      showStatus("success", replace ? "Encrypted bid replaced successfully!" : "Encrypted bid submitted successfully!", 2000);
+
       await loadProperties();
-      setShowBidModal(false);
-      setNewBidData({ propertyName: "", bidAmount: "", description: "" });
+      return true;
     } catch (e: any) {
-      const errorMessage = e.message?.includes("user rejected transaction") 
-        ? "Transaction rejected by user" 
-        : "Bid submission failed: " + (e.message || "Unknown error");
-      setTransactionStatus({ visible: true, status: "error", message: errorMessage });
-      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
-    } finally { 
-      setSubmittingBid(false); 
+      showError("Bid submission failed", e);
+      return false;
+    } finally {
+      setSubmittingBid(false);
     }
   };
 
-  const decryptBid = async (propertyId: string): Promise<number | null> => {
-    if (!isConnected || !address) { 
-      setTransactionStatus({ visible: true, status: "error", message: "Please connect wallet first" });
-      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
-      return null; 
+  const withdrawBid = async (propertyId: string) => {
+    if (!isConnected || !address) {
+      showStatus("error", "Please connect wallet first", 3000);
+      return;
     }
-    
-    setIsDecrypting(true);
+
+    setWithdrawingBid(true);
+    showStatus("pending", "Withdrawing your bid...");
+
     try {
-      const contractRead = await getContractReadOnly();
-      if (!contractRead) return null;
-      
-      const propertyData = await contractRead.getBusinessData(propertyId);
-      if (propertyData.isVerified) {
-        const storedValue = Number(propertyData.decryptedValue) || 0;
-        setDecryptedBid(storedValue);
-        
-        setUserHistory(prev => [{
-          type: 'bid_decryption',
-          property: propertyData.name,
-          amount: storedValue,
-          timestamp: Date.now(),
-          status: 'verified'
-        }, ...prev]);
-        
-        setTransactionStatus({ 
-          visible: true, 
-          status: "success", 
-          message: "Bid already verified on-chain" 
-        });
-        setTimeout(() => {
-          setTransactionStatus({ visible: false, status: "pending", message: "" });
-        }, 2000);
-        
-        return storedValue;
-      }
-      
-      const contractWrite = await getContractWithSigner();
-      if (!contractWrite) return null;
-      
-      const encryptedValueHandle = await contractRead.getEncryptedValue(propertyId);
-      
-      const result = await verifyDecryption(
-        [encryptedValueHandle],
-        contractAddress,
-        (abiEncodedClearValues: string, decryptionProof: string) => 
-          contractWrite.verifyDecryption(propertyId, abiEncodedClearValues, decryptionProof)
-      );
-      
-      setTransactionStatus({ visible: true, status: "pending", message: "Verifying decryption on-chain..." });
-      
-      const clearValue = result.decryptionResult.clearValues[encryptedValueHandle];
-      const decryptedAmount = Number(clearValue);
-      setDecryptedBid(decryptedAmount);
-      
-      setUserHistory(prev => [{
-        type: 'bid_decryption',
-        property: selectedProperty?.name || '',
-        amount: decryptedAmount,
-        timestamp: Date.now(),
-        status: 'success'
-      }, ...prev]);
-      
+      const client = await getClientWithSigner();
+      await client.withdrawBid(propertyId);
+
+      showStatus("success", "Bid withdrawn, it can no longer win", 2000);
       await loadProperties();
-      
-      setTransactionStatus({ visible: true, status: "success", message: "Bid decrypted and verified successfully!" });
-      setTimeout(() => {
-        setTransactionStatus({ visible: false, status: "pending", message: "" });
-      }, 2000);
-      
-      return decryptedAmount;
-      
-    } catch (e: any) { 
-      if (e.message?.includes("Data already verified")) {
-        setTransactionStatus({ 
-          visible: true, 
-          status: "success", 
-          message: "Bid is already verified on-chain" 
-        });
-        setTimeout(() => {
-          setTransactionStatus({ visible: false, status: "pending", message: "" });
-        }, 2000);
-        
-        await loadProperties();
-        return null;
+    } catch (e: any) {
+      showError("Withdrawing bid failed", e);
+    } finally {
+      setWithdrawingBid(false);
+    }
+  };
+
+  /**
+   * Claims the connected bidder's refund, or pays the winner's deposit out when the seller calls it
+   */
+  const settleDeposit = async (property: Property) => {
+    if (!isConnected || !address) {
+      showStatus("error", "Please connect wallet first", 3000);
+      return;
+    }
+
+    const isSeller = property.seller.toLowerCase() === address.toLowerCase();
+    setSettlingDeposit(true);
+    showStatus("pending", isSeller ? "Withdrawing proceeds..." : "Claiming your deposit refund...");
+
+    try {
+      const client = await getClientWithSigner();
+      if (isSeller) {
+        await client.withdrawProceeds(property.propertyId);
+      } else {
+        await client.claimRefund(property.propertyId);
       }
-      
-      setTransactionStatus({ 
-        visible: true, 
-        status: "error", 
-        message: "Decryption failed: " + (e.message || "Unknown error") 
-      });
-      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
-      return null; 
-    } finally { 
-      setIsDecrypting(false); 
+
+      showStatus("success", isSeller ? "Winner's deposit paid out to you" : "Deposit refunded", 2000);
+      await loadProperties();
+    } catch (e: any) {
+      showError(isSeller ? "Withdrawing proceeds failed" : "Claiming refund failed", e);
+    } finally {
+      setSettlingDeposit(false);
     }
   };
 
-  const analyzeBid = (property: PropertyBid, decryptedAmount: number | null): BidAnalysis => {
-    const bidAmount = property.isVerified ? (property.decryptedValue || 0) : (decryptedAmount || property.publicValue1 || 100000);
-    
-    const marketValue = Math.round(bidAmount * (0.8 + Math.random() * 0.4));
-    const bidCompetitiveness = Math.min(100, Math.round((bidAmount / marketValue) * 100));
-    const priceTrend = Math.round(50 + (Math.random() * 50));
-    const riskLevel = Math.max(10, Math.min(90, 100 - bidCompetitiveness + 20));
-    const successProbability = Math.min(95, Math.round(bidCompetitiveness * 0.8 + (100 - riskLevel) * 0.2));
-
-    return {
-      marketValue,
-      bidCompetitiveness,
-      priceTrend,
-      riskLevel,
-      successProbability
-    };
+  const manageListing = async (propertyId: string, action: ListingAction, details?: string): Promise<boolean> => {
+    if (!isConnected || !address) {
+      showStatus("error", "Please connect wallet first", 3000);
+      return false;
+    }
+
+    const labels = listingActionLabels[action];
+    setManagingPropertyId(propertyId);
+    showStatus("pending", labels.pending);
+
+    try {
+      const client = await getClientWithSigner();
+      if (action === "pause") await client.pauseListing(propertyId);
+      if (action === "resume") await client.resumeListing(propertyId);
+      if (action === "cancel") await client.cancelListing(propertyId);
+      if (action === "details") await client.updateDetails(propertyId, details ?? "");
+
+      showStatus("success", labels.success, 2000);
+      await loadProperties();
+      return true;
+    } catch (e: any) {
+      showError(labels.error, e);
+      return false;
+    } finally {
+      setManagingPropertyId(null);
+    }
+  };
+
+  const viewMyBid = async (property: Property, bid: Bid) => {
+    if (!isConnected || !address) {
+      showStatus("error", "Please connect wallet first", 3000);
+      return;
+    }
+
+    setViewingIndex(bid.index);
+    try {
+      const client = await getClientWithSigner();
+
+      showStatus("pending", "Sign the request to decrypt your bid...");
+
+      const amount = await client.viewMyBid(property.propertyId, bid.index);
+      setMyBidAmounts(prev => ({ ...prev, [`${property.propertyId}:${bid.index}`]: amount }));
+
+      showStatus("success", "Bid decrypted for your eyes only", 2000);
+    } catch (e: any) {
+      showError("Decrypting your bid failed", e);
+    } finally {
+      setViewingIndex(null);
+    }
+  };
+
+  const determineWinner = async (property: Property) => {
+    if (!isConnected || !address) {
+      showStatus("error", "Please connect wallet first", 3000);
+      return;
+    }
+
+    showStatus("pending", "Concluding auction...");
+
+    try {
+      const client = await getClientWithSigner();
+      recordOutcome(await revealWinner(client, property.propertyId));
+
+      showStatus("success", "Auction concluded!", 2000);
+      await loadProperties();
+    } catch (e: any) {
+      showError("Concluding auction failed", e);
+    }
   };
 
+  /**
+   * Concludes every given auction, a failed one does not stop the others
+   */
+  const concludeAuctions = async (propertyIds: string[]): Promise<ConclusionResult[]> => {
+    if (!isConnected || !address) {
+      showStatus("error", "Please connect wallet first", 3000);
+      return [];
+    }
+
+    try {
+      const client = await getClientWithSigner();
+      const results = await revealWinners(client, propertyIds);
+      results.forEach(({ outcome }) => outcome && recordOutcome(outcome));
+
+      const concluded = results.filter(result => result.outcome).length;
+      showStatus(concluded === results.length ? "success" : "error", `Concluded ${concluded} of ${results.length} auctions`, 3000);
+      await loadProperties();
+      return results;
+    } catch (e: any) {
+      showError("Concluding auctions failed", e);
+      return [];
+    }
+  };
+
+  const recordOutcome = ({ propertyId, winner, winningAmount }: AuctionOutcome) => {
+    if (winner === ZeroAddress) return;
+
+    setUserHistory(prev => [{
+      type: 'winner_reveal',
+      property: propertyId,
+      amount: winningAmount,
+      timestamp: Date.now(),
+      status: 'success'
+    }, ...prev]);
+  };
+
+  const awaitingRevealIds = properties
+    .filter(p => getAuctionPhase(p, nowSeconds()) === "awaitingReveal")
+    .map(p => p.propertyId);
+
   const renderStats = () => {
-    const totalBids = properties.length;
-    const verifiedBids = properties.filter(p => p.isVerified).length;
-    const avgBidAmount = properties.length > 0 
-      ? properties.reduce((sum, p) => sum + p.publicValue1, 0) / properties.length 
-      : 0;
-    
-    const recentBids = properties.filter(p => 
-      Date.now()/1000 - p.timestamp < 60 * 60 * 24 * 7
-    ).length;
+    const totalListings = properties.length;
+    const openListings = properties.filter(p => acceptsBids(getAuctionPhase(p, nowSeconds()))).length;
+    const totalBids = properties.reduce((sum, p) => sum + p.activeBidsCount, 0);
+    const concludedListings = properties.filter(p => !p.isActive && !p.isCancelled).length;
 
     return (
       <div className="stats-grid">
         <div className="stat-card copper-card">
-          <h3>Total Bids</h3>
-          <div className="stat-value">{totalBids}</div>
-          <div className="stat-trend">+{recentBids} this week</div>
+          <h3>Listings</h3>
+          <div className="stat-value">{totalListings}</div>
+          <div className="stat-trend">{openListings} open for bids</div>
         </div>
-        
+
         <div className="stat-card bronze-card">
-          <h3>Verified Bids</h3>
-          <div className="stat-value">{verifiedBids}/{totalBids}</div>
-          <div className="stat-trend">FHE Verified</div>
-        </div>
-        
-        <div className="stat-card silver-card">
-          <h3>Avg Bid Amount</h3>
-          <div className="stat-value">${(avgBidAmount/1000).toFixed(1)}K</div>
-          <div className="stat-trend">Encrypted</div>
+          <h3>Encrypted Bids</h3>
+          <div className="stat-value">{totalBids}</div>
+          <div className="stat-trend">FHE Protected</div>
         </div>
-      </div>
-    );
-  };
 
-  const renderBidChart = (property: PropertyBid, decryptedAmount: number | null) => {
-    const analysis = analyzeBid(property, decryptedAmount);
-    
-    return (
-      <div className="bid-analysis">
-        <div className="chart-row">
-          <div className="chart-label">Market Value</div>
-          <div className="chart-bar">
-            <div 
-              className="bar-fill" 
-              style={{ width: `${Math.min(100, analysis.marketValue/10000)}%` }}
-            >
-              <span className="bar-value">${(analysis.marketValue/1000).toFixed(0)}K</span>
-            </div>
-          </div>
-        </div>
-        <div className="chart-row">
-          <div className="chart-label">Bid Competitiveness</div>
-          <div className="chart-bar">
-            <div 
-              className="bar-fill" 
-              style={{ width: `${analysis.bidCompetitiveness}%` }}
-            >
-              <span className="bar-value">{analysis.bidCompetitiveness}%</span>
-            </div>
-          </div>
-        </div>
-        <div className="chart-row">
-          <div className="chart-label">Market Trend</div>
-          <div className="chart-bar">
-            <div 
-              className="bar-fill" 
-              style={{ width: `${analysis.priceTrend}%` }}
-            >
-              <span className="bar-value">{analysis.priceTrend}%</span>
-            </div>
-          </div>
-        </div>
-        <div className="chart-row">
-          <div className="chart-label">Risk Level</div>
-          <div className="chart-bar">
-            <div 
-              className="bar-fill risk" 
-              style={{ width: `${analysis.riskLevel}%` }}
-            >
-              <span className="bar-value">{analysis.riskLevel}%</span>
-            </div>
-          </div>
-        </div>
-        <div className="chart-row">
-          <div className="chart-label">Success Probability</div>
-          <div className="chart-bar">
-            <div 
-              className="bar-fill growth" 
-              style={{ width: `${analysis.successProbability}%` }}
-            >
-              <span className="bar-value">{analysis.successProbability}%</span>
-            </div>
-          </div>
+        <div className="stat-card silver-card">
+          <h3>Concluded Auctions</h3>
+          <div className="stat-value">{concludedListings}/{totalListings}</div>
+          <div className="stat-trend">Only winners revealed</div>
         </div>
       </div>
     );
   };
 
   const filteredProperties = properties.filter(property =>
-    property.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    property.description.toLowerCase().includes(searchTerm.toLowerCase())
+    property.propertyId.toLowerCase().includes(searchTerm.toLowerCase()) ||
+    property.details.toLowerCase().includes(searchTerm.toLowerCase())
   );
 
   if (!isConnected) {
@@ -427,7 +622,7 @@ const App: React.FC = () => {
             </div>
           </div>
         </header>
-        
+
         <div className="connection-prompt">
           <div className="connection-content">
             <div className="connection-icon">🔐</div>
@@ -444,7 +639,7 @@ const App: React.FC = () => {
               </div>
               <div className="step">
                 <span>3</span>
-                <p>Submit encrypted bids and verify results with zero-knowledge proofs</p>
+                <p>List properties or submit encrypted bids, then reveal them on-chain once bidding closes</p>
               </div>
             </div>
           </div>
@@ -477,25 +672,25 @@ const App: React.FC = () => {
           <h1>🏠 Confidential Real Estate Bidding</h1>
           <p>FHE Protected Property Auctions</p>
         </div>
-        
+
         <div className="header-actions">
-          <button 
-            onClick={() => setShowBidModal(true)} 
+          <button
+            onClick={() => setShowListingModal(true)}
             className="submit-bid-btn"
           >
-            🏷️ Submit Encrypted Bid
+            🏷️ List Property
           </button>
           <div className="wallet-connect-wrapper">
             <ConnectButton accountStatus="address" chainStatus="icon" showBalance={false}/>
           </div>
         </div>
       </header>
-      
+
       <div className="main-content">
         <div className="dashboard-section">
-          <h2>Real Estate Bidding Analytics</h2>
+          <h2>Property Auctions</h2>
           {renderStats()}
-          
+
           <div className="search-section">
             <input
               type="text"
@@ -506,62 +701,88 @@ const App: React.FC = () => {
             />
           </div>
         </div>
-        
+
         <div className="properties-section">
           <div className="section-header">
-            <h2>Active Property Bids</h2>
+            <h2>Property Listings</h2>
             <div className="header-actions">
-              <button 
-                onClick={loadProperties} 
-                className="refresh-btn" 
+              <span className={`live-status ${liveStatus}`}>{liveStatusLabels[liveStatus]}</span>
+              {awaitingRevealIds.length > 0 && (
+                <button
+                  onClick={() => setConcludeWizardIds(awaitingRevealIds)}
+                  className="refresh-btn"
+                >
+                  🏁 Conclude Ended ({awaitingRevealIds.length})
+                </button>
+              )}
+              <button
+                onClick={loadProperties}
+                className="refresh-btn"
                 disabled={isRefreshing}
               >
                 {isRefreshing ? "🔄 Refreshing..." : "🔄 Refresh"}
               </button>
             </div>
           </div>
-          
+
           <div className="properties-list">
             {filteredProperties.length === 0 ? (
               <div className="no-properties">
-                <p>No property bids found</p>
-                <button 
-                  className="submit-bid-btn" 
-                  onClick={() => setShowBidModal(true)}
+                <p>No property listings found</p>
+                <button
+                  className="submit-bid-btn"
+                  onClick={() => setShowListingModal(true)}
                 >
-                  Submit First Bid
+                  List First Property
                 </button>
               </div>
-            ) : filteredProperties.map((property, index) => (
-              <div 
-                className={`property-item ${selectedProperty?.id === property.id ? "selected" : ""} ${property.isVerified ? "verified" : ""}`} 
-                key={index}
-                onClick={() => setSelectedProperty(property)}
-              >
-                <div className="property-title">{property.name}</div>
-                <div className="property-description">{property.description}</div>
-                <div className="property-meta">
-                  <span>Created: {new Date(property.timestamp * 1000).toLocaleDateString()}</span>
-                </div>
-                <div className="property-status">
-                  Status: {property.isVerified ? "✅ Bid Verified" : "🔓 Ready for Verification"}
-                  {property.isVerified && property.decryptedValue && (
-                    <span className="verified-amount">Amount: ${property.decryptedValue}</span>
-                  )}
-                </div>
-                <div className="property-creator">Bidder: {property.creator.substring(0, 6)}...{property.creator.substring(38)}</div>
-              </div>
-            ))}
+            ) : (
+              <VirtualList
+                className="virtual-list"
+                items={filteredProperties}
+                rowHeight={PROPERTY_ROW_HEIGHT}
+                height={PROPERTY_LIST_HEIGHT}
+                getKey={property => property.propertyId}
+                renderItem={property => (
+                  <div
+                    className={`property-item ${selectedPropertyId === property.propertyId ? "selected" : ""} ${property.isActive ? "" : "verified"}`}
+                    onClick={() => setSelectedPropertyId(property.propertyId)}
+                  >
+                    <div className="property-title">{property.propertyId}</div>
+                    <div className="property-description">{property.details}</div>
+                    <div className="property-meta">
+                      <span>Listed: {new Date(property.startTime * 1000).toLocaleDateString()}</span>
+                      <span>Ends: {new Date(property.endTime * 1000).toLocaleString()}</span>
+                      <span>Bids: {property.activeBidsCount}</span>
+                      <span>{auctionTypeLabels[property.auctionType]}</span>
+                    </div>
+                    <div className="property-status">
+                      Status: <PhaseStatus property={property} />
+                      {hasWinner(property) && (
+                        <span className="verified-amount">Clearing price: ${property.result.winningAmount}</span>
+                      )}
+                    </div>
+                    <div className="property-creator">Seller: {shortAddress(property.seller)}</div>
+                  </div>
+                )}
+              />
+            )}
           </div>
         </div>
 
+        <MyListings
+          listings={properties.filter(p => p.seller.toLowerCase() === address?.toLowerCase())}
+          manageListing={manageListing}
+          managingPropertyId={managingPropertyId}
+        />
+
         <div className="user-history">
           <h3>Your Bidding History</h3>
           <div className="history-list">
             {userHistory.slice(0, 5).map((record, index) => (
               <div key={index} className="history-item">
                 <span className={`history-type ${record.type}`}>
-                  {record.type === 'bid_submission' ? '📤' : '🔓'} 
+                  {historyIcons[record.type]}
                   {record.type.replace('_', ' ')}
                 </span>
                 <span className="history-details">
@@ -578,32 +799,46 @@ const App: React.FC = () => {
           </div>
         </div>
       </div>
-      
-      {showBidModal && (
-        <BidModal 
-          onSubmit={submitBid} 
-          onClose={() => setShowBidModal(false)} 
-          submitting={submittingBid} 
-          bidData={newBidData} 
-          setBidData={setNewBidData}
-          isEncrypting={isEncrypting}
+
+      {concludeWizardIds && (
+        <ConcludeWizard
+          propertyIds={concludeWizardIds}
+          concludeAuctions={concludeAuctions}
+          progress={conclusionProgress}
+          onClose={() => setConcludeWizardIds(null)}
+        />
+      )}
+
+      {showListingModal && (
+        <ListingModal
+          onSubmit={listProperty}
+          onClose={() => setShowListingModal(false)}
+          submitting={listing}
+          listingData={newListingData}
+          setListingData={setNewListingData}
         />
       )}
-      
+
       {selectedProperty && (
-        <PropertyDetailModal 
-          property={selectedProperty} 
-          onClose={() => { 
-            setSelectedProperty(null); 
-            setDecryptedBid(null); 
-          }} 
-          decryptedBid={decryptedBid} 
-          isDecrypting={isDecrypting || fheIsDecrypting} 
-          decryptBid={() => decryptBid(selectedProperty.id)}
-          renderBidChart={renderBidChart}
+        <PropertyDetailModal
+          property={selectedProperty}
+          activity={selectedActivity}
+          onClose={() => setSelectedPropertyId(null)}
+          submitBid={(amount, replace) => submitBid(selectedProperty.propertyId, amount, replace)}
+          submittingBid={submittingBid}
+          withdrawBid={() => withdrawBid(selectedProperty.propertyId)}
+          withdrawingBid={withdrawingBid}
+          settleDeposit={() => settleDeposit(selectedProperty)}
+          settlingDeposit={settlingDeposit}
+          account={address}
+          myBidAmounts={myBidAmounts}
+          viewMyBid={(bid) => viewMyBid(selectedProperty, bid)}
+          viewingIndex={viewingIndex}
+          determineWinner={() => determineWinner(selectedProperty)}
+          revealStep={revealStep}
         />
       )}
-      
+
       {transactionStatus.visible && (
         <div className="transaction-toast">
           <div className={`toast-content ${transactionStatus.status}`}>
@@ -620,21 +855,24 @@ const App: React.FC = () => {
   );
 };
 
-const BidModal: React.FC<{
-  onSubmit: () => void; 
-  onClose: () => void; 
+const ListingModal: React.FC<{
+  onSubmit: () => void;
+  onClose: () => void;
   submitting: boolean;
-  bidData: any;
-  setBidData: (data: any) => void;
-  isEncrypting: boolean;
-}> = ({ onSubmit, onClose, submitting, bidData, setBidData, isEncrypting }) => {
-  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+  listingData: any;
+  setListingData: (data: any) => void;
+}> = ({ onSubmit, onClose, submitting, listingData, setListingData }) => {
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
     const { name, value } = e.target;
-    if (name === 'bidAmount') {
-      const intValue = value.replace(/[^\d]/g, '');
-      setBidData({ ...bidData, [name]: intValue });
+    if (['durationHours', 'snipingWindowMinutes', 'extensionMinutes', 'maxExtensionMinutes'].includes(name)) {
+      const numericValue = value.replace(/[^\d.]/g, '');
+      setListingData({ ...listingData, [name]: numericValue });
+    } else if (name === 'depositAmount') {
+      setListingData({ ...listingData, [name]: value.replace(/[^\d.]/g, '') });
+    } else if (name === 'reservePrice') {
+      setListingData({ ...listingData, [name]: value.replace(/[^\d]/g, '') });
     } else {
-      setBidData({ ...bidData, [name]: value });
+      setListingData({ ...listingData, [name]: value });
     }
   };
 
@@ -642,61 +880,159 @@ const BidModal: React.FC<{
     <div className="modal-overlay">
       <div className="bid-modal">
         <div className="modal-header">
-          <h2>Submit Encrypted Property Bid</h2>
+          <h2>List Property for Auction</h2>
           <button onClick={onClose} className="close-modal">×</button>
         </div>
-        
+
         <div className="modal-body">
           <div className="fhe-notice">
-            <strong>FHE 🔐 Encryption Active</strong>
-            <p>Your bid amount will be encrypted with Zama FHE technology</p>
+            <strong>FHE 🔐 Sealed-Bid Auction</strong>
+            <p>Bids on this property stay encrypted with Zama FHE until they are revealed after bidding closes</p>
+          </div>
+
+          <div className="form-group">
+            <label>Property ID *</label>
+            <input
+              type="text"
+              name="propertyId"
+              value={listingData.propertyId}
+              onChange={handleChange}
+              placeholder="Unique property identifier..."
+            />
           </div>
-          
+
           <div className="form-group">
-            <label>Property Name *</label>
-            <input 
-              type="text" 
-              name="propertyName" 
-              value={bidData.propertyName} 
-              onChange={handleChange} 
-              placeholder="Enter property name..." 
+            <label>Property Details *</label>
+            <textarea
+              name="details"
+              value={listingData.details}
+              onChange={handleChange}
+              placeholder="Describe the property..."
+              rows={3}
             />
           </div>
-          
+
           <div className="form-group">
-            <label>Bid Amount (Integer only) *</label>
-            <input 
-              type="number" 
-              name="bidAmount" 
-              value={bidData.bidAmount} 
-              onChange={handleChange} 
-              placeholder="Enter bid amount..." 
+            <label>Bidding Duration (hours) *</label>
+            <input
+              type="number"
+              name="durationHours"
+              value={listingData.durationHours}
+              onChange={handleChange}
+              placeholder="24"
               step="1"
               min="0"
             />
-            <div className="data-type-label">FHE Encrypted Integer</div>
           </div>
-          
+
           <div className="form-group">
-            <label>Property Description *</label>
-            <textarea 
-              name="description" 
-              value={bidData.description} 
-              onChange={handleChange} 
-              placeholder="Describe the property..." 
-              rows={3}
+            <label>Auction Type *</label>
+            <select name="auctionType" value={listingData.auctionType} onChange={handleChange}>
+              <option value="firstPrice">{auctionTypeLabels.firstPrice} - winner pays their bid</option>
+              <option value="secondPrice">{auctionTypeLabels.secondPrice} - winner pays the second-highest bid</option>
+            </select>
+          </div>
+
+          <div className="form-group">
+            <label>Reserve Price</label>
+            <input
+              type="number"
+              name="reservePrice"
+              value={listingData.reservePrice}
+              onChange={handleChange}
+              placeholder="Optional minimum winning bid..."
+              step="1"
+              min="0"
             />
+            <div className="data-type-label">FHE Encrypted Integer (euint32), never shown to bidders</div>
+          </div>
+
+          <div className="form-group">
+            <label>Anti-Sniping (minutes)</label>
+            <input
+              type="number"
+              name="snipingWindowMinutes"
+              value={listingData.snipingWindowMinutes}
+              onChange={handleChange}
+              placeholder="Bids in the final N minutes extend bidding..."
+              step="1"
+              min="0"
+            />
+            <input
+              type="number"
+              name="extensionMinutes"
+              value={listingData.extensionMinutes}
+              onChange={handleChange}
+              placeholder="...by M minutes each..."
+              step="1"
+              min="0"
+            />
+            <input
+              type="number"
+              name="maxExtensionMinutes"
+              value={listingData.maxExtensionMinutes}
+              onChange={handleChange}
+              placeholder="...up to this many minutes in total"
+              step="1"
+              min="0"
+            />
+            <div className="data-type-label">Optional, leave empty for a fixed deadline</div>
+          </div>
+
+          <div className="form-group">
+            <label>Bid Deposit</label>
+            <input
+              type="text"
+              name="depositAmount"
+              value={listingData.depositAmount}
+              onChange={handleChange}
+              placeholder={listingData.depositToken ? "Deposit in token base units..." : "Deposit in ETH..."}
+            />
+            <input
+              type="text"
+              name="depositToken"
+              value={listingData.depositToken}
+              onChange={handleChange}
+              placeholder="ERC-20 token address, leave empty for ETH"
+            />
+            <div className="data-type-label">Optional, refunded to losing bidders and paid to you by the winner</div>
+          </div>
+
+          <div className="form-group">
+            <label>Buyer Allowlist</label>
+            <input
+              type="text"
+              name="allowlistRoot"
+              value={listingData.allowlistRoot}
+              onChange={handleChange}
+              placeholder="Merkle root from npx hardhat allowlist --csv buyers.csv..."
+            />
+            <input
+              type="text"
+              name="allowlistProofsURI"
+              value={listingData.allowlistProofsURI}
+              onChange={handleChange}
+              placeholder="URL of the published allowlist JSON..."
+            />
+            <input
+              type="text"
+              name="allowlistRegistry"
+              value={listingData.allowlistRegistry}
+              onChange={handleChange}
+              placeholder="...and/or a bidder registry contract address"
+            />
+            <div className="data-type-label">Optional, leave empty to let anyone bid</div>
           </div>
         </div>
-        
+
         <div className="modal-footer">
           <button onClick={onClose} className="cancel-btn">Cancel</button>
-          <button 
-            onClick={onSubmit} 
-            disabled={submitting || isEncrypting || !bidData.propertyName || !bidData.bidAmount || !bidData.description} 
+          <button
+            onClick={onSubmit}
+            disabled={submitting || !listingData.propertyId || !listingData.details || !listingData.durationHours}
             className="submit-btn"
           >
-            {submitting || isEncrypting ? "Encrypting and Submitting..." : "Submit Encrypted Bid"}
+            {submitting ? "Listing..." : "List Property"}
           </button>
         </div>
       </div>
@@ -704,118 +1040,392 @@ const BidModal: React.FC<{
   );
 };
 
+const MyListings: React.FC<{
+  listings: Property[];
+  manageListing: (propertyId: string, action: ListingAction, details?: string) => Promise<boolean>;
+  managingPropertyId: string | null;
+}> = ({ listings, manageListing, managingPropertyId }) => {
+  const [editing, setEditing] = useState<{ propertyId: string; details: string } | null>(null);
+
+  if (listings.length === 0) return null;
+
+  const saveDetails = async () => {
+    if (!editing) return;
+    if (await manageListing(editing.propertyId, "details", editing.details)) setEditing(null);
+  };
+
+  return (
+    <div className="user-history my-listings">
+      <h3>My Listings</h3>
+      <div className="history-list">
+        {listings.map((property) => {
+          // The contract only lets sellers change a listing before anyone has bid on it
+          const editable = property.isActive && property.bidsCount === 0;
+          const busy = managingPropertyId !== null;
+
+          return (
+            <div key={property.propertyId} className="history-item listing-item">
+              <span className="history-type">{property.propertyId}</span>
+              <span className="history-details">
+                <PhaseStatus property={property} /> - {property.activeBidsCount} bids
+              </span>
+              {editing?.propertyId === property.propertyId ? (
+                <div className="listing-actions">
+                  <textarea
+                    value={editing.details}
+                    onChange={(e) => setEditing({ ...editing, details: e.target.value })}
+                    rows={2}
+                  />
+                  <button className="refresh-btn" onClick={saveDetails} disabled={busy || !editing.details}>Save</button>
+                  <button className="refresh-btn" onClick={() => setEditing(null)} disabled={busy}>Discard</button>
+                </div>
+              ) : editable ? (
+                <div className="listing-actions">
+                  <button
+                    className="refresh-btn"
+                    onClick={() => manageListing(property.propertyId, property.isPaused ? "resume" : "pause")}
+                    disabled={busy}
+                  >
+                    {property.isPaused ? "▶️ Resume" : "⏸️ Pause"}
+                  </button>
+                  <button
+                    className="refresh-btn"
+                    onClick={() => setEditing({ propertyId: property.propertyId, details: property.details })}
+                    disabled={busy}
+                  >
+                    ✏️ Edit Details
+                  </button>
+                  <button
+                    className="refresh-btn"
+                    onClick={() => manageListing(property.propertyId, "cancel")}
+                    disabled={busy}
+                  >
+                    🚫 Cancel
+                  </button>
+                </div>
+              ) : (
+                <span className="history-time">
+                  {property.isActive ? "Locked after the first bid" : ""}
+                </span>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Lets anyone conclude the auctions whose bidding has ended in one go, then retry the ones that failed
+ */
+const ConcludeWizard: React.FC<{
+  propertyIds: string[];
+  concludeAuctions: (propertyIds: string[]) => Promise<ConclusionResult[]>;
+  progress: ConclusionProgress | null;
+  onClose: () => void;
+}> = ({ propertyIds, concludeAuctions, progress, onClose }) => {
+  const [selected, setSelected] = useState<string[]>(propertyIds);
+  const [results, setResults] = useState<Record<string, ConclusionResult>>({});
+  const [running, setRunning] = useState(false);
+
+  const pending = selected.filter(propertyId => !results[propertyId]?.outcome);
+  const failed = pending.filter(propertyId => results[propertyId]?.error);
+
+  const toggle = (propertyId: string) => setSelected(prev =>
+    prev.includes(propertyId) ? prev.filter(id => id !== propertyId) : [...prev, propertyId]
+  );
+
+  const run = async () => {
+    setRunning(true);
+    try {
+      const batch = await concludeAuctions(pending);
+      setResults(prev => ({ ...prev, ...Object.fromEntries(batch.map(result => [result.propertyId, result])) }));
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const statusOf = (propertyId: string) => {
+    const result = results[propertyId];
+    if (progress?.propertyId === propertyId) return revealStepLabels[progress.step];
+    if (result?.outcome) {
+      const { winner, winningAmount } = result.outcome;
+      return winner === ZeroAddress ? "✅ Concluded, no winner" : `✅ ${shortAddress(winner)} pays $${winningAmount}`;
+    }
+    if (result?.error) return `❌ ${result.error.message}`;
+    return selected.includes(propertyId) ? "Waiting" : "Skipped";
+  };
+
+  return (
+    <div className="modal-overlay">
+      <div className="property-detail-modal">
+        <div className="modal-header">
+          <h2>Conclude Ended Auctions</h2>
+          <button onClick={onClose} className="close-modal" disabled={running}>×</button>
+        </div>
+
+        <div className="modal-body">
+          <p>
+            {running && progress
+              ? `Auction ${progress.index + 1} of ${progress.total}: ${revealStepLabels[progress.step]}`
+              : "Each auction reveals only its reserve check, clearing price and winner. Reveals that were already requested are finished."}
+          </p>
+
+          <div className="data-section">
+            {propertyIds.map(propertyId => (
+              <div className="data-row" key={propertyId}>
+                <label className="data-label">
+                  <input
+                    type="checkbox"
+                    checked={selected.includes(propertyId)}
+                    onChange={() => toggle(propertyId)}
+                    disabled={running || !!results[propertyId]?.outcome}
+                  />
+                  {" "}{propertyId}
+                </label>
+                <div className="data-value">{statusOf(propertyId)}</div>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div className="modal-footer">
+          <button onClick={onClose} className="close-btn" disabled={running}>Close</button>
+          {pending.length > 0 && (
+            <button onClick={run} disabled={running} className="verify-btn">
+              {running ? "Concluding..." : failed.length > 0 ? `Retry ${pending.length} Auctions` : `Conclude ${pending.length} Auctions`}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
 const PropertyDetailModal: React.FC<{
-  property: PropertyBid;
+  property: Property;
+  activity: PropertyActivity | null;
   onClose: () => void;
-  decryptedBid: number | null;
-  isDecrypting: boolean;
-  decryptBid: () => Promise<number | null>;
-  renderBidChart: (property: PropertyBid, decryptedAmount: number | null) => JSX.Element;
-}> = ({ property, onClose, decryptedBid, isDecrypting, decryptBid, renderBidChart }) => {
-  const handleDecrypt = async () => {
-    if (decryptedBid !== null) return;
-    await decryptBid();
+  submitBid: (amount: number, replace: boolean) => Promise<boolean>;
+  submittingBid: boolean;
+  withdrawBid: () => Promise<void>;
+  withdrawingBid: boolean;
+  settleDeposit: () => Promise<void>;
+  settlingDeposit: boolean;
+  account?: string;
+  myBidAmounts: Record<string, number>;
+  viewMyBid: (bid: Bid) => Promise<void>;
+  viewingIndex: number | null;
+  determineWinner: () => Promise<void>;
+  revealStep: WinnerRevealStep | null;
+}> = ({
+  property, activity, onClose, submitBid, submittingBid, withdrawBid, withdrawingBid, settleDeposit, settlingDeposit,
+  account, myBidAmounts, viewMyBid, viewingIndex, determineWinner, revealStep
+}) => {
+  const [bidAmount, setBidAmount] = useState("");
+  const phase = getAuctionPhase(property, useNow());
+  const biddingOpen = acceptsBids(phase);
+  const extendedBy = property.endTime - (property.maxEndTime - property.antiSniping.maxExtension);
+  const isMine = (bid: Bid) => !!account && bid.bidder.toLowerCase() === account.toLowerCase();
+  const bids = activity?.bids ?? [];
+  const myActiveBid = bids.find(bid => bid.isActive && isMine(bid));
+  const isSeller = !!account && property.seller.toLowerCase() === account.toLowerCase();
+  const myDepositStatus = activity && account ? depositStatus(property, activity, account) : null;
+  const winnerDepositStatus = activity && hasWinner(property) ? depositStatus(property, activity, property.result.winner) : null;
+  const canSettleDeposit = isSeller ? winnerDepositStatus === "Deposit goes to seller" : myDepositStatus === "Refund available";
+
+  const handleSubmitBid = async () => {
+    const amount = parseInt(bidAmount);
+    if (!amount) return;
+    if (await submitBid(amount, !!myActiveBid)) setBidAmount("");
   };
 
   return (
     <div className="modal-overlay">
       <div className="property-detail-modal">
         <div className="modal-header">
-          <h2>Property Bid Details</h2>
+          <h2>Property Auction Details</h2>
           <button onClick={onClose} className="close-modal">×</button>
         </div>
-        
+
         <div className="modal-body">
           <div className="property-info">
             <div className="info-item">
               <span>Property:</span>
-              <strong>{property.name}</strong>
+              <strong>{property.propertyId}</strong>
+            </div>
+            <div className="info-item">
+              <span>Seller:</span>
+              <strong>{shortAddress(property.seller)}</strong>
+            </div>
+            <div className="info-item">
+              <span>Auction Type:</span>
+              <strong>{auctionTypeLabels[property.auctionType]}</strong>
+            </div>
+            <div className="info-item">
+              <span>Bidding Opens:</span>
+              <strong>{new Date(property.startTime * 1000).toLocaleString()}</strong>
             </div>
             <div className="info-item">
-              <span>Bidder:</span>
-              <strong>{property.creator.substring(0, 6)}...{property.creator.substring(38)}</strong>
+              <span>Bidding Closes:</span>
+              <strong>
+                {new Date(property.endTime * 1000).toLocaleString()}
+                {extendedBy > 0 && ` (extended by ${Math.round(extendedBy / 60)} min)`}
+              </strong>
             </div>
             <div className="info-item">
-              <span>Date Submitted:</span>
-              <strong>{new Date(property.timestamp * 1000).toLocaleDateString()}</strong>
+              <span>Status:</span>
+              <strong><PhaseStatus property={property} /></strong>
             </div>
+            {property.deposit.amount > 0n && (
+              <div className="info-item">
+                <span>Bid Deposit:</span>
+                <strong>{formatDeposit(property.deposit)}, paid with your first bid</strong>
+              </div>
+            )}
+            {(property.allowlist.merkleRoot !== ZeroHash || property.allowlist.registry !== ZeroAddress) && (
+              <div className="info-item">
+                <span>Buyers:</span>
+                <strong>
+                  🔏 Approved buyers only
+                  {property.allowlist.registry !== ZeroAddress && `, registry ${shortAddress(property.allowlist.registry)}`}
+                </strong>
+              </div>
+            )}
+            {property.antiSniping.window > 0 && (
+              <div className="info-item">
+                <span>Anti-Sniping:</span>
+                <strong>
+                  Bids in the final {Math.round(property.antiSniping.window / 60)} min extend bidding by {Math.round(property.antiSniping.extension / 60)} min,
+                  until {new Date(property.maxEndTime * 1000).toLocaleString()} at the latest
+                </strong>
+              </div>
+            )}
             <div className="info-item">
-              <span>Description:</span>
-              <strong>{property.description}</strong>
+              <span>Details:</span>
+              <strong>{property.details}</strong>
             </div>
           </div>
-          
-          <div className="data-section">
-            <h3>Encrypted Bid Data</h3>
-            
-            <div className="data-row">
-              <div className="data-label">Bid Amount:</div>
-              <div className="data-value">
-                {property.isVerified && property.decryptedValue ? 
-                  `$${property.decryptedValue} (On-chain Verified)` : 
-                  decryptedBid !== null ? 
-                  `$${decryptedBid} (Locally Decrypted)` : 
-                  "🔒 FHE Encrypted Integer"
-                }
+
+          {biddingOpen && (
+            <div className="data-section">
+              <h3>{myActiveBid ? "Replace Your Encrypted Bid" : "Place Encrypted Bid"}</h3>
+              <div className="form-group">
+                <input
+                  type="number"
+                  value={bidAmount}
+                  onChange={(e) => setBidAmount(e.target.value.replace(/[^\d]/g, ''))}
+                  placeholder={myActiveBid ? "Enter new bid amount..." : "Enter bid amount..."}
+                  step="1"
+                  min="0"
+                />
+                <div className="data-type-label">FHE Encrypted Integer (euint32)</div>
               </div>
-              <button 
-                className={`decrypt-btn ${(property.isVerified || decryptedBid !== null) ? 'decrypted' : ''}`}
-                onClick={handleDecrypt} 
-                disabled={isDecrypting}
+              <button
+                onClick={handleSubmitBid}
+                disabled={submittingBid || withdrawingBid || !bidAmount}
+                className="submit-btn"
               >
-                {isDecrypting ? (
-                  "🔓 Verifying..."
-                ) : property.isVerified ? (
-                  "✅ Verified"
-                ) : decryptedBid !== null ? (
-                  "🔄 Re-verify"
-                ) : (
-                  "🔓 Verify Bid"
-                )}
+                {submittingBid ? "Encrypting and Submitting..." : myActiveBid ? "Replace Encrypted Bid" : "Submit Encrypted Bid"}
               </button>
+              {myActiveBid && (
+                <button
+                  onClick={withdrawBid}
+                  disabled={submittingBid || withdrawingBid}
+                  className="cancel-btn"
+                >
+                  {withdrawingBid ? "Withdrawing..." : "Withdraw My Bid"}
+                </button>
+              )}
             </div>
-            
+          )}
+
+          <div className="data-section">
+            <h3>Bids ({property.activeBidsCount})</h3>
+
+            {!activity && (
+              <div className="no-history">Loading bids...</div>
+            )}
+
+            {activity && bids.length === 0 && (
+              <div className="no-history">No bids yet</div>
+            )}
+
+            {activity && bids.map((bid) => {
+              const mine = isMine(bid);
+              const myAmount = myBidAmounts[`${property.propertyId}:${bid.index}`];
+              const bidDepositStatus = depositStatus(property, activity, bid.bidder);
+
+              return (
+              <div className="data-row" key={bid.index}>
+                <div className="data-label">{shortAddress(bid.bidder)}{mine && " (you)"}</div>
+                <div className="data-value">
+                  {!bid.isActive ?
+                    "↩️ Withdrawn" :
+                    myAmount !== undefined ?
+                    `$${myAmount} (Only visible to you)` :
+                    "🔒 FHE Encrypted Integer"
+                  }
+                  {bid.isActive && bidDepositStatus && (
+                    <span className="data-badge local">{bidDepositStatus}</span>
+                  )}
+                </div>
+                {mine && bid.isActive && myAmount === undefined && (
+                  <button
+                    className="decrypt-btn"
+                    onClick={() => viewMyBid(bid)}
+                    disabled={viewingIndex !== null}
+                  >
+                    {viewingIndex === bid.index ? "🔑 Decrypting..." : "🔑 View My Bid"}
+                  </button>
+                )}
+              </div>
+              );
+            })}
+
             <div className="fhe-info">
               <div className="fhe-icon">🔐</div>
               <div>
                 <strong>FHE 🔐 Confidential Bidding</strong>
-                <p>Your bid remains encrypted until verification. Only the winning bid amount is revealed.</p>
+                <p>Bids stay encrypted on-chain and only their bidder can decrypt them while bidding is open. The contract tracks the highest bid homomorphically, so after the deadline only the clearing price and winner are decrypted and verified on-chain. Losing bids are never revealed.</p>
               </div>
             </div>
           </div>
-          
-          {(property.isVerified || decryptedBid !== null) && (
-            <div className="analysis-section">
-              <h3>Bid Competitiveness Analysis</h3>
-              {renderBidChart(property, property.isVerified ? property.decryptedValue || null : decryptedBid)}
-              
-              <div className="decrypted-values">
-                <div className="value-item">
-                  <span>Your Bid:</span>
-                  <strong>
-                    {property.isVerified ? 
-                      `$${property.decryptedValue} (Verified)` : 
-                      `$${decryptedBid} (Decrypted)`
-                    }
-                  </strong>
-                  <span className={`data-badge ${property.isVerified ? 'verified' : 'local'}`}>
-                    {property.isVerified ? 'On-chain Verified' : 'Local Decryption'}
-                  </span>
-                </div>
+
+          {canSettleDeposit && (
+            <div className="data-section">
+              <h3>{isSeller ? "Winner's Deposit" : "Your Deposit"}</h3>
+              <button
+                onClick={settleDeposit}
+                disabled={settlingDeposit}
+                className="submit-btn"
+              >
+                {settlingDeposit ? "Processing..." : isSeller ? `Withdraw ${formatDeposit(property.deposit)}` : `Claim ${formatDeposit(property.deposit)} Refund`}
+              </button>
+            </div>
+          )}
+
+          {!property.isActive && (
+            <div className="decrypted-values">
+              <div className="value-item">
+                <span>Winner:</span>
+                <strong>{outcomeLabel(property)}</strong>
+                <span className="data-badge verified">{property.isCancelled ? "Cancelled" : "Auction Concluded"}</span>
               </div>
             </div>
           )}
         </div>
-        
+
         <div className="modal-footer">
           <button onClick={onClose} className="close-btn">Close</button>
-          {!property.isVerified && (
-            <button 
-              onClick={handleDecrypt} 
-              disabled={isDecrypting}
+          {phase === "awaitingReveal" && (
+            <button
+              onClick={determineWinner}
+              disabled={revealStep !== null}
               className="verify-btn"
             >
-              {isDecrypting ? "Verifying on-chain..." : "Verify on-chain"}
+              {revealStep ? revealStepLabels[revealStep] : property.result.winnerRevealRequested ? "Finish Winner Reveal" : "Reveal Winner"}
             </button>
           )}
         </div>
@@ -0,0 +1,46 @@
+import React, { useState } from "react";
+
+interface VirtualListProps<T> {
+  items: T[];
+  /**
+   * Height of every row in pixels, including the gap to the next row
+   */
+  rowHeight: number;
+  height: number;
+  /**
+   * Rows rendered above and below the visible ones so fast scrolling does not show blank space
+   */
+  overscan?: number;
+  className?: string;
+  getKey: (item: T) => string;
+  renderItem: (item: T) => React.ReactNode;
+}
+
+/**
+ * Scrollable list that only mounts the rows in view, so thousands of listings stay cheap to render
+ */
+export function VirtualList<T>({ items, rowHeight, height, overscan = 3, className, getKey, renderItem }: VirtualListProps<T>) {
+  const [scrollTop, setScrollTop] = useState(0);
+
+  const first = Math.max(0, Math.floor(scrollTop / rowHeight) - overscan);
+  const last = Math.min(items.length, Math.ceil((scrollTop + height) / rowHeight) + overscan);
+
+  return (
+    <div
+      className={className}
+      style={{ height: Math.min(height, items.length * rowHeight), overflowY: "auto" }}
+      onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+    >
+      <div style={{ height: items.length * rowHeight, position: "relative" }}>
+        {items.slice(first, last).map((item, offset) => (
+          <div
+            key={getKey(item)}
+            style={{ position: "absolute", top: (first + offset) * rowHeight, left: 0, right: 0, height: rowHeight }}
+          >
+            {renderItem(item)}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
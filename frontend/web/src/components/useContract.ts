@@ -1,10 +1,25 @@
 // contract.ts
 import { ethers } from "ethers";
-import abiJson from "../abi/UniversalFHEAdapter.json";
-import configJson from "../config.json";
+import {
+  AuctionIndexer,
+  type DeployedContract,
+  type DeploymentRegistry,
+  getChainDeployment,
+  getDeployment,
+  hashAbi,
+  HouseBidClient,
+  IndexedDbAuctionStore,
+} from "../../fhevm-sdk/src";
+import abiJson from "../abi/HouseBid_FHE.json";
+import deploymentsJson from "../deployments.json";
 
 export const ABI = (abiJson as any).abi || abiJson;
-export const config = configJson;
+export const registry: DeploymentRegistry = deploymentsJson;
+
+/**
+ * Chain read from when no wallet is injected
+ */
+const DEFAULT_CHAIN_ID = 11155111;
 
 const retry = async <T>(fn: () => Promise<T>, retries = 3, delay = 1000): Promise<T> => {
   try {
@@ -18,20 +33,20 @@ const retry = async <T>(fn: () => Promise<T>, retries = 3, delay = 1000): Promis
   }
 };
 
-const getTestnetProvider = async () => {
-  const rpcUrls = [
-    "https://sepolia.infura.io/v3/96406da962744120afbe0cf64c8bd7b3",
-    "https://rpc.ankr.com/eth_sepolia/f5a86d4556184938f528d746ecfa1eabcf7e4b970fc86df257418084c9305ae4",
-    "https://rpc.sepolia.org",
-    "https://rpc2.sepolia.org",
-    "https://eth-sepolia.public.blastapi.io"
-  ];
-  
-  for (const url of rpcUrls) {
+const getWalletChainId = async (): Promise<number> => {
+  const ethereum = (window as any).ethereum;
+  if (!ethereum) return DEFAULT_CHAIN_ID;
+  return Number(await ethereum.request({ method: "eth_chainId" }));
+};
+
+const getReadProvider = async (chainId: number) => {
+  const chain = getChainDeployment(registry, chainId);
+
+  for (const url of chain.rpcUrls) {
     try {
       const provider = new ethers.JsonRpcProvider(url, {
-        name: "sepolia",
-        chainId: 11155111
+        name: chain.network,
+        chainId
       });
       
       const blockNumber = await Promise.race([
@@ -46,15 +61,32 @@ const getTestnetProvider = async () => {
     }
   }
   
-  throw new Error("All RPC providers failed");
+  throw new Error(`All RPC providers for ${chain.network} failed`);
+};
+
+const warnedAbiHashes = new Set<string>();
+
+/**
+ * The bundled ABI is the one the last local deploy wrote, it may not match a contract deployed from other sources
+ */
+const checkAbi = (chainId: number, deployment: DeployedContract) => {
+  if (warnedAbiHashes.has(deployment.abiHash)) return;
+  if (deployment.abiHash !== hashAbi(ABI)) {
+    warnedAbiHashes.add(deployment.abiHash);
+    console.warn(`HouseBid_FHE on chain ${chainId} was deployed with a different ABI than the one bundled with the app`);
+  }
 };
 
 export async function getContractReadOnly() {
   try {
-    const provider = await getTestnetProvider();
-    const contract = new ethers.Contract(config.contractAddress, ABI, provider);
+    const chainId = await getWalletChainId();
+    const deployment = getDeployment(registry, chainId);
+    checkAbi(chainId, deployment);
+
+    const provider = await getReadProvider(chainId);
+    const contract = new ethers.Contract(deployment.address, ABI, provider);
     
-    const code = await retry(() => provider.getCode(config.contractAddress));
+    const code = await retry(() => provider.getCode(deployment.address));
     if (code === "0x") {
       return null;
     }
@@ -66,23 +98,22 @@ export async function getContractReadOnly() {
   }
 }
 
+/**
+ * Throws when the wallet is on a chain the registry has no HouseBid_FHE for, the message names the supported chains
+ */
 export async function getContractWithSigner() {
   if (!(window as any).ethereum) {
     throw new Error("No injected wallet");
   }
 
-  // const provider = new ethers.BrowserProvider(window.ethereum);
-  // const network = await provider.getNetwork();
-  // console.log("network ID:", network.chainId);
-
-  if (window.ethereum && window.ethereum.chainId !== '0xaa36a7') {
-    alert("Please switch to Sepolia test network");
-  }
-
   try {
     const provider = new ethers.BrowserProvider((window as any).ethereum);
+    const { chainId } = await provider.getNetwork();
+    const deployment = getDeployment(registry, chainId);
+    checkAbi(Number(chainId), deployment);
+
     const signer = await provider.getSigner();
-    const contract = new ethers.Contract(config.contractAddress, ABI, signer);
+    const contract = new ethers.Contract(deployment.address, ABI, signer);
     return contract;
   } catch (error) {
     console.error("Failed to create contract with signer:", error);
@@ -90,6 +121,30 @@ export async function getContractWithSigner() {
   }
 }
 
+export async function getClientReadOnly(): Promise<HouseBidClient | null> {
+  const contract = await getContractReadOnly();
+  if (!contract) return null;
+  return HouseBidClient.fromRegistry(registry, contract.runner!);
+}
+
+export async function getClientWithSigner(): Promise<HouseBidClient> {
+  const contract = await getContractWithSigner();
+  return HouseBidClient.fromRegistry(registry, contract.runner!);
+}
+
+/**
+ * Local index of the contract's events on the wallet's chain, kept in IndexedDB. It starts from the
+ * deploy block recorded in deployments.json.
+ */
+export async function getAuctionIndexer(): Promise<AuctionIndexer | null> {
+  const client = await getClientReadOnly();
+  if (!client) return null;
+
+  const { chainId } = await client.contract.runner!.provider!.getNetwork();
+  const store = await IndexedDbAuctionStore.open(`housebid-${chainId}-${client.address.toLowerCase()}`);
+  return new AuctionIndexer(client, store);
+}
+
 export function normAddr(a: string) { 
   return a ? a.toLowerCase() : a; 
 }
@@ -5,15 +5,23 @@ import { getDefaultConfig, RainbowKitProvider, lightTheme } from '@rainbow-me/ra
 import { WagmiConfig } from 'wagmi';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import '@rainbow-me/rainbowkit/styles.css';
-import { sepolia } from 'wagmi/chains';
+import { hardhat, sepolia } from 'wagmi/chains';
 import { BrowserRouter } from 'react-router-dom';
+import { FhevmClient, setDefaultFhevmClient } from '../fhevm-sdk/src';
 
 const projectId = '4eeb32175359e6b21f4e3ceae163ccea';
 
+// VITE_FHEVM_MODE=mock encrypts and decrypts through the FHEVM mock of a local `npx hardhat node`
+// (VITE_FHEVM_RPC_URL, http://127.0.0.1:8545 by default) instead of Sepolia's relayer
+const fhevmMode = process.env.VITE_FHEVM_MODE === 'mock' ? 'mock' : 'relayer';
+if (fhevmMode === 'mock') {
+  setDefaultFhevmClient(new FhevmClient({ mode: 'mock', rpcUrl: process.env.VITE_FHEVM_RPC_URL }));
+}
+
 const config = getDefaultConfig({
   appName: '',
   projectId: projectId,
-  chains: [sepolia],
+  chains: fhevmMode === 'mock' ? [hardhat, sepolia] : [sepolia, hardhat],
 });
 
 const queryClient = new QueryClient();
@@ -3,16 +3,28 @@ import "@nomicfoundation/hardhat-toolbox";
 import "@nomicfoundation/hardhat-ethers";
 import "@fhevm/hardhat-plugin";
 
+import "./deploy/config";
+import "./tasks/allowlist";
+import "./tasks/housebid";
+import "./tasks/keystore";
+
 const config: HardhatUserConfig = {
   defaultNetwork: "hardhat",
   networks: {
     hardhat: {
       chainId: 31337,
+      deploy: ["HouseBid_FHE"],
+    },
+    localhost: {
+      chainId: 31337,
+      url: "http://127.0.0.1:8545",
+      deploy: ["HouseBid_FHE", "MockERC20", "MockBidderRegistry"],
     },
     sepolia: {
       chainId: 11155111,
       url: "https://sepolia.drpc.org",
-      accounts: [],
+      keystore: "keystores/sepolia.json",
+      deploy: ["HouseBid_FHE"],
     },
   },
   solidity: {
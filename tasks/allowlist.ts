@@ -0,0 +1,94 @@
+import fs from "fs";
+import { task } from "hardhat/config";
+import { AbiCoder, getAddress, isAddress, keccak256 } from "ethers";
+
+/**
+ * Merkle root of a listing's approved buyers and the proof each of them attaches to `submitBid`.
+ * This is the JSON document sellers publish at the allowlist's `proofsURI`.
+ */
+export interface AllowlistTree {
+  merkleRoot: string;
+  proofs: Record<string, string[]>;
+}
+
+const abiCoder = AbiCoder.defaultAbiCoder();
+
+function leafHash(address: string): string {
+  return keccak256(keccak256(abiCoder.encode(["address"], [address])));
+}
+
+function pairHash(a: string, b: string): string {
+  return BigInt(a) < BigInt(b)
+    ? keccak256(abiCoder.encode(["bytes32", "bytes32"], [a, b]))
+    : keccak256(abiCoder.encode(["bytes32", "bytes32"], [b, a]));
+}
+
+/**
+ * Read the bidder addresses from the first column of a CSV, skipping a header row and empty lines
+ */
+export function parseAllowlistCsv(csv: string): string[] {
+  const addresses: string[] = [];
+
+  csv.split(/\r?\n/).forEach((line, index) => {
+    const cell = line.split(",")[0].trim().replace(/^"|"$/g, "");
+    if (!cell) return;
+    if (!isAddress(cell)) {
+      if (index === 0) return;
+      throw new Error(`Line ${index + 1}: "${cell}" is not an address`);
+    }
+    addresses.push(getAddress(cell));
+  });
+
+  return addresses;
+}
+
+/**
+ * Build the Merkle tree HouseBid_FHE verifies allowlist proofs against, with sorted-pair hashing
+ */
+export function buildAllowlist(addresses: string[]): AllowlistTree {
+  const bidders = [...new Set(addresses.map((address) => getAddress(address)))];
+  if (bidders.length === 0) {
+    throw new Error("An allowlist needs at least one address");
+  }
+
+  const leaves = bidders.map(leafHash);
+  const proofs: Record<string, string[]> = Object.fromEntries(bidders.map((bidder) => [bidder, []]));
+  // Position of each bidder's running hash in the current level
+  let positions = bidders.map((_, index) => index);
+  let level = leaves;
+
+  while (level.length > 1) {
+    const next: string[] = [];
+    for (let i = 0; i < level.length; i += 2) {
+      // An odd node out moves up a level unchanged
+      next.push(i + 1 < level.length ? pairHash(level[i], level[i + 1]) : level[i]);
+    }
+
+    positions = positions.map((position, index) => {
+      const sibling = position ^ 1;
+      if (sibling < level.length) {
+        proofs[bidders[index]].push(level[sibling]);
+      }
+      return position >> 1;
+    });
+    level = next;
+  }
+
+  return { merkleRoot: level[0], proofs };
+}
+
+task("allowlist", "Build an allowlist Merkle root and bidder proofs from a CSV of addresses")
+  .addParam("csv", "CSV file with one bidder address per line in its first column")
+  .addOptionalParam("out", "JSON file to write, publish it at the allowlist's proofsURI")
+  .setAction(async ({ csv, out }: { csv: string; out?: string }) => {
+    const tree = buildAllowlist(parseAllowlistCsv(fs.readFileSync(csv, "utf8")));
+    const json = JSON.stringify(tree, null, 2);
+
+    if (out) {
+      fs.writeFileSync(out, json + "\n");
+      console.log(`Allowlist of ${Object.keys(tree.proofs).length} bidders written to ${out}`);
+    } else {
+      console.log(json);
+    }
+    console.log(`Merkle root: ${tree.merkleRoot}`);
+  });
@@ -0,0 +1,364 @@
+import fs from "fs";
+import { task, types } from "hardhat/config";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import { Contract, ZeroAddress, ZeroHash, formatEther, hexlify, parseEther } from "ethers";
+
+import type { AllowlistTree } from "./allowlist";
+import { type AccountSigner, getSigners } from "../deploy/keystore";
+import { readManifest } from "../deploy/manifest";
+import type { HouseBid_FHE } from "../types";
+
+/**
+ * housebid:* tasks drive auctions from the command line. Against a local `npx hardhat node` use
+ * `--network localhost`, on Sepolia use `--network sepolia`, which signs with its keystore.
+ * The contract is `--contract`, the HOUSEBID_CONTRACT environment variable, or the one recorded in the
+ * network's deployments/<network>.json.
+ */
+
+const AUCTION_TYPES = ["firstPrice", "secondPrice"];
+const BIDS_PAGE_SIZE = 100n;
+const IDS_PAGE_SIZE = 100n;
+const FOLD_PAGE_SIZE = 10n;
+const CLOSING_SOON_SECONDS = 3600n;
+
+type Summary = Awaited<ReturnType<HouseBid_FHE["getPropertiesSummary"]>>[number];
+
+interface ContractArgs {
+  contract?: string;
+  signer: number;
+  json: boolean;
+}
+
+async function connect(hre: HardhatRuntimeEnvironment, { contract, signer }: ContractArgs) {
+  const address =
+    contract ?? process.env.HOUSEBID_CONTRACT ?? readManifest(hre.network.name)?.contracts.HouseBid_FHE?.address;
+  if (!address) {
+    throw new Error(
+      `No HouseBid_FHE recorded for ${hre.network.name}, deploy it or pass --contract or set HOUSEBID_CONTRACT`,
+    );
+  }
+
+  await hre.fhevm.initializeCLIApi();
+  const signers = await getSigners(hre);
+  if (!signers[signer]) {
+    throw new Error(`No signer ${signer} on ${hre.network.name}, ${signers.length} configured`);
+  }
+
+  const houseBid = (await hre.ethers.getContractAt(
+    "HouseBid_FHE",
+    address,
+    signers[signer],
+  )) as unknown as HouseBid_FHE;
+  return { houseBid, address, account: signers[signer] };
+}
+
+async function latestTimestamp(hre: HardhatRuntimeEnvironment): Promise<bigint> {
+  const block = await hre.ethers.provider.getBlock("latest");
+  return BigInt(block?.timestamp ?? Math.floor(Date.now() / 1000));
+}
+
+/**
+ * Same phases and boundaries as the SDK's getAuctionPhase
+ */
+function phaseOf(summary: Summary, now: bigint): string {
+  if (summary.isCancelled) return "cancelled";
+  if (!summary.isActive) return "concluded";
+  if (now > summary.endTime) return "awaitingReveal";
+  if (summary.isPaused) return "paused";
+  if (now < summary.startTime) return "upcoming";
+
+  const window = summary.antiSniping.window > 0n ? summary.antiSniping.window : CLOSING_SOON_SECONDS;
+  return summary.endTime - now < window ? "closingSoon" : "open";
+}
+
+function formatTime(seconds: bigint): string {
+  return new Date(Number(seconds) * 1000).toISOString();
+}
+
+type SummaryRow = ReturnType<typeof summaryRow>;
+
+interface BidRow {
+  index: number;
+  bidder: string;
+  time: string;
+  active: boolean;
+  encryptedAmount: string;
+}
+
+function summaryRow(summary: Summary, now: bigint) {
+  return {
+    id: summary.propertyId,
+    phase: phaseOf(summary, now),
+    type: AUCTION_TYPES[Number(summary.auctionType)],
+    seller: summary.seller,
+    ends: formatTime(summary.endTime),
+    bids: Number(summary.activeBidsCount),
+    winner: summary.isActive ? "" : summary.winner,
+    amount: summary.isActive ? "" : Number(summary.winningAmount),
+  };
+}
+
+/**
+ * Print rows as a table, or as JSON with `--json` so the output can be piped into other tools
+ */
+function print(rows: object | object[], json: boolean) {
+  if (json) {
+    console.log(JSON.stringify(rows, (_, value) => (typeof value === "bigint" ? value.toString() : value), 2));
+  } else if (Array.isArray(rows)) {
+    if (rows.length === 0) console.log("(none)");
+    else console.table(rows);
+  } else {
+    console.table([rows]);
+  }
+}
+
+async function readSummary(houseBid: HouseBid_FHE, propertyId: string): Promise<Summary> {
+  const [summary] = await houseBid.getPropertiesSummary([propertyId]);
+  if (summary.seller === ZeroAddress) {
+    throw new Error(`Property ${propertyId} is not listed`);
+  }
+  return summary;
+}
+
+async function allowlistProof(houseBid: HouseBid_FHE, propertyId: string, bidder: string, proofs?: string) {
+  const { merkleRoot, proofsURI } = await houseBid.getAllowlist(propertyId);
+  if (merkleRoot === ZeroHash) return [];
+
+  const source = proofs ?? proofsURI;
+  let tree: AllowlistTree;
+  if (/^https?:\/\//.test(source)) {
+    const response = await fetch(source);
+    if (!response.ok) {
+      throw new Error(`Failed to load the allowlist of ${propertyId} from ${source}: ${response.status}`);
+    }
+    tree = (await response.json()) as AllowlistTree;
+  } else {
+    tree = JSON.parse(fs.readFileSync(source, "utf8"));
+  }
+  // A stale proofs file would only fail on chain, after the gas and any deposit approval are spent
+  if (tree.merkleRoot !== merkleRoot) {
+    throw new Error(`Proofs file ${source} is for root ${tree.merkleRoot}, the listing's root is ${merkleRoot}`);
+  }
+
+  const proof = tree.proofs[bidder];
+  if (!proof) {
+    throw new Error(`${bidder} is not on the allowlist of ${propertyId}`);
+  }
+  return proof;
+}
+
+/**
+ * Fold the bids the listing has not folded yet, a page per transaction, so the winner reveal can be requested
+ */
+async function foldBids(houseBid: HouseBid_FHE, propertyId: string) {
+  for (;;) {
+    const [folded, total] = await houseBid.getFoldProgress(propertyId);
+    if (folded >= total) return;
+    await (await houseBid.foldBids(propertyId, FOLD_PAGE_SIZE)).wait();
+  }
+}
+
+/**
+ * Value to send with the first bid for an ETH deposit, ERC-20 deposits are approved here
+ */
+async function prepareDeposit(houseBid: HouseBid_FHE, propertyId: string, bidder: AccountSigner) {
+  const [{ token, amount }, escrow] = await Promise.all([
+    houseBid.getDeposit(propertyId),
+    houseBid.getEscrow(propertyId, bidder.address),
+  ]);
+  if (amount === 0n || escrow.amount > 0n) return 0n;
+  if (token === ZeroAddress) return amount;
+
+  const erc20 = new Contract(token, ["function approve(address spender, uint256 amount) returns (bool)"], bidder);
+  await (await erc20.approve(await houseBid.getAddress(), amount)).wait();
+  return 0n;
+}
+
+function contractTask(name: string, description: string) {
+  return task(name, description)
+    .addOptionalParam("contract", "HouseBid_FHE address, defaults to HOUSEBID_CONTRACT or the deployment manifest")
+    .addOptionalParam("signer", "Index of the signer in the network's accounts", 0, types.int)
+    .addFlag("json", "Print JSON instead of a table");
+}
+
+contractTask("housebid:list", "List a property with an encrypted reserve price, bidding opens right away")
+  .addParam("id", "Property id")
+  .addParam("details", "Description shown to bidders")
+  .addOptionalParam("duration", "Bidding period in seconds", 7 * 24 * 3600, types.int)
+  .addOptionalParam("reserve", "Reserve price, encrypted before it is sent", 0, types.int)
+  .addOptionalParam("type", "firstPrice or secondPrice", "firstPrice")
+  .addOptionalParam("deposit", "ETH deposit each bidder pays with their first bid", "0")
+  .setAction(
+    async (
+      args: ContractArgs & {
+        id: string;
+        details: string;
+        duration: number;
+        reserve: number;
+        type: string;
+        deposit: string;
+      },
+      hre,
+    ) => {
+      const auctionType = AUCTION_TYPES.indexOf(args.type);
+      if (auctionType < 0) {
+        throw new Error(`--type must be one of ${AUCTION_TYPES.join(", ")}`);
+      }
+
+      const { houseBid, address, account } = await connect(hre, args);
+      const input = await hre.fhevm.createEncryptedInput(address, account.address).add32(args.reserve).encrypt();
+      const receipt = await (
+        await houseBid.listProperty(
+          args.id,
+          args.details,
+          args.duration,
+          auctionType,
+          { window: 0, extension: 0, maxExtension: 0 },
+          { token: ZeroAddress, amount: parseEther(args.deposit) },
+          { merkleRoot: ZeroHash, proofsURI: "", registry: ZeroAddress },
+          input.handles[0],
+          input.inputProof,
+        )
+      ).wait();
+
+      print(summaryRow(await readSummary(houseBid, args.id), await latestTimestamp(hre)), args.json);
+      if (!args.json) console.log(`Listed in ${receipt?.hash}`);
+    },
+  );
+
+contractTask("housebid:bid", "Submit an encrypted bid, or replace the signer's active bid")
+  .addParam("id", "Property id")
+  .addParam("amount", "Bid amount, encrypted before it is sent", undefined, types.int)
+  .addOptionalParam("proofs", "Allowlist proofs JSON file or URL, defaults to the listing's proofsURI")
+  .setAction(async (args: ContractArgs & { id: string; amount: number; proofs?: string }, hre) => {
+    const { houseBid, address, account } = await connect(hre, args);
+    const input = await hre.fhevm.createEncryptedInput(address, account.address).add32(args.amount).encrypt();
+    const [hasBid] = await houseBid.getActiveBidIndex(args.id, account.address);
+    const proof = await allowlistProof(houseBid, args.id, account.address, args.proofs);
+
+    const tx = hasBid
+      ? await houseBid.replaceBid(args.id, input.handles[0], input.inputProof, proof)
+      : await houseBid.submitBid(args.id, input.handles[0], input.inputProof, proof, {
+          value: await prepareDeposit(houseBid, args.id, account),
+        });
+    const receipt = await tx.wait();
+
+    print(
+      {
+        id: args.id,
+        bidder: account.address,
+        replaced: hasBid,
+        encryptedAmount: hexlify(input.handles[0]),
+        transaction: receipt?.hash,
+      },
+      args.json,
+    );
+  });
+
+contractTask("housebid:bids", "Show the bids on a property, amounts stay encrypted")
+  .addParam("id", "Property id")
+  .addFlag("active", "Only active bids")
+  .setAction(async (args: ContractArgs & { id: string; active: boolean }, hre) => {
+    const { houseBid } = await connect(hre, args);
+    const rows: BidRow[] = [];
+
+    for (let offset = 0n; ; offset += BIDS_PAGE_SIZE) {
+      const bids = await houseBid.getBids(args.id, offset, BIDS_PAGE_SIZE);
+      bids.forEach((bid, index) =>
+        rows.push({
+          index: Number(offset) + index,
+          bidder: bid.bidder,
+          time: formatTime(bid.timestamp),
+          active: bid.isActive,
+          encryptedAmount: bid.encryptedAmount,
+        }),
+      );
+      if (BigInt(bids.length) < BIDS_PAGE_SIZE) break;
+    }
+
+    print(args.active ? rows.filter((row) => row.active) : rows, args.json);
+  });
+
+contractTask("housebid:reveal", "Fold the bids and request the winner reveal of an auction whose bidding has ended")
+  .addParam("id", "Property id")
+  .setAction(async (args: ContractArgs & { id: string }, hre) => {
+    const { houseBid } = await connect(hre, args);
+    await foldBids(houseBid, args.id);
+    const receipt = await (await houseBid.requestWinnerReveal(args.id)).wait();
+
+    const [clearingPrice, highestBidder, reserveMet] = await houseBid.getAuctionResult(args.id);
+    print({ id: args.id, reserveMet, clearingPrice, highestBidder, transaction: receipt?.hash }, args.json);
+  });
+
+contractTask(
+  "housebid:conclude",
+  "Publicly decrypt the winner and conclude the auction, requesting the reveal if needed",
+)
+  .addParam("id", "Property id")
+  .setAction(async (args: ContractArgs & { id: string }, hre) => {
+    const { houseBid } = await connect(hre, args);
+    const summary = await readSummary(houseBid, args.id);
+
+    let abiEncodedClearValues = "0x";
+    let decryptionProof = "0x";
+    if (summary.activeBidsCount > 0n) {
+      if (!summary.winnerRevealRequested) {
+        await foldBids(houseBid, args.id);
+        await (await houseBid.requestWinnerReveal(args.id)).wait();
+      }
+      const [clearingPrice, highestBidder, reserveMet] = await houseBid.getAuctionResult(args.id);
+      ({ abiEncodedClearValues, decryptionProof } = await hre.fhevm.publicDecrypt([
+        reserveMet,
+        clearingPrice,
+        highestBidder,
+      ]));
+    }
+
+    const receipt = await (await houseBid.determineWinner(args.id, abiEncodedClearValues, decryptionProof)).wait();
+    const concluded = await readSummary(houseBid, args.id);
+    print(
+      {
+        id: args.id,
+        winner: concluded.winner,
+        winningAmount: Number(concluded.winningAmount),
+        reserveMet: concluded.reserveMet,
+        transaction: receipt?.hash,
+      },
+      args.json,
+    );
+  });
+
+contractTask("housebid:status", "Show one listing, or every listing when --id is omitted")
+  .addOptionalParam("id", "Property id")
+  .setAction(async (args: ContractArgs & { id?: string }, hre) => {
+    const { houseBid } = await connect(hre, args);
+    const now = await latestTimestamp(hre);
+
+    if (args.id) {
+      const summary = await readSummary(houseBid, args.id);
+      const { token, amount } = summary.deposit;
+      const deposit =
+        amount === 0n ? "" : token === ZeroAddress ? `${formatEther(amount)} ETH` : `${amount} of ${token}`;
+      print(
+        {
+          ...summaryRow(summary, now),
+          details: summary.details,
+          deposit,
+          revealRequested: summary.winnerRevealRequested,
+        },
+        args.json,
+      );
+      return;
+    }
+
+    const rows: SummaryRow[] = [];
+    for (let offset = 0n; ; offset += IDS_PAGE_SIZE) {
+      const [ids, total] = await houseBid.getPropertyIds(offset, IDS_PAGE_SIZE);
+      if (ids.length > 0) {
+        const summaries = await houseBid.getPropertiesSummary([...ids]);
+        rows.push(...summaries.map((summary) => summaryRow(summary, now)));
+      }
+      if (offset + IDS_PAGE_SIZE >= total) break;
+    }
+    print(rows, args.json);
+  });
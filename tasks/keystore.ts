@@ -0,0 +1,59 @@
+import fs from "fs";
+import path from "path";
+import { task } from "hardhat/config";
+import { Wallet, type HDNodeWallet } from "ethers";
+
+import { configuredPassword, promptHidden } from "../deploy/keystore";
+
+/**
+ * Passphrase for a new keystore, typed twice unless KEYSTORE_PASSWORD is configured
+ */
+async function newPassword(): Promise<string> {
+  const configured = configuredPassword();
+  if (configured) return configured;
+
+  const password = await promptHidden("New keystore passphrase: ");
+  if (!password) {
+    throw new Error("The passphrase cannot be empty");
+  }
+  if ((await promptHidden("Repeat the passphrase: ")) !== password) {
+    throw new Error("The passphrases do not match");
+  }
+  return password;
+}
+
+async function importWallet(): Promise<Wallet> {
+  const key = (
+    await promptHidden(
+      "Private key to import: ",
+      "run the import from an interactive terminal, the key is only read from a hidden prompt",
+    )
+  ).trim();
+  try {
+    return new Wallet(key.startsWith("0x") ? key : `0x${key}`);
+  } catch {
+    throw new Error("That is not a valid private key");
+  }
+}
+
+task("housebid:keystore", "Create an encrypted keystore for the network's signer, or import an existing key")
+  .addFlag("import", "Encrypt a private key typed at a prompt instead of generating a new one")
+  .addOptionalParam("out", "Keystore file, defaults to the network's keystore in hardhat.config.ts")
+  .addFlag("force", "Replace an existing keystore")
+  .setAction(async (args: { import: boolean; out?: string; force: boolean }, hre) => {
+    const { name, config } = hre.network;
+    const file = args.out ? path.resolve(args.out) : "url" in config ? config.keystore : undefined;
+    if (!file) {
+      throw new Error(`Pass --out or set networks.${name}.keystore in hardhat.config.ts`);
+    }
+    if (fs.existsSync(file) && !args.force) {
+      throw new Error(`${file} already exists, pass --force to replace it`);
+    }
+
+    const wallet: Wallet | HDNodeWallet = args.import ? await importWallet() : Wallet.createRandom();
+    const json = await wallet.encrypt(await newPassword());
+
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, json + "\n", { mode: 0o600 });
+    console.log(`Wrote the keystore of ${wallet.address} to ${path.relative(process.cwd(), file)}`);
+  });
@@ -0,0 +1,1142 @@
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { anyValue } from "@nomicfoundation/hardhat-chai-matchers/withArgs";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+
+import { buildAllowlist, parseAllowlistCsv } from "../tasks/allowlist";
+import { HouseBid_FHE, HouseBid_FHE__factory, MockBidderRegistry, MockERC20, ReentrantBidder } from "../types";
+
+type Signers = {
+  seller: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+};
+
+const PROPERTY_ID = "villa-42";
+const DURATION = 3600;
+
+enum AuctionType {
+  FirstPrice,
+  SecondPrice,
+}
+
+const NO_ANTI_SNIPING = { window: 0, extension: 0, maxExtension: 0 };
+const ANTI_SNIPING = { window: 600, extension: 300, maxExtension: 900 };
+const NO_DEPOSIT = { token: ethers.ZeroAddress, amount: 0n };
+const DEPOSIT = ethers.parseEther("1");
+const NO_ALLOWLIST = { merkleRoot: ethers.ZeroHash, proofsURI: "", registry: ethers.ZeroAddress };
+
+async function deployFixture() {
+  const factory = (await ethers.getContractFactory("HouseBid_FHE")) as HouseBid_FHE__factory;
+  const contract = (await factory.deploy()) as HouseBid_FHE;
+  const contractAddress = await contract.getAddress();
+  return { contract, contractAddress };
+}
+
+describe("HouseBid_FHE", function () {
+  let signers: Signers;
+  let contract: HouseBid_FHE;
+  let contractAddress: string;
+
+  before(async function () {
+    const [seller, alice, bob] = await ethers.getSigners();
+    signers = { seller, alice, bob };
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      this.skip();
+    }
+
+    ({ contract, contractAddress } = await deployFixture());
+    await fhevm.assertCoprocessorInitialized(contract, "HouseBid_FHE");
+    await listProperty(PROPERTY_ID, 0);
+  });
+
+  async function listProperty(
+    propertyId: string,
+    reservePrice: number,
+    auctionType: AuctionType = AuctionType.FirstPrice,
+    antiSniping = NO_ANTI_SNIPING,
+    deposit = NO_DEPOSIT,
+    allowlist = NO_ALLOWLIST,
+  ) {
+    const input = await fhevm
+      .createEncryptedInput(contractAddress, signers.seller.address)
+      .add32(reservePrice)
+      .encrypt();
+    const tx = await contract
+      .connect(signers.seller)
+      .listProperty(
+        propertyId,
+        "Sea view, 4 bedrooms",
+        DURATION,
+        auctionType,
+        antiSniping,
+        deposit,
+        allowlist,
+        input.handles[0],
+        input.inputProof,
+      );
+    await tx.wait();
+    return tx;
+  }
+
+  async function revealHandles(propertyId: string = PROPERTY_ID) {
+    const [clearingPrice, highestBidder, reserveMet] = await contract.getAuctionResult(propertyId);
+    return fhevm.publicDecrypt([reserveMet, clearingPrice, highestBidder]);
+  }
+
+  async function submitBid(
+    bidder: HardhatEthersSigner,
+    amount: number,
+    propertyId: string = PROPERTY_ID,
+    value: bigint = 0n,
+    allowlistProof: string[] = [],
+  ) {
+    const input = await fhevm.createEncryptedInput(contractAddress, bidder.address).add32(amount).encrypt();
+    await (
+      await contract
+        .connect(bidder)
+        .submitBid(propertyId, input.handles[0], input.inputProof, allowlistProof, { value })
+    ).wait();
+  }
+
+  async function replaceBid(
+    bidder: HardhatEthersSigner,
+    amount: number,
+    propertyId: string = PROPERTY_ID,
+    allowlistProof: string[] = [],
+  ) {
+    const input = await fhevm.createEncryptedInput(contractAddress, bidder.address).add32(amount).encrypt();
+    await (
+      await contract.connect(bidder).replaceBid(propertyId, input.handles[0], input.inputProof, allowlistProof)
+    ).wait();
+  }
+
+  async function foldAllBids(propertyId: string = PROPERTY_ID) {
+    const [folded, total] = await contract.getFoldProgress(propertyId);
+    if (folded < total) {
+      await (await contract.foldBids(propertyId, total - folded)).wait();
+    }
+  }
+
+  async function requestWinnerReveal(propertyId: string = PROPERTY_ID) {
+    await foldAllBids(propertyId);
+    return contract.requestWinnerReveal(propertyId);
+  }
+
+  async function concludeAuction(propertyId: string = PROPERTY_ID) {
+    await (await requestWinnerReveal(propertyId)).wait();
+    const decryption = await revealHandles(propertyId);
+    return contract.determineWinner(propertyId, decryption.abiEncodedClearValues, decryption.decryptionProof);
+  }
+
+  async function bidHandle(bidIndex: number): Promise<string> {
+    const [encryptedAmount] = await contract.getBid(PROPERTY_ID, bidIndex);
+    return encryptedAmount;
+  }
+
+  describe("listing", function () {
+    /**
+     * List as `seller`, with a reserve price encrypted for `reserveOwner`
+     */
+    async function listAs(
+      seller: HardhatEthersSigner,
+      propertyId: string,
+      duration: number = DURATION,
+      reserveOwner: HardhatEthersSigner = seller,
+    ) {
+      const input = await fhevm.createEncryptedInput(contractAddress, reserveOwner.address).add32(0).encrypt();
+      return contract
+        .connect(seller)
+        .listProperty(
+          propertyId,
+          "Sea view, 4 bedrooms",
+          duration,
+          AuctionType.FirstPrice,
+          NO_ANTI_SNIPING,
+          NO_DEPOSIT,
+          NO_ALLOWLIST,
+          input.handles[0],
+          input.inputProof,
+        );
+    }
+
+    it("records the listing and opens bidding right away", async function () {
+      const [details, seller, startTime, endTime, isActive] = await contract.getPropertyDetails(PROPERTY_ID);
+
+      expect(details).to.eq("Sea view, 4 bedrooms");
+      expect(seller).to.eq(signers.seller.address);
+      expect(endTime - startTime).to.eq(BigInt(DURATION));
+      expect(isActive).to.eq(true);
+    });
+
+    it("rejects a property id that is already listed, even by another seller", async function () {
+      await expect(listAs(signers.seller, PROPERTY_ID)).to.be.revertedWith("Property already listed");
+      await expect(listAs(signers.alice, PROPERTY_ID)).to.be.revertedWith("Property already listed");
+    });
+
+    it("rejects an empty property id and a zero duration", async function () {
+      await expect(listAs(signers.seller, "")).to.be.revertedWith("Property id required");
+      await expect(listAs(signers.seller, "villa-43", 0)).to.be.revertedWith("Duration required");
+    });
+
+    it("rejects a reserve price encrypted for another account", async function () {
+      await expect(listAs(signers.seller, "villa-43", DURATION, signers.alice)).to.be.reverted;
+    });
+  });
+
+  describe("bidding window", function () {
+    async function endTime(): Promise<bigint> {
+      return (await contract.getPropertyDetails(PROPERTY_ID))[3];
+    }
+
+    async function bidInput(bidder: HardhatEthersSigner, amount: number) {
+      return fhevm.createEncryptedInput(contractAddress, bidder.address).add32(amount).encrypt();
+    }
+
+    it("accepts bids up to and including the deadline", async function () {
+      await time.setNextBlockTimestamp(await endTime());
+      await submitBid(signers.alice, 450000);
+
+      expect(await contract.getActiveBidsCount(PROPERTY_ID)).to.eq(1n);
+    });
+
+    it("rejects bids after the deadline", async function () {
+      await time.increaseTo((await endTime()) + 1n);
+      const input = await bidInput(signers.alice, 450000);
+
+      await expect(
+        contract.connect(signers.alice).submitBid(PROPERTY_ID, input.handles[0], input.inputProof, []),
+      ).to.be.revertedWith("Bidding period ended");
+      await expect(
+        contract.connect(signers.alice).replaceBid(PROPERTY_ID, input.handles[0], input.inputProof, []),
+      ).to.be.revertedWith("Bidding period ended");
+    });
+
+    it("rejects bids on a property that was never listed", async function () {
+      const input = await bidInput(signers.alice, 450000);
+
+      await expect(
+        contract.connect(signers.alice).submitBid("unknown", input.handles[0], input.inputProof, []),
+      ).to.be.revertedWith("Bidding period ended");
+    });
+
+    it("takes a second bid from the same bidder only as a replacement", async function () {
+      await submitBid(signers.alice, 450000);
+      const input = await bidInput(signers.alice, 460000);
+
+      await expect(
+        contract.connect(signers.alice).submitBid(PROPERTY_ID, input.handles[0], input.inputProof, []),
+      ).to.be.revertedWith("Bid already placed, use replaceBid");
+    });
+
+    it("rejects bids whose input proof belongs to another bidder or contract", async function () {
+      const aliceInput = await bidInput(signers.alice, 450000);
+      await expect(
+        contract.connect(signers.bob).submitBid(PROPERTY_ID, aliceInput.handles[0], aliceInput.inputProof, []),
+      ).to.be.reverted;
+
+      const { contractAddress: otherAddress } = await deployFixture();
+      const otherInput = await fhevm.createEncryptedInput(otherAddress, signers.bob.address).add32(450000).encrypt();
+      await expect(
+        contract.connect(signers.bob).submitBid(PROPERTY_ID, otherInput.handles[0], otherInput.inputProof, []),
+      ).to.be.reverted;
+
+      await expect(contract.connect(signers.bob).submitBid(PROPERTY_ID, aliceInput.handles[0], "0x", [])).to.be
+        .reverted;
+      expect(await contract.getActiveBidsCount(PROPERTY_ID)).to.eq(0n);
+    });
+  });
+
+  describe("bid privacy", function () {
+    it("lets the bidder decrypt their own bid while bidding is open", async function () {
+      await submitBid(signers.alice, 450000);
+
+      const clear = await fhevm.userDecryptEuint(FhevmType.euint32, await bidHandle(0), contractAddress, signers.alice);
+      expect(clear).to.eq(450000n);
+    });
+
+    it("does not let another account decrypt a bid before the deadline", async function () {
+      await submitBid(signers.alice, 450000);
+      const handle = await bidHandle(0);
+
+      await expect(fhevm.userDecryptEuint(FhevmType.euint32, handle, contractAddress, signers.bob)).to.be.rejected;
+      await expect(fhevm.userDecryptEuint(FhevmType.euint32, handle, contractAddress, signers.seller)).to.be.rejected;
+      await expect(fhevm.publicDecrypt([handle])).to.be.rejected;
+    });
+
+    it("keeps losing bids private after the auction concludes", async function () {
+      await submitBid(signers.alice, 450000);
+      await submitBid(signers.bob, 500000);
+      await time.increase(DURATION + 1);
+      await concludeAuction();
+
+      await expect(fhevm.publicDecrypt([await bidHandle(0)])).to.be.rejected;
+      await expect(
+        fhevm.userDecryptEuint(FhevmType.euint32, await bidHandle(0), contractAddress, signers.bob),
+      ).to.be.rejected;
+    });
+  });
+
+  describe("winner selection", function () {
+    it("reveals only the highest bid and its bidder", async function () {
+      await submitBid(signers.alice, 450000);
+      await submitBid(signers.bob, 500000);
+      await submitBid(signers.seller, 475000);
+      await time.increase(DURATION + 1);
+
+      await expect(requestWinnerReveal(PROPERTY_ID)).to.emit(contract, "WinnerRevealRequested");
+
+      const decryption = await revealHandles();
+
+      await expect(contract.determineWinner(PROPERTY_ID, decryption.abiEncodedClearValues, decryption.decryptionProof))
+        .to.emit(contract, "AuctionConcluded")
+        .withArgs(PROPERTY_ID, signers.bob.address, 500000, true);
+
+      const [, , , revealRequested, reserveMet, winner, winningAmount] = await contract.getAuctionResult(PROPERTY_ID);
+      expect(revealRequested).to.eq(true);
+      expect(reserveMet).to.eq(true);
+      expect(winner).to.eq(signers.bob.address);
+      expect(winningAmount).to.eq(500000n);
+      const [, , , , isActive] = await contract.getPropertyDetails(PROPERTY_ID);
+      expect(isActive).to.eq(false);
+    });
+
+    it("gives a tie to the earliest bid", async function () {
+      await submitBid(signers.alice, 500000);
+      await submitBid(signers.bob, 500000);
+      await time.increase(DURATION + 1);
+
+      await expect(concludeAuction())
+        .to.emit(contract, "AuctionConcluded")
+        .withArgs(PROPERTY_ID, signers.alice.address, 500000, true);
+    });
+
+    it("concludes an auction without bids with no winner", async function () {
+      await time.increase(DURATION + 1);
+
+      await expect(requestWinnerReveal(PROPERTY_ID)).to.be.revertedWith("No bids to reveal");
+      await expect(contract.determineWinner(PROPERTY_ID, "0x", "0x"))
+        .to.emit(contract, "AuctionConcluded")
+        .withArgs(PROPERTY_ID, ethers.ZeroAddress, 0, false);
+      await expect(contract.determineWinner(PROPERTY_ID, "0x", "0x")).to.be.revertedWith("Auction already concluded");
+    });
+
+    it("refuses to reveal the winner before the deadline", async function () {
+      await submitBid(signers.alice, 450000);
+
+      await expect(requestWinnerReveal(PROPERTY_ID)).to.be.revertedWith("Auction still active");
+      await expect(contract.determineWinner(PROPERTY_ID, "0x", "0x")).to.be.revertedWith("Auction still active");
+    });
+
+    it("refuses to conclude before the winner reveal is requested", async function () {
+      await submitBid(signers.alice, 450000);
+      await time.increase(DURATION + 1);
+
+      await expect(contract.determineWinner(PROPERTY_ID, "0x", "0x")).to.be.revertedWith("Winner reveal not requested");
+    });
+
+    it("rejects clear values that do not match the decryption proof", async function () {
+      await submitBid(signers.alice, 450000);
+      await submitBid(signers.bob, 500000);
+      await time.increase(DURATION + 1);
+      await (await requestWinnerReveal(PROPERTY_ID)).wait();
+
+      const decryption = await revealHandles();
+      const forged = ethers.AbiCoder.defaultAbiCoder().encode(
+        ["bool", "uint32", "address"],
+        [true, 1, signers.alice.address],
+      );
+
+      await expect(contract.determineWinner(PROPERTY_ID, forged, decryption.decryptionProof)).to.be.reverted;
+    });
+
+    it("rejects a decryption proof with a bad signature", async function () {
+      await submitBid(signers.alice, 450000);
+      await time.increase(DURATION + 1);
+      await (await requestWinnerReveal(PROPERTY_ID)).wait();
+
+      const decryption = await revealHandles();
+      const proof = ethers.getBytes(decryption.decryptionProof);
+      proof[proof.length - 2] ^= 0xff;
+
+      await expect(contract.determineWinner(PROPERTY_ID, decryption.abiEncodedClearValues, proof)).to.be.reverted;
+      await expect(contract.determineWinner(PROPERTY_ID, decryption.abiEncodedClearValues, "0x")).to.be.reverted;
+    });
+
+    it("rejects the decryption proof of another listing", async function () {
+      await listProperty("villa-43", 0);
+      await submitBid(signers.alice, 450000);
+      await submitBid(signers.alice, 450000, "villa-43");
+      await time.increase(DURATION + 1);
+      await (await requestWinnerReveal(PROPERTY_ID)).wait();
+      await (await requestWinnerReveal("villa-43")).wait();
+
+      const other = await revealHandles("villa-43");
+
+      await expect(contract.determineWinner(PROPERTY_ID, other.abiEncodedClearValues, other.decryptionProof)).to.be
+        .reverted;
+    });
+
+    it("reveals and concludes each auction only once", async function () {
+      await submitBid(signers.alice, 450000);
+      await time.increase(DURATION + 1);
+      await (await requestWinnerReveal(PROPERTY_ID)).wait();
+
+      await expect(requestWinnerReveal(PROPERTY_ID)).to.be.revertedWith("Winner reveal already requested");
+
+      const decryption = await revealHandles();
+      await (
+        await contract.determineWinner(PROPERTY_ID, decryption.abiEncodedClearValues, decryption.decryptionProof)
+      ).wait();
+
+      await expect(
+        contract.determineWinner(PROPERTY_ID, decryption.abiEncodedClearValues, decryption.decryptionProof),
+      ).to.be.revertedWith("Auction already concluded");
+      await expect(requestWinnerReveal(PROPERTY_ID)).to.be.revertedWith("Auction already concluded");
+    });
+  });
+
+  describe("reserve price", function () {
+    const RESERVED_ID = "penthouse-7";
+
+    beforeEach(async function () {
+      await listProperty(RESERVED_ID, 480000);
+    });
+
+    it("lets only the seller decrypt the reserve price", async function () {
+      const reserve = await contract.getReservePrice(RESERVED_ID);
+
+      expect(await fhevm.userDecryptEuint(FhevmType.euint32, reserve, contractAddress, signers.seller)).to.eq(480000n);
+      await expect(fhevm.userDecryptEuint(FhevmType.euint32, reserve, contractAddress, signers.alice)).to.be.rejected;
+      await expect(fhevm.publicDecrypt([reserve])).to.be.rejected;
+    });
+
+    it("reveals the winner when the highest bid meets the reserve", async function () {
+      await submitBid(signers.alice, 450000, RESERVED_ID);
+      await submitBid(signers.bob, 480000, RESERVED_ID);
+      await time.increase(DURATION + 1);
+
+      await expect(concludeAuction(RESERVED_ID))
+        .to.emit(contract, "AuctionConcluded")
+        .withArgs(RESERVED_ID, signers.bob.address, 480000, true);
+    });
+
+    it("reveals only that the reserve was not met otherwise", async function () {
+      await submitBid(signers.alice, 450000, RESERVED_ID);
+      await submitBid(signers.bob, 470000, RESERVED_ID);
+      await time.increase(DURATION + 1);
+      await (await requestWinnerReveal(RESERVED_ID)).wait();
+
+      const decryption = await revealHandles(RESERVED_ID);
+      expect(Object.values(decryption.clearValues)).to.deep.eq([false, 0n, ethers.ZeroAddress]);
+
+      await expect(contract.determineWinner(RESERVED_ID, decryption.abiEncodedClearValues, decryption.decryptionProof))
+        .to.emit(contract, "AuctionConcluded")
+        .withArgs(RESERVED_ID, ethers.ZeroAddress, 0, false);
+
+      const [, , , , reserveMet, winner, winningAmount] = await contract.getAuctionResult(RESERVED_ID);
+      expect(reserveMet).to.eq(false);
+      expect(winner).to.eq(ethers.ZeroAddress);
+      expect(winningAmount).to.eq(0n);
+    });
+  });
+
+  describe("second-price mode", function () {
+    const VICKREY_ID = "loft-3";
+
+    it("records the auction type of each listing", async function () {
+      await listProperty(VICKREY_ID, 0, AuctionType.SecondPrice);
+
+      await expect(listProperty("cabin-9", 0, AuctionType.SecondPrice))
+        .to.emit(contract, "PropertyListed")
+        .withArgs("cabin-9", signers.seller.address, anyValue, anyValue, AuctionType.SecondPrice);
+      expect((await contract.getPropertyDetails(PROPERTY_ID))[5]).to.eq(BigInt(AuctionType.FirstPrice));
+      expect((await contract.getPropertyDetails(VICKREY_ID))[5]).to.eq(BigInt(AuctionType.SecondPrice));
+    });
+
+    it("charges the winner the second-highest bid", async function () {
+      await listProperty(VICKREY_ID, 0, AuctionType.SecondPrice);
+      await submitBid(signers.alice, 450000, VICKREY_ID);
+      await submitBid(signers.bob, 500000, VICKREY_ID);
+      await submitBid(signers.seller, 475000, VICKREY_ID);
+      await time.increase(DURATION + 1);
+
+      await expect(concludeAuction(VICKREY_ID))
+        .to.emit(contract, "AuctionConcluded")
+        .withArgs(VICKREY_ID, signers.bob.address, 475000, true);
+    });
+
+    it("tracks the runner-up when the lead changes", async function () {
+      await listProperty(VICKREY_ID, 0, AuctionType.SecondPrice);
+      await submitBid(signers.alice, 500000, VICKREY_ID);
+      await submitBid(signers.bob, 450000, VICKREY_ID);
+      await submitBid(signers.seller, 520000, VICKREY_ID);
+      await time.increase(DURATION + 1);
+
+      await expect(concludeAuction(VICKREY_ID))
+        .to.emit(contract, "AuctionConcluded")
+        .withArgs(VICKREY_ID, signers.seller.address, 500000, true);
+    });
+
+    it("charges the tied amount on a tie, won by the earliest bid", async function () {
+      await listProperty(VICKREY_ID, 0, AuctionType.SecondPrice);
+      await submitBid(signers.alice, 500000, VICKREY_ID);
+      await submitBid(signers.bob, 500000, VICKREY_ID);
+      await time.increase(DURATION + 1);
+
+      await expect(concludeAuction(VICKREY_ID))
+        .to.emit(contract, "AuctionConcluded")
+        .withArgs(VICKREY_ID, signers.alice.address, 500000, true);
+    });
+
+    it("charges the reserve price when it is above the second-highest bid", async function () {
+      await listProperty(VICKREY_ID, 460000, AuctionType.SecondPrice);
+      await submitBid(signers.alice, 450000, VICKREY_ID);
+      await submitBid(signers.bob, 500000, VICKREY_ID);
+      await time.increase(DURATION + 1);
+
+      await expect(concludeAuction(VICKREY_ID))
+        .to.emit(contract, "AuctionConcluded")
+        .withArgs(VICKREY_ID, signers.bob.address, 460000, true);
+    });
+
+    it("reveals neither price nor winner when the reserve is not met", async function () {
+      await listProperty(VICKREY_ID, 600000, AuctionType.SecondPrice);
+      await submitBid(signers.alice, 450000, VICKREY_ID);
+      await submitBid(signers.bob, 500000, VICKREY_ID);
+      await time.increase(DURATION + 1);
+
+      await expect(concludeAuction(VICKREY_ID))
+        .to.emit(contract, "AuctionConcluded")
+        .withArgs(VICKREY_ID, ethers.ZeroAddress, 0, false);
+    });
+  });
+
+  describe("bid withdrawal and replacement", function () {
+    it("keeps one active bid per bidder", async function () {
+      await submitBid(signers.alice, 450000);
+
+      await expect(submitBid(signers.alice, 460000)).to.be.revertedWith("Bid already placed, use replaceBid");
+      expect(await contract.getActiveBidIndex(PROPERTY_ID, signers.alice.address)).to.deep.eq([true, 0n]);
+
+      await replaceBid(signers.alice, 460000);
+      expect((await contract.getBid(PROPERTY_ID, 0))[3]).to.eq(false);
+      expect((await contract.getBid(PROPERTY_ID, 1))[3]).to.eq(true);
+      expect(await contract.getActiveBidIndex(PROPERTY_ID, signers.alice.address)).to.deep.eq([true, 1n]);
+      expect(await contract.getActiveBidsCount(PROPERTY_ID)).to.eq(1n);
+    });
+
+    it("never lets a withdrawn bid win", async function () {
+      await submitBid(signers.alice, 500000);
+      await submitBid(signers.bob, 450000);
+
+      await expect(contract.connect(signers.alice).withdrawBid(PROPERTY_ID))
+        .to.emit(contract, "BidWithdrawn")
+        .withArgs(PROPERTY_ID, signers.alice.address, 0);
+      expect(await contract.getActiveBidIndex(PROPERTY_ID, signers.alice.address)).to.deep.eq([false, 0n]);
+
+      await time.increase(DURATION + 1);
+      await expect(concludeAuction())
+        .to.emit(contract, "AuctionConcluded")
+        .withArgs(PROPERTY_ID, signers.bob.address, 450000, true);
+    });
+
+    it("concludes without a winner when every bid was withdrawn", async function () {
+      await submitBid(signers.alice, 500000);
+      await (await contract.connect(signers.alice).withdrawBid(PROPERTY_ID)).wait();
+      await time.increase(DURATION + 1);
+
+      await expect(requestWinnerReveal(PROPERTY_ID)).to.be.revertedWith("No bids to reveal");
+      await expect(contract.determineWinner(PROPERTY_ID, "0x", "0x"))
+        .to.emit(contract, "AuctionConcluded")
+        .withArgs(PROPERTY_ID, ethers.ZeroAddress, 0, false);
+    });
+
+    it("lets a leader lower their bid below the runner-up", async function () {
+      await submitBid(signers.alice, 500000);
+      await submitBid(signers.bob, 480000);
+      await replaceBid(signers.alice, 470000);
+      await time.increase(DURATION + 1);
+
+      await expect(concludeAuction())
+        .to.emit(contract, "AuctionConcluded")
+        .withArgs(PROPERTY_ID, signers.bob.address, 480000, true);
+    });
+
+    it("lets a bidder raise their offer to take the lead", async function () {
+      await submitBid(signers.alice, 450000);
+      await submitBid(signers.bob, 480000);
+      await replaceBid(signers.alice, 520000);
+      await time.increase(DURATION + 1);
+
+      await expect(concludeAuction())
+        .to.emit(contract, "AuctionConcluded")
+        .withArgs(PROPERTY_ID, signers.alice.address, 520000, true);
+    });
+
+    it("drops a withdrawn runner-up from the second price", async function () {
+      await listProperty("loft-3", 0, AuctionType.SecondPrice);
+      await submitBid(signers.alice, 500000, "loft-3");
+      await submitBid(signers.bob, 490000, "loft-3");
+      await submitBid(signers.seller, 450000, "loft-3");
+      await (await contract.connect(signers.bob).withdrawBid("loft-3")).wait();
+      await time.increase(DURATION + 1);
+
+      await expect(concludeAuction("loft-3"))
+        .to.emit(contract, "AuctionConcluded")
+        .withArgs("loft-3", signers.alice.address, 450000, true);
+    });
+
+    it("accepts any number of bidders and folds them in pages once bidding has ended", async function () {
+      const bidders = (await ethers.getSigners()).slice(1, 13);
+      await listProperty("loft-3", 0, AuctionType.SecondPrice);
+      for (const [i, bidder] of bidders.entries()) {
+        await submitBid(bidder, 400000 + i, "loft-3");
+      }
+      expect(await contract.getActiveBidsCount("loft-3")).to.eq(12n);
+
+      // Changing a bid only marks the old one inactive
+      await replaceBid(bidders[0], 600000, "loft-3");
+      await (await contract.connect(bidders[11]).withdrawBid("loft-3")).wait();
+      expect(await contract.getActiveBidsCount("loft-3")).to.eq(11n);
+      expect(await contract.getFoldProgress("loft-3")).to.deep.eq([0n, 13n]);
+
+      await expect(contract.foldBids("loft-3", 5)).to.be.revertedWith("Auction still active");
+      await time.increase(DURATION + 1);
+
+      await expect(contract.foldBids("loft-3", 0)).to.be.revertedWith("Nothing to fold");
+      await expect(contract.connect(signers.alice).foldBids("loft-3", 5))
+        .to.emit(contract, "BidsFolded")
+        .withArgs("loft-3", 5, 13);
+      await expect(contract.requestWinnerReveal("loft-3")).to.be.revertedWith("Bids not folded");
+      await (await contract.foldBids("loft-3", 5)).wait();
+      await expect(contract.foldBids("loft-3", ethers.MaxUint256))
+        .to.emit(contract, "BidsFolded")
+        .withArgs("loft-3", 13, 13);
+      await expect(contract.foldBids("loft-3", 1)).to.be.revertedWith("All bids folded");
+
+      // The withdrawn 400011 is left out, so the replaced bid wins at the 400010 of the 11th bidder
+      await expect(concludeAuction("loft-3"))
+        .to.emit(contract, "AuctionConcluded")
+        .withArgs("loft-3", bidders[0].address, 400010, true);
+    });
+
+    it("only folds active bids, however often a bid was replaced", async function () {
+      await submitBid(signers.alice, 450000);
+      for (let i = 1; i < 20; i++) {
+        await replaceBid(signers.alice, 450000 + i);
+      }
+      await submitBid(signers.bob, 460000);
+      expect(await contract.getBidsCount(PROPERTY_ID)).to.eq(21n);
+      expect(await contract.getActiveBidsCount(PROPERTY_ID)).to.eq(2n);
+
+      await (await contract.connect(signers.bob).withdrawBid(PROPERTY_ID)).wait();
+      await time.increase(DURATION + 1);
+
+      await expect(concludeAuction())
+        .to.emit(contract, "AuctionConcluded")
+        .withArgs(PROPERTY_ID, signers.alice.address, 450019, true);
+    });
+
+    it("refuses withdrawals without an active bid or after the deadline", async function () {
+      await expect(contract.connect(signers.alice).withdrawBid(PROPERTY_ID)).to.be.revertedWith("No active bid");
+
+      await submitBid(signers.alice, 450000);
+      await time.increase(DURATION + 1);
+
+      await expect(contract.connect(signers.alice).withdrawBid(PROPERTY_ID)).to.be.revertedWith("Bidding period ended");
+      await expect(replaceBid(signers.alice, 460000)).to.be.revertedWith("Bidding period ended");
+    });
+  });
+
+  describe("anti-sniping", function () {
+    const SNIPED_ID = "loft-4";
+
+    async function endTime(propertyId: string): Promise<bigint> {
+      return (await contract.getPropertyDetails(propertyId))[3];
+    }
+
+    beforeEach(async function () {
+      await listProperty(SNIPED_ID, 0, AuctionType.FirstPrice, ANTI_SNIPING);
+    });
+
+    it("records the extension settings and the latest possible deadline", async function () {
+      const [antiSniping, maxEndTime] = await contract.getAntiSniping(SNIPED_ID);
+
+      expect(antiSniping.window).to.eq(600n);
+      expect(antiSniping.extension).to.eq(300n);
+      expect(antiSniping.maxExtension).to.eq(900n);
+      expect(maxEndTime).to.eq((await endTime(SNIPED_ID)) + 900n);
+    });
+
+    it("leaves the deadline alone for bids outside the window", async function () {
+      const deadline = await endTime(SNIPED_ID);
+
+      await submitBid(signers.alice, 450000, SNIPED_ID);
+
+      expect(await endTime(SNIPED_ID)).to.eq(deadline);
+    });
+
+    it("pushes the deadline out for a bid in the final minutes", async function () {
+      const deadline = await endTime(SNIPED_ID);
+      await time.increaseTo(deadline - 60n);
+
+      const input = await fhevm.createEncryptedInput(contractAddress, signers.alice.address).add32(450000).encrypt();
+      await expect(contract.connect(signers.alice).submitBid(SNIPED_ID, input.handles[0], input.inputProof, []))
+        .to.emit(contract, "DeadlineExtended")
+        .withArgs(SNIPED_ID, deadline + 300n);
+
+      expect(await endTime(SNIPED_ID)).to.eq(deadline + 300n);
+    });
+
+    it("extends repeatedly, including for replaced bids, up to the cap", async function () {
+      const deadline = await endTime(SNIPED_ID);
+
+      await time.increaseTo(deadline - 60n);
+      await submitBid(signers.alice, 450000, SNIPED_ID);
+      expect(await endTime(SNIPED_ID)).to.eq(deadline + 300n);
+
+      await time.increaseTo(deadline + 240n);
+      await submitBid(signers.bob, 460000, SNIPED_ID);
+      expect(await endTime(SNIPED_ID)).to.eq(deadline + 600n);
+
+      await time.increaseTo(deadline + 540n);
+      await replaceBid(signers.alice, 470000, SNIPED_ID);
+      expect(await endTime(SNIPED_ID)).to.eq(deadline + 900n);
+
+      // Capped: a further late bid does not move the deadline
+      await time.increaseTo(deadline + 840n);
+      const input = await fhevm.createEncryptedInput(contractAddress, signers.bob.address).add32(480000).encrypt();
+      await expect(
+        contract.connect(signers.bob).replaceBid(SNIPED_ID, input.handles[0], input.inputProof, []),
+      ).not.to.emit(contract, "DeadlineExtended");
+      expect(await endTime(SNIPED_ID)).to.eq(deadline + 900n);
+
+      await time.increaseTo(deadline + 901n);
+      await expect(submitBid(signers.seller, 490000, SNIPED_ID)).to.be.revertedWith("Bidding period ended");
+    });
+
+    it("clips the last extension to the cap", async function () {
+      await listProperty("loft-5", 0, AuctionType.FirstPrice, { window: 600, extension: 300, maxExtension: 400 });
+      const deadline = await endTime("loft-5");
+
+      await time.increaseTo(deadline - 60n);
+      await submitBid(signers.alice, 450000, "loft-5");
+      await time.increaseTo(deadline + 240n);
+      await submitBid(signers.bob, 460000, "loft-5");
+
+      expect(await endTime("loft-5")).to.eq(deadline + 400n);
+    });
+
+    it("keeps the auction closed to the winner reveal until the extended deadline", async function () {
+      const deadline = await endTime(SNIPED_ID);
+      await time.increaseTo(deadline - 60n);
+      await submitBid(signers.alice, 450000, SNIPED_ID);
+
+      await time.increaseTo(deadline + 1n);
+      await expect(requestWinnerReveal(SNIPED_ID)).to.be.revertedWith("Auction still active");
+
+      await time.increaseTo(deadline + 301n);
+      await expect(concludeAuction(SNIPED_ID))
+        .to.emit(contract, "AuctionConcluded")
+        .withArgs(SNIPED_ID, signers.alice.address, 450000, true);
+    });
+
+    it("never extends listings without a window", async function () {
+      const deadline = await endTime(PROPERTY_ID);
+      await time.increaseTo(deadline - 10n);
+
+      await submitBid(signers.alice, 450000);
+
+      expect(await endTime(PROPERTY_ID)).to.eq(deadline);
+    });
+  });
+
+  describe("deposits", function () {
+    const ETH_ID = "loft-6";
+    const TOKEN_ID = "loft-7";
+
+    async function escrow(propertyId: string, bidder: string) {
+      const { amount, settled } = await contract.getEscrow(propertyId, bidder);
+      return { amount, settled };
+    }
+
+    beforeEach(async function () {
+      await listProperty(ETH_ID, 400000, AuctionType.FirstPrice, NO_ANTI_SNIPING, {
+        token: ethers.ZeroAddress,
+        amount: DEPOSIT,
+      });
+    });
+
+    it("requires the exact ETH deposit with the first bid", async function () {
+      await expect(submitBid(signers.alice, 450000, ETH_ID)).to.be.revertedWith("Incorrect deposit");
+      await expect(submitBid(signers.alice, 450000, ETH_ID, DEPOSIT / 2n)).to.be.revertedWith("Incorrect deposit");
+
+      const input = await fhevm.createEncryptedInput(contractAddress, signers.alice.address).add32(450000).encrypt();
+      const tx = contract
+        .connect(signers.alice)
+        .submitBid(ETH_ID, input.handles[0], input.inputProof, [], { value: DEPOSIT });
+      await expect(tx).to.emit(contract, "DepositPaid").withArgs(ETH_ID, signers.alice.address, DEPOSIT);
+      await expect(tx).to.changeEtherBalances([signers.alice, contract], [-DEPOSIT, DEPOSIT]);
+
+      expect(await escrow(ETH_ID, signers.alice.address)).to.deep.eq({ amount: DEPOSIT, settled: false });
+    });
+
+    it("keeps one deposit across withdrawals and replacements", async function () {
+      await submitBid(signers.alice, 450000, ETH_ID, DEPOSIT);
+      await replaceBid(signers.alice, 460000, ETH_ID);
+      await (await contract.connect(signers.alice).withdrawBid(ETH_ID)).wait();
+
+      await expect(submitBid(signers.alice, 470000, ETH_ID, DEPOSIT)).to.be.revertedWith("No deposit due");
+      await submitBid(signers.alice, 470000, ETH_ID);
+
+      expect(await ethers.provider.getBalance(contractAddress)).to.eq(DEPOSIT);
+    });
+
+    it("refunds losers and pays the winner's deposit to the seller", async function () {
+      await submitBid(signers.alice, 450000, ETH_ID, DEPOSIT);
+      await submitBid(signers.bob, 500000, ETH_ID, DEPOSIT);
+
+      await expect(contract.connect(signers.alice).claimRefund(ETH_ID)).to.be.revertedWith("Auction not concluded");
+
+      await time.increase(DURATION + 1);
+      await concludeAuction(ETH_ID);
+
+      const refund = contract.connect(signers.alice).claimRefund(ETH_ID);
+      await expect(refund).to.emit(contract, "DepositRefunded").withArgs(ETH_ID, signers.alice.address, DEPOSIT);
+      await expect(refund).to.changeEtherBalance(signers.alice, DEPOSIT);
+      await expect(contract.connect(signers.bob).claimRefund(ETH_ID)).to.be.revertedWith(
+        "Winner deposit goes to the seller",
+      );
+
+      await expect(contract.connect(signers.alice).withdrawProceeds(ETH_ID)).to.be.revertedWith(
+        "Only the seller can withdraw proceeds",
+      );
+      const proceeds = contract.connect(signers.seller).withdrawProceeds(ETH_ID);
+      await expect(proceeds).to.emit(contract, "ProceedsWithdrawn").withArgs(ETH_ID, signers.seller.address, DEPOSIT);
+      await expect(proceeds).to.changeEtherBalance(signers.seller, DEPOSIT);
+
+      expect(await escrow(ETH_ID, signers.bob.address)).to.deep.eq({ amount: DEPOSIT, settled: true });
+      expect(await ethers.provider.getBalance(contractAddress)).to.eq(0n);
+    });
+
+    it("refunds everyone when the reserve was not met", async function () {
+      await submitBid(signers.alice, 350000, ETH_ID, DEPOSIT);
+      await time.increase(DURATION + 1);
+      await concludeAuction(ETH_ID);
+
+      await expect(contract.connect(signers.seller).withdrawProceeds(ETH_ID)).to.be.revertedWith("No winner");
+      await expect(contract.connect(signers.alice).claimRefund(ETH_ID)).to.changeEtherBalance(signers.alice, DEPOSIT);
+    });
+
+    it("rejects double claims", async function () {
+      await submitBid(signers.alice, 450000, ETH_ID, DEPOSIT);
+      await submitBid(signers.bob, 500000, ETH_ID, DEPOSIT);
+      await time.increase(DURATION + 1);
+      await concludeAuction(ETH_ID);
+
+      await (await contract.connect(signers.alice).claimRefund(ETH_ID)).wait();
+      await expect(contract.connect(signers.alice).claimRefund(ETH_ID)).to.be.revertedWith("Deposit already settled");
+
+      await (await contract.connect(signers.seller).withdrawProceeds(ETH_ID)).wait();
+      await expect(contract.connect(signers.seller).withdrawProceeds(ETH_ID)).to.be.revertedWith(
+        "Deposit already settled",
+      );
+
+      await expect(contract.connect(signers.seller).claimRefund(ETH_ID)).to.be.revertedWith("No deposit held");
+    });
+
+    it("pays a refund out only once to a reentrant bidder", async function () {
+      const attacker = (await (await ethers.getContractFactory("ReentrantBidder")).deploy(
+        contractAddress,
+      )) as ReentrantBidder;
+      const attackerAddress = await attacker.getAddress();
+
+      const input = await fhevm.createEncryptedInput(contractAddress, attackerAddress).add32(450000).encrypt();
+      await (await attacker.submitBid(ETH_ID, input.handles[0], input.inputProof, { value: DEPOSIT })).wait();
+      await submitBid(signers.bob, 500000, ETH_ID, DEPOSIT);
+      await time.increase(DURATION + 1);
+      await concludeAuction(ETH_ID);
+
+      await expect(attacker.claimRefund(ETH_ID)).to.changeEtherBalances([attacker, contract], [DEPOSIT, -DEPOSIT]);
+      expect(await attacker.reentryAttempts()).to.eq(1n);
+      expect(await attacker.reentrySucceeded()).to.eq(false);
+      await expect(attacker.claimRefund(ETH_ID)).to.be.revertedWith("Deposit already settled");
+    });
+
+    it("takes and returns ERC-20 deposits", async function () {
+      const token = (await (await ethers.getContractFactory("MockERC20")).deploy()) as MockERC20;
+      const tokenAddress = await token.getAddress();
+      await listProperty(TOKEN_ID, 0, AuctionType.FirstPrice, NO_ANTI_SNIPING, { token: tokenAddress, amount: 500n });
+
+      for (const bidder of [signers.alice, signers.bob]) {
+        await (await token.mint(bidder.address, 500n)).wait();
+        await (await token.connect(bidder).approve(contractAddress, 500n)).wait();
+      }
+
+      await expect(submitBid(signers.alice, 450000, TOKEN_ID, DEPOSIT)).to.be.revertedWith("Deposit is paid in tokens");
+      await submitBid(signers.alice, 450000, TOKEN_ID);
+      await submitBid(signers.bob, 500000, TOKEN_ID);
+      expect(await token.balanceOf(contractAddress)).to.eq(1000n);
+
+      await time.increase(DURATION + 1);
+      await concludeAuction(TOKEN_ID);
+      await (await contract.connect(signers.alice).claimRefund(TOKEN_ID)).wait();
+      await (await contract.connect(signers.seller).withdrawProceeds(TOKEN_ID)).wait();
+
+      expect(await token.balanceOf(signers.alice.address)).to.eq(500n);
+      expect(await token.balanceOf(signers.seller.address)).to.eq(500n);
+      expect(await token.balanceOf(contractAddress)).to.eq(0n);
+    });
+
+    it("rejects payments on listings without a deposit", async function () {
+      await expect(submitBid(signers.alice, 450000, PROPERTY_ID, DEPOSIT)).to.be.revertedWith("No deposit due");
+    });
+  });
+
+  describe("allowlist", function () {
+    const GATED_ID = "loft-8";
+    let outsider: HardhatEthersSigner;
+
+    before(async function () {
+      [, , , outsider] = await ethers.getSigners();
+    });
+
+    async function listGated(allowlist: Partial<typeof NO_ALLOWLIST>) {
+      await listProperty(GATED_ID, 0, AuctionType.FirstPrice, NO_ANTI_SNIPING, NO_DEPOSIT, {
+        ...NO_ALLOWLIST,
+        ...allowlist,
+      });
+    }
+
+    it("builds a tree from a CSV whose proofs the contract accepts", async function () {
+      const csv = `address,name\n${signers.alice.address},Alice\n\n${signers.bob.address.toLowerCase()},Bob\n${signers.seller.address}\n`;
+      const addresses = parseAllowlistCsv(csv);
+      expect(addresses).to.deep.eq([signers.alice.address, signers.bob.address, signers.seller.address]);
+
+      const { merkleRoot, proofs } = buildAllowlist(addresses);
+      await listGated({ merkleRoot, proofsURI: "ipfs://allowlist.json" });
+      expect((await contract.getAllowlist(GATED_ID)).proofsURI).to.eq("ipfs://allowlist.json");
+
+      await submitBid(signers.alice, 450000, GATED_ID, 0n, proofs[signers.alice.address]);
+      await submitBid(signers.bob, 460000, GATED_ID, 0n, proofs[signers.bob.address]);
+      await submitBid(signers.seller, 470000, GATED_ID, 0n, proofs[signers.seller.address]);
+      expect(await contract.getActiveBidsCount(GATED_ID)).to.eq(3n);
+    });
+
+    it("rejects bidders without a valid proof", async function () {
+      const { merkleRoot, proofs } = buildAllowlist([signers.alice.address, signers.bob.address]);
+      await listGated({ merkleRoot });
+
+      await expect(submitBid(outsider, 450000, GATED_ID)).to.be.revertedWith("Not on the allowlist");
+      await expect(submitBid(outsider, 450000, GATED_ID, 0n, proofs[signers.alice.address])).to.be.revertedWith(
+        "Not on the allowlist",
+      );
+      await expect(submitBid(signers.alice, 450000, GATED_ID)).to.be.revertedWith("Not on the allowlist");
+    });
+
+    it("admits a single approved bidder with an empty proof", async function () {
+      const { merkleRoot, proofs } = buildAllowlist([signers.alice.address]);
+      expect(proofs[signers.alice.address]).to.deep.eq([]);
+      await listGated({ merkleRoot });
+
+      await submitBid(signers.alice, 450000, GATED_ID);
+      await expect(submitBid(signers.bob, 460000, GATED_ID)).to.be.revertedWith("Not on the allowlist");
+    });
+
+    it("admits the buyers a registry approves", async function () {
+      const registry = (await (
+        await ethers.getContractFactory("MockBidderRegistry")
+      ).deploy()) as MockBidderRegistry;
+      await (await registry.setApproved(signers.alice.address, true)).wait();
+      await listGated({ registry: await registry.getAddress() });
+
+      await submitBid(signers.alice, 450000, GATED_ID);
+      await expect(submitBid(signers.bob, 460000, GATED_ID)).to.be.revertedWith("Not approved by the registry");
+    });
+
+    it("checks the allowlist again on replace but still lets a removed bidder withdraw", async function () {
+      const { merkleRoot, proofs } = buildAllowlist([signers.alice.address, signers.bob.address]);
+      await listGated({ merkleRoot });
+      await submitBid(signers.alice, 450000, GATED_ID, 0n, proofs[signers.alice.address]);
+      await replaceBid(signers.alice, 455000, GATED_ID, proofs[signers.alice.address]);
+      await expect(replaceBid(signers.alice, 460000, GATED_ID)).to.be.revertedWith("Not on the allowlist");
+
+      const bobOnly = buildAllowlist([signers.bob.address]);
+      await (
+        await contract
+          .connect(signers.seller)
+          .setAllowlist(GATED_ID, { ...NO_ALLOWLIST, merkleRoot: bobOnly.merkleRoot })
+      ).wait();
+      await expect(replaceBid(signers.alice, 470000, GATED_ID, proofs[signers.alice.address])).to.be.revertedWith(
+        "Not on the allowlist",
+      );
+
+      await (await contract.connect(signers.alice).withdrawBid(GATED_ID)).wait();
+      expect(await contract.getActiveBidsCount(GATED_ID)).to.eq(0n);
+    });
+
+    it("lets only the seller update the allowlist", async function () {
+      const { merkleRoot, proofs } = buildAllowlist([signers.alice.address]);
+
+      await expect(
+        contract.connect(signers.alice).setAllowlist(PROPERTY_ID, { ...NO_ALLOWLIST, merkleRoot }),
+      ).to.be.revertedWith("Only the seller can update the allowlist");
+
+      await expect(contract.connect(signers.seller).setAllowlist(PROPERTY_ID, { ...NO_ALLOWLIST, merkleRoot }))
+        .to.emit(contract, "AllowlistUpdated")
+        .withArgs(PROPERTY_ID, merkleRoot, "", ethers.ZeroAddress);
+
+      await expect(submitBid(signers.bob, 460000)).to.be.revertedWith("Not on the allowlist");
+      await submitBid(signers.alice, 450000, PROPERTY_ID, 0n, proofs[signers.alice.address]);
+    });
+  });
+
+  describe("listing management", function () {
+    it("lets only the seller manage a listing", async function () {
+      const asAlice = contract.connect(signers.alice);
+      const reason = "Only the seller can manage the listing";
+
+      await expect(asAlice.cancelListing(PROPERTY_ID)).to.be.revertedWith(reason);
+      await expect(asAlice.pauseListing(PROPERTY_ID)).to.be.revertedWith(reason);
+      await expect(asAlice.resumeListing(PROPERTY_ID)).to.be.revertedWith(reason);
+      await expect(asAlice.updateDetails(PROPERTY_ID, "Garden view")).to.be.revertedWith(reason);
+      await expect(contract.cancelListing("unknown")).to.be.revertedWith("Property not listed");
+    });
+
+    it("refuses changes once the listing has a bid", async function () {
+      await submitBid(signers.alice, 450000);
+      await (await contract.connect(signers.alice).withdrawBid(PROPERTY_ID)).wait();
+      const asSeller = contract.connect(signers.seller);
+      const reason = "Listing already has bids";
+
+      await expect(asSeller.cancelListing(PROPERTY_ID)).to.be.revertedWith(reason);
+      await expect(asSeller.pauseListing(PROPERTY_ID)).to.be.revertedWith(reason);
+      await expect(asSeller.updateDetails(PROPERTY_ID, "Garden view")).to.be.revertedWith(reason);
+    });
+
+    it("updates the details", async function () {
+      await expect(contract.connect(signers.seller).updateDetails(PROPERTY_ID, "Garden view, 5 bedrooms"))
+        .to.emit(contract, "DetailsUpdated")
+        .withArgs(PROPERTY_ID, "Garden view, 5 bedrooms");
+
+      expect((await contract.getPropertyDetails(PROPERTY_ID))[0]).to.eq("Garden view, 5 bedrooms");
+    });
+
+    it("rejects bids while paused", async function () {
+      const asSeller = contract.connect(signers.seller);
+
+      await expect(asSeller.resumeListing(PROPERTY_ID)).to.be.revertedWith("Listing not paused");
+      await expect(asSeller.pauseListing(PROPERTY_ID)).to.emit(contract, "ListingPaused").withArgs(PROPERTY_ID);
+      await expect(asSeller.pauseListing(PROPERTY_ID)).to.be.revertedWith("Listing already paused");
+      expect(await contract.getListingStatus(PROPERTY_ID)).to.deep.eq([true, false]);
+
+      await expect(submitBid(signers.alice, 450000)).to.be.revertedWith("Auction paused");
+
+      await expect(asSeller.resumeListing(PROPERTY_ID)).to.emit(contract, "ListingResumed").withArgs(PROPERTY_ID);
+      await submitBid(signers.alice, 450000);
+    });
+
+    it("closes a cancelled listing for good", async function () {
+      await expect(contract.connect(signers.seller).cancelListing(PROPERTY_ID))
+        .to.emit(contract, "ListingCancelled")
+        .withArgs(PROPERTY_ID);
+      expect(await contract.getListingStatus(PROPERTY_ID)).to.deep.eq([false, true]);
+
+      await expect(submitBid(signers.alice, 450000)).to.be.revertedWith("Auction not active");
+      await expect(contract.connect(signers.seller).resumeListing(PROPERTY_ID)).to.be.revertedWith(
+        "Auction not active",
+      );
+
+      await time.increase(DURATION + 1);
+      await expect(contract.determineWinner(PROPERTY_ID, "0x", "0x")).to.be.revertedWith("Listing cancelled");
+    });
+  });
+
+  describe("enumeration", function () {
+    beforeEach(async function () {
+      // PROPERTY_ID is listed by the seller in the outer beforeEach
+      await listProperty("loft-9", 0);
+      await listProperty("loft-10", 0, AuctionType.SecondPrice);
+      const input = await fhevm.createEncryptedInput(contractAddress, signers.alice.address).add32(0).encrypt();
+      await (
+        await contract
+          .connect(signers.alice)
+          .listProperty(
+            "loft-11",
+            "Canal view",
+            DURATION,
+            AuctionType.FirstPrice,
+            NO_ANTI_SNIPING,
+            NO_DEPOSIT,
+            NO_ALLOWLIST,
+            input.handles[0],
+            input.inputProof,
+          )
+      ).wait();
+    });
+
+    it("pages through property ids", async function () {
+      expect(await contract.getPropertyIds(0, 2)).to.deep.eq([[PROPERTY_ID, "loft-9"], 4n]);
+      expect(await contract.getPropertyIds(2, 2)).to.deep.eq([["loft-10", "loft-11"], 4n]);
+      expect(await contract.getPropertyIds(3, 10)).to.deep.eq([["loft-11"], 4n]);
+      expect(await contract.getPropertyIds(4, 10)).to.deep.eq([[], 4n]);
+      expect(await contract.getPropertyIds(1, ethers.MaxUint256)).to.deep.eq([["loft-9", "loft-10", "loft-11"], 4n]);
+    });
+
+    it("pages through the listings of one seller", async function () {
+      expect(await contract.getSellerPropertyIds(signers.seller.address, 1, 5)).to.deep.eq([["loft-9", "loft-10"], 3n]);
+      expect(await contract.getSellerPropertyIds(signers.alice.address, 0, 5)).to.deep.eq([["loft-11"], 1n]);
+      expect(await contract.getSellerPropertyIds(signers.bob.address, 0, 5)).to.deep.eq([[], 0n]);
+    });
+
+    it("summarizes several properties in one call", async function () {
+      await submitBid(signers.alice, 450000);
+      await submitBid(signers.bob, 460000);
+      await (await contract.connect(signers.alice).withdrawBid(PROPERTY_ID)).wait();
+
+      const [villa, loft, unlisted] = await contract.getPropertiesSummary([PROPERTY_ID, "loft-10", "unknown"]);
+
+      expect(villa.propertyId).to.eq(PROPERTY_ID);
+      expect(villa.seller).to.eq(signers.seller.address);
+      expect(villa.isActive).to.eq(true);
+      expect(villa.bidsCount).to.eq(2n);
+      expect(villa.activeBidsCount).to.eq(1n);
+      expect(villa.endTime).to.eq((await contract.getPropertyDetails(PROPERTY_ID))[3]);
+      expect(loft.auctionType).to.eq(BigInt(AuctionType.SecondPrice));
+      expect(loft.bidsCount).to.eq(0n);
+      expect(unlisted.seller).to.eq(ethers.ZeroAddress);
+    });
+
+    it("reports the clear outcome in the summary", async function () {
+      await submitBid(signers.alice, 450000);
+      await time.increase(DURATION + 1);
+      await (await concludeAuction()).wait();
+
+      const [summary] = await contract.getPropertiesSummary([PROPERTY_ID]);
+      expect(summary.isActive).to.eq(false);
+      expect(summary.winnerRevealRequested).to.eq(true);
+      expect(summary.winner).to.eq(signers.alice.address);
+      expect(summary.winningAmount).to.eq(450000n);
+    });
+
+    it("pages through the bids of a property", async function () {
+      await submitBid(signers.alice, 450000);
+      await submitBid(signers.bob, 460000);
+      await replaceBid(signers.alice, 470000);
+
+      const bids = await contract.getBids(PROPERTY_ID, 1, 5);
+      expect(bids.map((bid) => [bid.bidder, bid.isActive])).to.deep.eq([
+        [signers.bob.address, true],
+        [signers.alice.address, true],
+      ]);
+      expect(bids[1].encryptedAmount).to.eq((await contract.getBid(PROPERTY_ID, 2))[0]);
+      expect(await contract.getBids(PROPERTY_ID, 3, 5)).to.deep.eq([]);
+    });
+  });
+});
@@ -188,5 +188,3 @@ export interface IACL extends BaseContract {
 
   filters: {};
 }
-
-
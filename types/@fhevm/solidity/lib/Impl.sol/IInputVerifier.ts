@@ -88,5 +88,3 @@ export interface IInputVerifier extends BaseContract {
 
   filters: {};
 }
-
-
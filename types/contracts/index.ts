@@ -1,6 +1,8 @@
 /* Autogenerated file. Do not edit manually. */
 /* tslint:disable */
 /* eslint-disable */
-export type { UniversalFHEAdapter } from "./UniversalFHEAdapter";
-
-
+import type * as interfaces from "./interfaces";
+export type { interfaces };
+import type * as mocks from "./mocks";
+export type { mocks };
+export type { HouseBid_FHE } from "./HouseBid_FHE";
@@ -0,0 +1,109 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedListener,
+  TypedContractMethod,
+} from "../../common";
+
+export interface MockBidderRegistryInterface extends Interface {
+  getFunction(nameOrSignature: "isApproved" | "setApproved"): FunctionFragment;
+
+  encodeFunctionData(
+    functionFragment: "isApproved",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setApproved",
+    values: [AddressLike, boolean]
+  ): string;
+
+  decodeFunctionResult(functionFragment: "isApproved", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "setApproved",
+    data: BytesLike
+  ): Result;
+}
+
+export interface MockBidderRegistry extends BaseContract {
+  connect(runner?: ContractRunner | null): MockBidderRegistry;
+  waitForDeployment(): Promise<this>;
+
+  interface: MockBidderRegistryInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  isApproved: TypedContractMethod<[arg0: AddressLike], [boolean], "view">;
+
+  setApproved: TypedContractMethod<
+    [bidder: AddressLike, approved: boolean],
+    [void],
+    "nonpayable"
+  >;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "isApproved"
+  ): TypedContractMethod<[arg0: AddressLike], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "setApproved"
+  ): TypedContractMethod<
+    [bidder: AddressLike, approved: boolean],
+    [void],
+    "nonpayable"
+  >;
+
+  filters: {};
+}
@@ -0,0 +1,145 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedListener,
+  TypedContractMethod,
+} from "../../common";
+
+export interface ReentrantBidderInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "claimRefund"
+      | "houseBid"
+      | "reentryAttempts"
+      | "reentrySucceeded"
+      | "submitBid"
+  ): FunctionFragment;
+
+  encodeFunctionData(functionFragment: "claimRefund", values: [string]): string;
+  encodeFunctionData(functionFragment: "houseBid", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "reentryAttempts",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "reentrySucceeded",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "submitBid",
+    values: [string, BytesLike, BytesLike]
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "claimRefund",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "houseBid", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "reentryAttempts",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "reentrySucceeded",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "submitBid", data: BytesLike): Result;
+}
+
+export interface ReentrantBidder extends BaseContract {
+  connect(runner?: ContractRunner | null): ReentrantBidder;
+  waitForDeployment(): Promise<this>;
+
+  interface: ReentrantBidderInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  claimRefund: TypedContractMethod<[propertyId: string], [void], "nonpayable">;
+
+  houseBid: TypedContractMethod<[], [string], "view">;
+
+  reentryAttempts: TypedContractMethod<[], [bigint], "view">;
+
+  reentrySucceeded: TypedContractMethod<[], [boolean], "view">;
+
+  submitBid: TypedContractMethod<
+    [propertyId: string, encryptedAmount: BytesLike, inputProof: BytesLike],
+    [void],
+    "payable"
+  >;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "claimRefund"
+  ): TypedContractMethod<[propertyId: string], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "houseBid"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "reentryAttempts"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "reentrySucceeded"
+  ): TypedContractMethod<[], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "submitBid"
+  ): TypedContractMethod<
+    [propertyId: string, encryptedAmount: BytesLike, inputProof: BytesLike],
+    [void],
+    "payable"
+  >;
+
+  filters: {};
+}
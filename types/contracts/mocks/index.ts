@@ -0,0 +1,6 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export type { MockBidderRegistry } from "./MockBidderRegistry";
+export type { MockERC20 } from "./MockERC20";
+export type { ReentrantBidder } from "./ReentrantBidder";
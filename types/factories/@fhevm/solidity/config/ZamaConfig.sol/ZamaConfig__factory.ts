@@ -67,5 +67,3 @@ export class ZamaConfig__factory extends ContractFactory {
     return new Contract(address, _abi, runner) as unknown as ZamaConfig;
   }
 }
-
-
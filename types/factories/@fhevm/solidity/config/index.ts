@@ -2,5 +2,3 @@
 /* tslint:disable */
 /* eslint-disable */
 export * as zamaConfigSol from "./ZamaConfig.sol";
-
-
@@ -86,5 +86,3 @@ export class FHE__factory extends ContractFactory {
     return new Contract(address, _abi, runner) as unknown as FHE;
   }
 }
-
-
@@ -30,5 +30,3 @@ export class IInputVerifier__factory {
     return new Contract(address, _abi, runner) as unknown as IInputVerifier;
   }
 }
-
-
@@ -1,6 +1,6 @@
 /* Autogenerated file. Do not edit manually. */
 /* tslint:disable */
 /* eslint-disable */
-export { UniversalFHEAdapter__factory } from "./UniversalFHEAdapter__factory";
-
-
+export * as interfaces from "./interfaces";
+export * as mocks from "./mocks";
+export { HouseBid_FHE__factory } from "./HouseBid_FHE__factory";
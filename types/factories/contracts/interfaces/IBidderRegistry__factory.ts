@@ -0,0 +1,44 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+
+import { Contract, Interface, type ContractRunner } from "ethers";
+import type {
+  IBidderRegistry,
+  IBidderRegistryInterface,
+} from "../../../contracts/interfaces/IBidderRegistry";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "bidder",
+        type: "address",
+      },
+    ],
+    name: "isApproved",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+] as const;
+
+export class IBidderRegistry__factory {
+  static readonly abi = _abi;
+  static createInterface(): IBidderRegistryInterface {
+    return new Interface(_abi) as IBidderRegistryInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): IBidderRegistry {
+    return new Contract(address, _abi, runner) as unknown as IBidderRegistry;
+  }
+}
@@ -0,0 +1,104 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type { NonPayableOverrides } from "../../../common";
+import type {
+  MockBidderRegistry,
+  MockBidderRegistryInterface,
+} from "../../../contracts/mocks/MockBidderRegistry";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "isApproved",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "bidder",
+        type: "address",
+      },
+      {
+        internalType: "bool",
+        name: "approved",
+        type: "bool",
+      },
+    ],
+    name: "setApproved",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x608080604052346100155760ce908161001a8239f35b5f80fdfe60808060405260043610156011575f80fd5b5f3560e01c908163673448dd14607857506384cfb68014602f575f80fd5b346074576040366003190112607457604460ac565b6024359081151580920360745760018060a01b03165f525f60205260405f209060ff801983541691161790555f80f35b5f80fd5b3460745760203660031901126074576020906001600160a01b03609860ac565b165f525f825260ff60405f20541615158152f35b600435906001600160a01b038216820360745756fea164736f6c6343000818000a";
+
+type MockBidderRegistryConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: MockBidderRegistryConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class MockBidderRegistry__factory extends ContractFactory {
+  constructor(...args: MockBidderRegistryConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(overrides || {});
+  }
+  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
+    return super.deploy(overrides || {}) as Promise<
+      MockBidderRegistry & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): MockBidderRegistry__factory {
+    return super.connect(runner) as MockBidderRegistry__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): MockBidderRegistryInterface {
+    return new Interface(_abi) as MockBidderRegistryInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): MockBidderRegistry {
+    return new Contract(address, _abi, runner) as unknown as MockBidderRegistry;
+  }
+}
@@ -0,0 +1,166 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type {
+  Signer,
+  AddressLike,
+  ContractDeployTransaction,
+  ContractRunner,
+} from "ethers";
+import type { NonPayableOverrides } from "../../../common";
+import type {
+  ReentrantBidder,
+  ReentrantBidderInterface,
+} from "../../../contracts/mocks/ReentrantBidder";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "contract HouseBid_FHE",
+        name: "target",
+        type: "address",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "propertyId",
+        type: "string",
+      },
+    ],
+    name: "claimRefund",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "houseBid",
+    outputs: [
+      {
+        internalType: "contract HouseBid_FHE",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "reentryAttempts",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "reentrySucceeded",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "propertyId",
+        type: "string",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "encryptedAmount",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "submitBid",
+    outputs: [],
+    stateMutability: "payable",
+    type: "function",
+  },
+  {
+    stateMutability: "payable",
+    type: "receive",
+  },
+] as const;
+
+const _bytecode =
+  "0x60a03461007e57601f61071238819003918201601f19168301916001600160401b038311848410176100825780849260209460405283398101031261007e57516001600160a01b038116810361007e5760805260405161067b9081610097823960805181818160a4015281816101760152818161035401526105240152f35b5f80fd5b634e487b7160e01b5f52604160045260245ffdfe6080604081815260049182361015610029575b505050361561001f575f80fd5b61002761050d565b005b5f925f3560e01c9182633340d88c14610308575081634e8b87fe146100f65750806359703b2e146100d3578063744495d1146100905763a8745cd21461006f5780610012565b3461008c578160031936011261008c576020906001549051908152f35b5080fd5b503461008c578160031936011261008c57517f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03168152602090f35b503461008c578160031936011261008c5760209060ff6002541690519015158152f35b8391503461008c5760209260206003193601126103045767ffffffffffffffff9180358381116103005761012d903690830161045f565b909381116102ed5761013f85546104d5565b601f811161028b575b508495601f821160011461020b57508085968691610200575b508160011b905f198360031b1c19161785555b7f00000000000000000000000000000000000000000000000000000000000000006001600160a01b0316803b156101fc5760208680946101cd875198899687958694632745c3ff60e11b865285015260248401916104b5565b03925af19081156101f357506101e05750f35b6101e99061048d565b6101f05780f35b80fd5b513d84823e3d90fd5b8580fd5b905084013587610161565b858052601f198216967f290decd9548b62a8d60345a988386fc84ba6bc95484008f6362f93160ef3e5639187905b8982106102735750508287981061025a575b5050600181811b018555610174565b8501355f19600384901b60f8161c19169055868061024b565b80600184958294958b01358155019401920190610239565b8580527f290decd9548b62a8d60345a988386fc84ba6bc95484008f6362f93160ef3e563601f830160051c810191602084106102e3575b601f0160051c01905b8181106102d85750610148565b8681556001016102cb565b90915081906102c2565b634e487b7160e01b855260418252602485fd5b8480fd5b8280fd5b909291506003196060368201126104485767ffffffffffffffff90843582811161044857610339903690870161045f565b909360443584811161044857610352903690890161045f565b7f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03169660208481019790959088118589101761044c57878a525f8552883b15610448579260809a979694926103cc6103e4936020968d519e8f9c8d633692864d60e01b90528d015260848c01916104b5565b9160243560248b0152868a84030160448b01526104b5565b9286840301606487015251918281520192915f5b82811061043157505050509181805f94039134905af1908115610428575061041e575080f35b610027915061048d565b513d5f823e3d90fd5b8351855288955093810193928101926001016103f8565b5f80fd5b60418b634e487b7160e01b5f525260245ffd5b9181601f840112156104485782359167ffffffffffffffff8311610448576020838186019501011161044857565b67ffffffffffffffff81116104a157604052565b634e487b7160e01b5f52604160045260245ffd5b908060209392818452848401375f828201840152601f01601f1916010190565b90600182811c92168015610503575b60208310146104ef57565b634e487b7160e01b5f52602260045260245ffd5b91607f16916104e4565b600180548061066a575f19811461065657810181557f00000000000000000000000000000000000000000000000000000000000000006001600160a01b0316803b156104485760405190632745c3ff60e11b82528160208060048301525f905f5490610578826104d5565b9182602486015260449088811690815f1461062e57506001146105ce575b50505091815f81819503925af190816105bf575b506105b25750565b60ff196002541617600255565b6105c89061048d565b5f6105aa565b949250905f80527f290decd9548b62a8d60345a988386fc84ba6bc95484008f6362f93160ef3e56391875f935b8385106106175750939550505082016044019050815f81610596565b8054898601890152889650938201938991016105fb565b60ff191660448088019190915293151560051b860190930193508492505f9150829050610596565b634e487b7160e01b5f52601160045260245ffd5b505056fea164736f6c6343000818000a";
+
+type ReentrantBidderConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: ReentrantBidderConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class ReentrantBidder__factory extends ContractFactory {
+  constructor(...args: ReentrantBidderConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    target: AddressLike,
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(target, overrides || {});
+  }
+  override deploy(
+    target: AddressLike,
+    overrides?: NonPayableOverrides & { from?: string }
+  ) {
+    return super.deploy(target, overrides || {}) as Promise<
+      ReentrantBidder & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): ReentrantBidder__factory {
+    return super.connect(runner) as ReentrantBidder__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): ReentrantBidderInterface {
+    return new Interface(_abi) as ReentrantBidderInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): ReentrantBidder {
+    return new Contract(address, _abi, runner) as unknown as ReentrantBidder;
+  }
+}
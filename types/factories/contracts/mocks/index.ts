@@ -0,0 +1,6 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export { MockBidderRegistry__factory } from "./MockBidderRegistry__factory";
+export { MockERC20__factory } from "./MockERC20__factory";
+export { ReentrantBidder__factory } from "./ReentrantBidder__factory";
@@ -3,5 +3,3 @@
 /* eslint-disable */
 export * as fhevm from "./@fhevm";
 export * as contracts from "./contracts";
-
-
@@ -20,7 +20,15 @@ export type { IFHEVMExecutor } from "./@fhevm/solidity/lib/Impl.sol/IFHEVMExecut
 export { IFHEVMExecutor__factory } from "./factories/@fhevm/solidity/lib/Impl.sol/IFHEVMExecutor__factory";
 export type { IInputVerifier } from "./@fhevm/solidity/lib/Impl.sol/IInputVerifier";
 export { IInputVerifier__factory } from "./factories/@fhevm/solidity/lib/Impl.sol/IInputVerifier__factory";
-export type { UniversalFHEAdapter } from "./contracts/UniversalFHEAdapter";
-export { UniversalFHEAdapter__factory } from "./factories/contracts/UniversalFHEAdapter__factory";
-
-
+export type { HouseBid_FHE } from "./contracts/HouseBid_FHE";
+export { HouseBid_FHE__factory } from "./factories/contracts/HouseBid_FHE__factory";
+export type { IBidderRegistry } from "./contracts/interfaces/IBidderRegistry";
+export { IBidderRegistry__factory } from "./factories/contracts/interfaces/IBidderRegistry__factory";
+export type { IERC20 } from "./contracts/interfaces/IERC20";
+export { IERC20__factory } from "./factories/contracts/interfaces/IERC20__factory";
+export type { MockBidderRegistry } from "./contracts/mocks/MockBidderRegistry";
+export { MockBidderRegistry__factory } from "./factories/contracts/mocks/MockBidderRegistry__factory";
+export type { MockERC20 } from "./contracts/mocks/MockERC20";
+export { MockERC20__factory } from "./factories/contracts/mocks/MockERC20__factory";
+export type { ReentrantBidder } from "./contracts/mocks/ReentrantBidder";
+export { ReentrantBidder__factory } from "./factories/contracts/mocks/ReentrantBidder__factory";